@@ -0,0 +1,143 @@
+import { isHistory } from './records.js';
+import type { EventFilter } from './filter.js';
+import type { ItemAggregate, WindowStats, ZabbixRtxEnvelope } from './types.js';
+
+// 数値 history（float / uint）のアイテムごとのローリング集計。
+// 最大の窓の分だけサンプルを保持し、要求時に各窓（現在時刻から遡る）の集計を計算する。
+// clock='record'（再生モード）では壁時計の代わりに受け取ったレコードの最新の clock を現在時刻とみなす。
+
+interface Series {
+  env: ZabbixRtxEnvelope; // 最新のエンベロープ（フィルタ判定用）
+  ts: number[];           // 秒（clock + ns / 1e9）、昇順
+  values: number[];
+}
+
+/** 1m / 5m / 90s / 1h 形式 */
+export function formatDuration(ms: number): string {
+  if (ms % 3_600_000 === 0) return `${ms / 3_600_000}h`;
+  if (ms % 60_000 === 0) return `${ms / 60_000}m`;
+  if (ms % 1000 === 0) return `${ms / 1000}s`;
+  return `${ms}ms`;
+}
+
+export function parseDuration(s: string): number {
+  const m = /^(\d+)(ms|s|m|h)?$/.exec(s.trim());
+  if (!m) throw new Error(`duration expected (e.g. 30s, 5m, 1h), got ${JSON.stringify(s)}`);
+  const n = Number(m[1]);
+  switch (m[2]) {
+    case 'h': return n * 3_600_000;
+    case 'm': return n * 60_000;
+    case 's': return n * 1000;
+    default: return n;
+  }
+}
+
+export class RollingAggregator {
+  private series = new Map<string, Series>();
+  private windows: { label: string; ms: number }[];
+  private maxWindowMs: number;
+  private maxItems: number;
+  private maxSamples: number;
+  private recordClock: boolean;
+  private latestMs = 0; // clock='record': 受け取ったレコードの最新の clock（ms）
+
+  constructor(windowsMs: number[], opts: { maxItems: number; maxSamples: number; clock?: 'wall' | 'record' }) {
+    this.windows = [...new Set(windowsMs)].sort((a, b) => a - b).map(ms => ({ label: formatDuration(ms), ms }));
+    this.maxWindowMs = this.windows[this.windows.length - 1]?.ms ?? 0;
+    this.maxItems = opts.maxItems;
+    this.maxSamples = opts.maxSamples;
+    this.recordClock = opts.clock === 'record';
+  }
+
+  /** 窓の基準時刻（ms） */
+  now(): number {
+    return this.recordClock ? this.latestMs : Date.now();
+  }
+
+  get size(): number {
+    return this.series.size;
+  }
+
+  /** 設定された窓のラベル（小さい順） */
+  get windowLabels(): string[] {
+    return this.windows.map(w => w.label);
+  }
+
+  apply(env: ZabbixRtxEnvelope, now?: number) {
+    const r = env.record;
+    if (!isHistory(r) || (r.type !== 0 && r.type !== 3)) return;
+    const t = r.clock + r.ns / 1e9;
+    if (this.recordClock) {
+      // ループ再生の次の周回などで窓より前へ巻き戻ったら、集計をやり直す
+      if (t * 1000 < this.latestMs - this.maxWindowMs) { this.series.clear(); this.latestMs = t * 1000; }
+      else if (t * 1000 > this.latestMs) this.latestMs = t * 1000;
+    }
+    now ??= this.now();
+    if (t * 1000 < now - this.maxWindowMs) return; // 窓の外（起動時の復元など）
+
+    const key = `${env.source.name}:${r.itemid}`;
+    let s = this.series.get(key);
+    if (s) this.series.delete(key);
+    else s = { env, ts: [], values: [] };
+    this.series.set(key, s); // 更新順（LRU）
+
+    // 通常は末尾。syncer 間で前後した分は挿入位置を探す
+    let i = s.ts.length;
+    while (i > 0 && s.ts[i - 1] > t) i--;
+    s.ts.splice(i, 0, t);
+    s.values.splice(i, 0, r.value);
+    if (i === s.ts.length - 1) s.env = env;
+    this.trim(s, now);
+    if (s.ts.length > this.maxSamples) {
+      s.ts.splice(0, s.ts.length - this.maxSamples);
+      s.values.splice(0, s.values.length - this.maxSamples);
+    }
+
+    if (this.series.size > this.maxItems) {
+      const oldest = this.series.keys().next().value;
+      if (oldest !== undefined) this.series.delete(oldest);
+    }
+  }
+
+  /** フィルタに一致するアイテムの集計（labels で窓を限定可）。最大の窓にサンプルが無いアイテムは除く */
+  list(filter?: EventFilter, labels?: string[], now = this.now()): ItemAggregate[] {
+    const windows = labels ? this.windows.filter(w => labels.includes(w.label)) : this.windows;
+    const out: ItemAggregate[] = [];
+    for (const [key, s] of this.series) {
+      this.trim(s, now);
+      if (s.ts.length === 0) { this.series.delete(key); continue; }
+      if (filter && !filter.matches(s.env)) continue;
+      const r = s.env.record;
+      if (!isHistory(r)) continue;
+      const agg: ItemAggregate = { itemid: r.itemid, source: s.env.source, host: r.host, name: r.name, windows: {} };
+      for (const w of windows) agg.windows[w.label] = this.compute(s, now / 1000 - w.ms / 1000);
+      out.push(agg);
+    }
+    return out;
+  }
+
+  private trim(s: Series, now: number) {
+    const from = (now - this.maxWindowMs) / 1000;
+    let n = 0;
+    while (n < s.ts.length && s.ts[n] < from) n++;
+    if (n > 0) { s.ts.splice(0, n); s.values.splice(0, n); }
+  }
+
+  private compute(s: Series, from: number): WindowStats {
+    let i = s.ts.length;
+    while (i > 0 && s.ts[i - 1] >= from) i--;
+    const count = s.ts.length - i;
+    if (count === 0) return { count: 0, min: null, max: null, avg: null, last: null, rate: null };
+    let min = Infinity, max = -Infinity, sum = 0;
+    for (let k = i; k < s.ts.length; k++) {
+      const v = s.values[k];
+      if (v < min) min = v;
+      if (v > max) max = v;
+      sum += v;
+    }
+    const last = s.values[s.values.length - 1];
+    const dt = s.ts[s.ts.length - 1] - s.ts[i];
+    const rate = count >= 2 && dt > 0 ? (last - s.values[i]) / dt : null;
+    return { count, min, max, avg: sum / count, last, rate };
+  }
+}
@@ -0,0 +1,150 @@
+import crypto from 'node:crypto';
+import fs from 'node:fs';
+import type http from 'node:http';
+import { FAMILIES } from './types.js';
+import type { Family } from './types.js';
+import type { Query } from './filter.js';
+
+// API キー認証とキーごとの閲覧範囲。
+// キーファイル（JSON）:
+//   { "keys": [ { "id": "grafana", "key": "<secret>",
+//                 "families": ["problems"], "hostgroups": ["Linux servers"], "routes": ["events", "problems"] } ] }
+// "key" の代わりに "sha256"（キーの SHA-256 hex）でも可。families / hostgroups / routes は省略で無制限。
+// キーは `Authorization: Bearer <key>`、`X-API-Key: <key>`、`?token=<key>`（EventSource 用）で渡す。
+
+export const ROUTES = ['events', 'problems', 'latest', 'aggregates', 'sources', 'health', 'metrics'] as const;
+export type Route = typeof ROUTES[number];
+
+export interface ApiKey {
+  id: string;
+  families: Family[] | null;
+  hostgroups: string[] | null;
+  routes: Route[] | null;
+}
+
+/** 401（未認証）/ 403（権限外） */
+export class AuthError extends Error {
+  constructor(readonly status: 401 | 403, message: string) {
+    super(message);
+  }
+}
+
+function sha256(s: string): string {
+  return crypto.createHash('sha256').update(s, 'utf8').digest('hex');
+}
+
+function list<T extends string>(v: unknown, where: string, allowed?: readonly T[]): T[] | null {
+  if (v == null) return null;
+  if (!Array.isArray(v) || v.some(s => typeof s !== 'string')) throw new Error(`${where}: string[] expected`);
+  for (const s of v) {
+    if (allowed && !allowed.includes(s)) throw new Error(`${where}: expected one of ${allowed.join('|')}, got ${JSON.stringify(s)}`);
+  }
+  return v as T[];
+}
+
+export class KeyStore {
+  private keys = new Map<string, ApiKey>(); // sha256(key) → キー
+
+  get size() { return this.keys.size; }
+
+  static async load(filePath: string): Promise<KeyStore> {
+    const json: unknown = JSON.parse(await fs.promises.readFile(filePath, 'utf8'));
+    const entries = (json as { keys?: unknown })?.keys;
+    if (!Array.isArray(entries)) throw new Error(`${filePath}: keys: array expected`);
+    const store = new KeyStore();
+    entries.forEach((e, i) => {
+      const where = `${filePath}: keys[${i}]`;
+      if (typeof e !== 'object' || e === null) throw new Error(`${where}: object expected`);
+      if (typeof e.id !== 'string' || !e.id) throw new Error(`${where}.id: non-empty string expected`);
+      let hash: string;
+      if (typeof e.key === 'string' && e.key) hash = sha256(e.key);
+      else if (typeof e.sha256 === 'string' && /^[0-9a-f]{64}$/i.test(e.sha256)) hash = e.sha256.toLowerCase();
+      else throw new Error(`${where}: "key" or "sha256" (64 hex chars) required`);
+      if (store.keys.has(hash)) throw new Error(`${where}: duplicate key`);
+      store.keys.set(hash, {
+        id: e.id,
+        families: list(e.families, `${where}.families`, FAMILIES),
+        hostgroups: list(e.hostgroups, `${where}.hostgroups`),
+        routes: list(e.routes, `${where}.routes`, ROUTES),
+      });
+    });
+    return store;
+  }
+
+  /** リクエストからキーを取り出して照合し、route の許可を確認する。失敗時は AuthError を投げる */
+  authenticate(req: http.IncomingMessage, query: Query, route: Route): ApiKey {
+    const token = tokenOf(req, query);
+    if (!token) throw new AuthError(401, 'API key required');
+    const key = this.keys.get(sha256(token));
+    if (!key) throw new AuthError(401, 'invalid API key');
+    if (key.routes && !key.routes.includes(route)) throw new AuthError(403, `route ${JSON.stringify(route)} not permitted for key ${JSON.stringify(key.id)}`);
+    return key;
+  }
+}
+
+function tokenOf(req: http.IncomingMessage, query: Query): string | undefined {
+  const auth = req.headers['authorization'];
+  if (typeof auth === 'string') {
+    const m = /^Bearer\s+(.+)$/i.exec(auth.trim());
+    if (m) return m[1];
+  }
+  const header = req.headers['x-api-key'];
+  if (typeof header === 'string' && header) return header;
+  const q = query.token;
+  return typeof q === 'string' && q ? q : undefined;
+}
+
+/**
+ * キーの閲覧範囲をフィルタ用のクエリで返す（制限なしなら null）。
+ * 許可外の family を明示的に要求した場合は 403。
+ */
+export function scopeOf(key: ApiKey, requested: Query): Query | null {
+  if (key.families) {
+    const want = [requested.family ?? []].flat().flatMap(s => s.split(',')).map(s => s.trim()).filter(Boolean);
+    const denied = want.filter(f => !(key.families as string[]).includes(f));
+    if (denied.length) throw new AuthError(403, `family ${denied.join(',')} not permitted for key ${JSON.stringify(key.id)}`);
+  }
+  if (!key.families && !key.hostgroups) return null;
+  const q: Query = {};
+  if (key.families) q.family = key.families;
+  if (key.hostgroups) q.hostgroup = key.hostgroups;
+  return q;
+}
+
+// 許可するオリジンの一覧（`*` で全て）
+export class CorsPolicy {
+  private any: boolean;
+  private origins: Set<string>;
+
+  constructor(list: string[]) {
+    this.any = list.includes('*');
+    this.origins = new Set(list.filter(s => s !== '*'));
+  }
+
+  /** Origin が許可されているか（Origin なし = ブラウザ以外は常に許可） */
+  allowed(origin: string | undefined): boolean {
+    return !origin || this.any || this.origins.has(origin);
+  }
+
+  /** 応答に CORS ヘッダを設定する */
+  apply(req: http.IncomingMessage, res: http.ServerResponse) {
+    const origin = req.headers['origin'];
+    if (this.any) {
+      res.setHeader('Access-Control-Allow-Origin', '*');
+    } else {
+      res.setHeader('Vary', 'Origin');
+      if (origin && this.origins.has(origin)) res.setHeader('Access-Control-Allow-Origin', origin);
+    }
+  }
+
+  /** プリフライト（OPTIONS）に応答する */
+  preflight(req: http.IncomingMessage, res: http.ServerResponse) {
+    this.apply(req, res);
+    res.writeHead(204, {
+      'Access-Control-Allow-Methods': 'GET, OPTIONS',
+      'Access-Control-Allow-Headers': 'Authorization, X-API-Key, Last-Event-ID, Accept',
+      'Access-Control-Max-Age': '600',
+    });
+    res.end();
+  }
+}
@@ -0,0 +1,124 @@
+import fs from 'node:fs';
+import os from 'node:os';
+import path from 'node:path';
+import { MultiNdjsonTailer } from './tailer.js';
+import type { ZabbixRecord } from './types.js';
+
+// tailer のスループット計測（npm run build && npm run bench）。テストではなく目安を出すためのスクリプト。
+//   backlog: 書き終えた大きなファイルを先頭から読み切るまで
+//   live   : 追記しながら tail し、書いた分を読み切るまで（書き手と同じプロセスで計測）
+// の lines/sec と MiB/s を表示する。ホスト名に多バイト文字を入れ、チャンク境界で化けていないかも数える。
+//   BENCH_LINES（合計行数、既定 500000） / BENCH_FILES（ファイル数、既定 4） / BENCH_BATCH（1 回の追記行数、既定 2000）
+
+const LINES = Number(process.env.BENCH_LINES ?? 500000);
+const FILES = Number(process.env.BENCH_FILES ?? 4);
+const BATCH = Number(process.env.BENCH_BATCH ?? 2000);
+const STALL_MS = 10000; // この間 1 行も読めなければ失敗
+
+function hostOf(itemid: number): string {
+  return `ホスト-${itemid % 1000}`;
+}
+
+function line(i: number): string {
+  const itemid = 10000 + i;
+  return JSON.stringify({
+    host: { host: hostOf(itemid), name: `東京データセンター サーバー ${itemid % 1000}` },
+    groups: ['本番', 'Linux servers'],
+    item_tags: [{ tag: 'component', value: 'cpu' }],
+    itemid,
+    name: 'CPU 使用率',
+    clock: 1700000000 + Math.floor(i / 100),
+    ns: (i % 100) * 1000,
+    value: i % 100 + 0.5,
+    type: 0,
+  }) + '\n';
+}
+
+function batch(from: number, count: number): string {
+  let s = '';
+  for (let i = from; i < from + count; i++) s += line(i);
+  return s;
+}
+
+interface Result {
+  lines: number;
+  bytes: number;
+  ms: number;
+  broken: number; // ホスト名が化けた行
+}
+
+// files に書かれる（書かれた）total 行を読み切るまでを計る。write は tailer 起動後に呼ぶ
+async function measure(dir: string, total: number, write: () => Promise<void>): Promise<Result> {
+  const multi = new MultiNdjsonTailer(dir, { startAtEnd: false, intervalMs: 50, maxBackoffMs: 200 });
+  let lines = 0;
+  let broken = 0;
+  let lastAt = Date.now();
+  let done!: () => void;
+  const finished = new Promise<void>(r => { done = r; });
+  multi.on('warn', info => console.warn(`[bench] warn msg=${JSON.stringify(info.msg)} file=${info.file ?? info.dir}`));
+  multi.on('parse_error', info => console.warn(`[bench] parse_error file=${info.file} err=${info.err}`));
+  multi.on('data', ({ record }: { record: ZabbixRecord }) => {
+    if ('itemid' in record && 'host' in record && record.host.host !== hostOf(record.itemid)) broken++;
+    lastAt = Date.now();
+    if (++lines === total) done();
+  });
+
+  const t0 = performance.now();
+  await multi.start();
+  const stall = setInterval(() => { if (Date.now() - lastAt > STALL_MS) done(); }, 500);
+  try {
+    await write();
+    await finished;
+  } finally {
+    clearInterval(stall);
+  }
+  const ms = performance.now() - t0;
+  const bytes = multi.stats().reduce((n, t) => n + t.bytes, 0);
+  await multi.stop();
+  if (lines < total) throw new Error(`stalled after ${lines}/${total} lines`);
+  return { lines, bytes, ms, broken };
+}
+
+function report(name: string, r: Result) {
+  const sec = r.ms / 1000;
+  console.log(`[bench] ${name.padEnd(7)} lines=${r.lines} bytes=${r.bytes} time=${sec.toFixed(2)}s ` +
+    `lines/sec=${Math.round(r.lines / sec)} MiB/s=${(r.bytes / 1048576 / sec).toFixed(1)} broken=${r.broken}`);
+}
+
+async function writeFiles(dir: string): Promise<string[]> {
+  const files = Array.from({ length: FILES }, (_, i) => path.join(dir, `history-history-syncer-${i + 1}.ndjson`));
+  for (const f of files) await fs.promises.writeFile(f, '');
+  return files;
+}
+
+async function main() {
+  const root = await fs.promises.mkdtemp(path.join(os.tmpdir(), 'zbx-rtx-bench-'));
+  console.log(`[bench] lines=${LINES} files=${FILES} batch=${BATCH} dir=${root}`);
+  try {
+    // backlog: 先に全部書いてから読む
+    const backlog = path.join(root, 'backlog');
+    await fs.promises.mkdir(backlog);
+    const files = await writeFiles(backlog);
+    for (let i = 0; i < LINES; i += BATCH) {
+      await fs.promises.appendFile(files[(i / BATCH) % FILES], batch(i, Math.min(BATCH, LINES - i)));
+    }
+    report('backlog', await measure(backlog, LINES, async () => { }));
+
+    // live: tail しながら追記する
+    const live = path.join(root, 'live');
+    await fs.promises.mkdir(live);
+    const liveFiles = await writeFiles(live);
+    report('live', await measure(live, LINES, async () => {
+      for (let i = 0; i < LINES; i += BATCH) {
+        await fs.promises.appendFile(liveFiles[(i / BATCH) % FILES], batch(i, Math.min(BATCH, LINES - i)));
+      }
+    }));
+  } finally {
+    await fs.promises.rm(root, { recursive: true, force: true });
+  }
+}
+
+main().catch(err => {
+  console.error('[bench] failed', err);
+  process.exitCode = 1;
+});
@@ -0,0 +1,101 @@
+import fs from 'node:fs';
+import path from 'node:path';
+
+export interface Checkpoint {
+  inode: number;
+  offset: number; // 最後に emit し終えた行の直後のバイト位置
+}
+
+interface CheckpointFile {
+  version: 1;
+  files: Record<string, Checkpoint>;
+}
+
+// ファイルごとの (inode, offset) を JSON に保存する。
+// 書き込みは一時ファイル + rename で原子的に行い、定期的および stop() 時に flush する。
+export class CheckpointStore {
+  private filePath: string;
+  private flushMs: number;
+  private entries = new Map<string, Checkpoint>();
+  private dirty = false;
+  private timer: NodeJS.Timeout | null = null;
+  private flushing: Promise<void> | null = null;
+
+  constructor(filePath: string, opts: { flushMs: number }) {
+    this.filePath = filePath;
+    this.flushMs = opts.flushMs;
+  }
+
+  async load() {
+    let text: string;
+    try {
+      text = await fs.promises.readFile(this.filePath, 'utf8');
+    } catch (err: any) {
+      if (err?.code === 'ENOENT') return;
+      throw err;
+    }
+    const json = JSON.parse(text) as Partial<CheckpointFile>;
+    if (json.version !== 1 || typeof json.files !== 'object' || json.files === null) {
+      throw new Error(`unsupported checkpoint file: ${this.filePath}`);
+    }
+    for (const [file, cp] of Object.entries(json.files)) {
+      if (Number.isInteger(cp?.inode) && Number.isInteger(cp?.offset) && cp.offset >= 0) {
+        this.entries.set(file, { inode: cp.inode, offset: cp.offset });
+      }
+    }
+  }
+
+  get(file: string): Checkpoint | undefined {
+    return this.entries.get(file);
+  }
+
+  set(file: string, inode: number, offset: number) {
+    const cur = this.entries.get(file);
+    if (cur && cur.inode === inode && cur.offset === offset) return;
+    this.entries.set(file, { inode, offset });
+    this.dirty = true;
+  }
+
+  delete(file: string) {
+    if (this.entries.delete(file)) this.dirty = true;
+  }
+
+  start() {
+    this.stopTimer();
+    this.timer = setInterval(() => {
+      this.flush().catch(err => console.warn(`[checkpoint] flush error: ${err}`));
+    }, this.flushMs);
+  }
+
+  async stop() {
+    this.stopTimer();
+    await this.flush();
+  }
+
+  private stopTimer() {
+    if (this.timer) clearInterval(this.timer);
+    this.timer = null;
+  }
+
+  async flush() {
+    // 直列化（書き込み中に呼ばれたら完了を待ってから再判定）
+    while (this.flushing) await this.flushing;
+    if (!this.dirty) return;
+    this.dirty = false;
+    this.flushing = this.write().catch(err => { this.dirty = true; throw err; });
+    try { await this.flushing; } finally { this.flushing = null; }
+  }
+
+  private async write() {
+    const body: CheckpointFile = { version: 1, files: Object.fromEntries(this.entries) };
+    const tmp = path.join(path.dirname(this.filePath), `.${path.basename(this.filePath)}.${process.pid}.tmp`);
+    const fh = await fs.promises.open(tmp, 'w');
+    try {
+      await fh.writeFile(JSON.stringify(body, null, 2));
+      await fh.sync();
+    } finally {
+      await fh.close();
+    }
+    await fs.promises.rename(tmp, this.filePath);
+  }
+}
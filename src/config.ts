@@ -0,0 +1,534 @@
+import fs from 'node:fs';
+import path from 'node:path';
+import { SLOW_POLICIES, type SlowPolicy } from './sse.js';
+import { SINK_TYPES, type SinkConfig } from './sinks.js';
+import { EventFilter } from './filter.js';
+import { parseDuration } from './aggregates.js';
+import type { MismatchPolicy } from './tailer.js';
+import type { Family } from './types.js';
+
+// 設定の読み込み: 既定値 < 設定ファイル（--config <file> または CONFIG_FILE）< 環境変数。
+// 起動時に全項目を検証し、不正値はまとめて ConfigError として報告する。
+// パス系の項目は "off"（または null）で機能を無効化する。
+
+// 1 プロセスで複数の Zabbix サーバ / HA ノードのエクスポートを追う場合のソース定義。
+// 省略した項目は tail.* の値を使う。
+export interface SourceConfig {
+  name: string;
+  dir: string;
+  patterns: string[];
+  ignorePatterns: string[];
+  startAtEnd: boolean;
+}
+
+export interface Config {
+  http: {
+    port: number;
+    host: string;
+    heartbeatMs: number;
+    corsOrigins: string[];
+    authKeysFile: string | null;
+  };
+  tail: {
+    dir: string;
+    patterns: string[];
+    ignorePatterns: string[];
+    intervalMs: number;
+    maxBackoffMs: number;
+    startAtEnd: boolean;
+    maxLineBytes: number;
+  };
+  sources: SourceConfig[];
+  replay: {
+    enabled: boolean;
+    speed: number;
+    loop: boolean;
+    from: number | null; // clock（UNIX 秒）
+    to: number | null;
+  };
+  sinks: SinkConfig[];
+  checkpoint: {
+    file: string | null;
+    flushMs: number;
+    mismatch: MismatchPolicy;
+  };
+  ring: {
+    capacity: number;
+  };
+  latest: {
+    maxItems: number;
+  };
+  aggregates: {
+    windows: number[]; // ミリ秒
+    maxItems: number;
+    maxSamples: number;
+    intervalMs: number;
+  };
+  dedup: {
+    families: Family[];
+    windowSize: number;
+  };
+  rules: {
+    file: string | null;
+    intervalMs: number;
+  };
+  health: {
+    stallMs: number; // 0 = 停滞検知なし
+    stallFamilies: Family[];
+    requireAuth: boolean; // /healthz・/readyz にも API キー（routes の health）を要求する
+  };
+  journal: {
+    dir: string | null;
+    segmentBytes: number;
+    maxBytes: number;
+    maxAgeMs: number;
+  };
+  sse: {
+    dropThreshold: number;
+    slowPolicy: SlowPolicy;
+    slowMaxDrops: number;
+  };
+  ws: {
+    maxMessageBytes: number;
+  };
+}
+
+type Kind =
+  | { type: 'int'; min: number; max?: number }
+  | { type: 'number'; min: number }
+  | { type: 'time' }
+  | { type: 'bool' }
+  | { type: 'string' }
+  | { type: 'enum'; values: readonly string[] }
+  | { type: 'list' }
+  | { type: 'enumList'; values: readonly string[] }
+  | { type: 'regexList' }
+  | { type: 'durationList' }
+  | { type: 'path' }
+  | { type: 'pathOrOff' }
+  | { type: 'sources' }
+  | { type: 'sinks' }
+  | { type: 'url' }
+  | { type: 'stringMap' }
+  | { type: 'query' };
+
+interface OptionSpec {
+  key: string;   // 設定ファイル上のパス（http.port 等）
+  env: string;
+  kind: Kind;
+  default: unknown;
+}
+
+const int = (min: number, max?: number): Kind => ({ type: 'int', min, max });
+
+const OPTIONS: OptionSpec[] = [
+  { key: 'http.port', env: 'PORT', kind: int(0, 65535), default: 3000 },
+  { key: 'http.host', env: 'HOST', kind: { type: 'string' }, default: '' },
+  { key: 'http.heartbeatMs', env: 'HEARTBEAT_MS', kind: int(100), default: 20000 },
+  { key: 'http.corsOrigins', env: 'CORS_ORIGINS', kind: { type: 'list' }, default: ['*'] },
+  { key: 'http.authKeysFile', env: 'AUTH_KEYS_FILE', kind: { type: 'pathOrOff' }, default: null },
+
+  { key: 'tail.dir', env: 'ZBX_RTX_DIR', kind: { type: 'path' }, default: './zbx-rtx' },
+  { key: 'tail.patterns', env: 'TAIL_PATTERNS', kind: { type: 'regexList' }, default: ['^(problems|history|trends)-.*\\.ndjson$'] },
+  { key: 'tail.ignorePatterns', env: 'TAIL_IGNORE_PATTERNS', kind: { type: 'regexList' }, default: ['\\.old$'] },
+  { key: 'tail.intervalMs', env: 'POLL_INTERVAL_MS', kind: int(10), default: 250 },
+  { key: 'tail.maxBackoffMs', env: 'MAX_BACKOFF_MS', kind: int(10), default: 2000 },
+  { key: 'tail.startAtEnd', env: 'TAIL_START_AT_END', kind: { type: 'bool' }, default: true },
+  { key: 'tail.maxLineBytes', env: 'TAIL_MAX_LINE_BYTES', kind: int(1024), default: 1048576 },
+  // null: tail.dir を "default" という名前の単一ソースとして扱う
+  { key: 'sources', env: 'ZBX_RTX_SOURCES', kind: { type: 'sources' }, default: null },
+  // 記録済みのエクスポートを clock に合わせて再生する（ライブの tail の代わり）
+  { key: 'replay.enabled', env: 'REPLAY', kind: { type: 'bool' }, default: false },
+  { key: 'replay.speed', env: 'REPLAY_SPEED', kind: { type: 'number', min: 0 }, default: 1 },
+  { key: 'replay.loop', env: 'REPLAY_LOOP', kind: { type: 'bool' }, default: false },
+  { key: 'replay.from', env: 'REPLAY_FROM', kind: { type: 'time' }, default: null },
+  { key: 'replay.to', env: 'REPLAY_TO', kind: { type: 'time' }, default: null },
+  { key: 'sinks', env: 'ZBX_RTX_SINKS', kind: { type: 'sinks' }, default: [] },
+
+  { key: 'checkpoint.file', env: 'CHECKPOINT_FILE', kind: { type: 'pathOrOff' }, default: './zbx-rtx-checkpoints.json' },
+  { key: 'checkpoint.flushMs', env: 'CHECKPOINT_FLUSH_MS', kind: int(100), default: 5000 },
+  { key: 'checkpoint.mismatch', env: 'CHECKPOINT_MISMATCH', kind: { type: 'enum', values: ['start', 'end'] }, default: 'start' },
+
+  { key: 'ring.capacity', env: 'RB_CAPACITY', kind: int(1, 10_000_000), default: 1000 },
+  { key: 'latest.maxItems', env: 'LATEST_MAX_ITEMS', kind: int(1), default: 100_000 },
+  { key: 'aggregates.windows', env: 'AGG_WINDOWS', kind: { type: 'durationList' }, default: ['1m', '5m', '15m'] },
+  { key: 'aggregates.maxItems', env: 'AGG_MAX_ITEMS', kind: int(1), default: 10_000 },
+  { key: 'aggregates.maxSamples', env: 'AGG_MAX_SAMPLES', kind: int(2), default: 3600 },
+  { key: 'aggregates.intervalMs', env: 'AGG_INTERVAL_MS', kind: int(1000), default: 10000 },
+  // 空の一覧で重複排除を無効化
+  { key: 'dedup.families', env: 'DEDUP_FAMILIES', kind: { type: 'enumList', values: ['problems', 'history', 'trends'] }, default: ['problems', 'history', 'trends'] },
+  { key: 'dedup.windowSize', env: 'DEDUP_WINDOW_SIZE', kind: int(1), default: 100_000 },
+  { key: 'rules.file', env: 'RULES_FILE', kind: { type: 'pathOrOff' }, default: null },
+  { key: 'rules.intervalMs', env: 'RULES_INTERVAL_MS', kind: int(100), default: 1000 },
+  // trends は 1 時間ごと、problems は障害時のみ書かれるため、既定は history だけを停滞検知の対象にする
+  { key: 'health.stallMs', env: 'STALL_MS', kind: int(0), default: 300_000 },
+  { key: 'health.stallFamilies', env: 'STALL_FAMILIES', kind: { type: 'enumList', values: ['problems', 'history', 'trends'] }, default: ['history'] },
+  { key: 'health.requireAuth', env: 'HEALTH_REQUIRE_AUTH', kind: { type: 'bool' }, default: false },
+
+  { key: 'journal.dir', env: 'JOURNAL_DIR', kind: { type: 'pathOrOff' }, default: './zbx-rtx-journal' },
+  { key: 'journal.segmentBytes', env: 'JOURNAL_SEGMENT_BYTES', kind: int(1024), default: 64 * 1024 * 1024 },
+  { key: 'journal.maxBytes', env: 'JOURNAL_MAX_BYTES', kind: int(1024), default: 1024 * 1024 * 1024 },
+  { key: 'journal.maxAgeMs', env: 'JOURNAL_MAX_AGE_MS', kind: int(1000), default: 7 * 24 * 3600 * 1000 },
+
+  { key: 'sse.dropThreshold', env: 'SSE_DROP_THRESHOLD', kind: int(1), default: 64 * 1024 },
+  { key: 'sse.slowPolicy', env: 'SSE_SLOW_POLICY', kind: { type: 'enum', values: SLOW_POLICIES }, default: 'drop' },
+  { key: 'sse.slowMaxDrops', env: 'SSE_SLOW_MAX_DROPS', kind: int(1), default: 100 },
+
+  { key: 'ws.maxMessageBytes', env: 'WS_MAX_MESSAGE_BYTES', kind: int(128), default: 64 * 1024 },
+];
+
+export class ConfigError extends Error {
+  constructor(readonly problems: string[]) {
+    super(`invalid configuration:\n${problems.map(p => `  - ${p}`).join('\n')}`);
+  }
+}
+
+function describe(kind: Kind): string {
+  switch (kind.type) {
+    case 'int': return kind.max != null ? `integer ${kind.min}..${kind.max}` : `integer >= ${kind.min}`;
+    case 'number': return `number >= ${kind.min}`;
+    case 'time': return 'UNIX seconds, ISO 8601 date-time or null';
+    case 'bool': return 'boolean';
+    case 'string': return 'string';
+    case 'enum': return `one of ${kind.values.join('|')}`;
+    case 'list': return 'string[]';
+    case 'enumList': return `array of ${kind.values.join('|')}`;
+    case 'regexList': return 'regular expression string[]';
+    case 'durationList': return 'non-empty array of durations >= 1s (ms number or "30s" / "5m" / "1h")';
+    case 'path': return 'path';
+    case 'pathOrOff': return 'path, "off" or null';
+    case 'sources': return 'array of {name, dir, patterns?, ignorePatterns?, startAtEnd?} with unique names';
+    case 'sinks': return 'array of {name, type: webhook|file, filter?, ...} with unique names';
+    case 'url': return 'http(s) URL';
+    case 'stringMap': return 'object of strings';
+    case 'query': return 'filter object ({"family": "problems", "severity>": 4, ...})';
+  }
+}
+
+// 環境変数の文字列を JSON 相当の値に変換（型検証は validate で行う）
+function fromEnv(kind: Kind, s: string): unknown {
+  switch (kind.type) {
+    case 'int': return /^-?\d+$/.test(s.trim()) ? Number(s.trim()) : s;
+    case 'number': return /^-?\d+(\.\d+)?$/.test(s.trim()) ? Number(s.trim()) : s;
+    case 'time': return /^\d+$/.test(s.trim()) ? Number(s.trim()) : s === '' || s === 'off' ? null : s;
+    case 'bool': return s === 'true' || s === '1' ? true : s === 'false' || s === '0' ? false : s;
+    case 'sinks':
+      try { return JSON.parse(s); } catch { return s; }
+    case 'sources':
+      // JSON 配列、または name=dir のカンマ区切り
+      if (s.trim().startsWith('[')) { try { return JSON.parse(s); } catch { return s; } }
+      return s.split(',').map(v => v.trim()).filter(Boolean).map(v => {
+        const i = v.indexOf('=');
+        return i === -1 ? v : { name: v.slice(0, i), dir: v.slice(i + 1) };
+      });
+    case 'list':
+    case 'enumList':
+    case 'regexList':
+    case 'durationList':
+      // JSON 配列、またはカンマ区切り
+      if (s.trim().startsWith('[')) { try { return JSON.parse(s); } catch { return s; } }
+      return s.split(',').map(v => v.trim()).filter(Boolean);
+    default: return s;
+  }
+}
+
+type Validated = { ok: true; value: unknown } | { ok: false; reason?: string };
+
+function validate(kind: Kind, v: unknown): Validated {
+  const bad = { ok: false } as const;
+  switch (kind.type) {
+    case 'int':
+      if (typeof v !== 'number' || !Number.isSafeInteger(v) || v < kind.min || (kind.max != null && v > kind.max)) return bad;
+      return { ok: true, value: v };
+    case 'number':
+      return typeof v === 'number' && Number.isFinite(v) && v >= kind.min ? { ok: true, value: v } : bad;
+    case 'time': {
+      if (v === null) return { ok: true, value: null };
+      if (typeof v === 'number') return Number.isFinite(v) && v >= 0 ? { ok: true, value: v } : bad;
+      const ms = typeof v === 'string' ? Date.parse(v) : NaN;
+      return Number.isFinite(ms) ? { ok: true, value: ms / 1000 } : bad;
+    }
+    case 'bool':
+      return typeof v === 'boolean' ? { ok: true, value: v } : bad;
+    case 'string':
+      return typeof v === 'string' ? { ok: true, value: v } : bad;
+    case 'enum':
+      return typeof v === 'string' && kind.values.includes(v) ? { ok: true, value: v } : bad;
+    case 'list':
+      return Array.isArray(v) && v.every(s => typeof s === 'string') ? { ok: true, value: v } : bad;
+    case 'enumList':
+      return Array.isArray(v) && v.every(s => typeof s === 'string' && kind.values.includes(s)) ? { ok: true, value: [...new Set(v)] } : bad;
+    case 'regexList':
+      if (!Array.isArray(v) || !v.every(s => typeof s === 'string')) return bad;
+      try { v.forEach(s => new RegExp(s)); } catch { return bad; }
+      return { ok: true, value: v };
+    case 'durationList': {
+      if (!Array.isArray(v) || v.length === 0) return bad;
+      const ms: number[] = [];
+      for (const d of v) {
+        let n: number;
+        if (typeof d === 'number') n = d;
+        else if (typeof d === 'string') { try { n = parseDuration(d); } catch { return bad; } }
+        else return bad;
+        if (!Number.isSafeInteger(n) || n < 1000) return bad;
+        ms.push(n);
+      }
+      return { ok: true, value: ms };
+    }
+    case 'path':
+      return typeof v === 'string' && v ? { ok: true, value: path.resolve(v) } : bad;
+    case 'pathOrOff':
+      if (v === null || v === 'off') return { ok: true, value: null };
+      return typeof v === 'string' && v ? { ok: true, value: path.resolve(v) } : bad;
+    case 'sources': {
+      // 省略項目の補完は loadConfig で行う
+      if (v === null) return { ok: true, value: null };
+      if (!Array.isArray(v) || v.length === 0) return bad;
+      const names = new Set<string>();
+      for (const src of v) {
+        if (typeof src !== 'object' || src === null || Array.isArray(src)) return bad;
+        if (Object.keys(src).some(k => !['name', 'dir', 'patterns', 'ignorePatterns', 'startAtEnd'].includes(k))) return bad;
+        if (typeof src.name !== 'string' || !SOURCE_NAME_RE.test(src.name) || names.has(src.name)) return bad;
+        names.add(src.name);
+        if (!validate({ type: 'path' }, src.dir).ok) return bad;
+        if (src.patterns !== undefined && !validate({ type: 'regexList' }, src.patterns).ok) return bad;
+        if (src.ignorePatterns !== undefined && !validate({ type: 'regexList' }, src.ignorePatterns).ok) return bad;
+        if (src.startAtEnd !== undefined && typeof src.startAtEnd !== 'boolean') return bad;
+      }
+      return { ok: true, value: v };
+    }
+    case 'sinks':
+      return validateSinks(v);
+    case 'url': {
+      if (typeof v !== 'string') return bad;
+      try { return /^https?:$/.test(new URL(v).protocol) ? { ok: true, value: v } : bad; } catch { return bad; }
+    }
+    case 'stringMap':
+      if (typeof v !== 'object' || v === null || Array.isArray(v) || Object.values(v).some(x => typeof x !== 'string')) return bad;
+      return { ok: true, value: v };
+    case 'query': {
+      if (typeof v !== 'object' || v === null || Array.isArray(v)) return bad;
+      const q: Record<string, string | string[]> = {};
+      for (const [k, x] of Object.entries(v)) q[k] = Array.isArray(x) ? x.map(String) : String(x);
+      try { EventFilter.fromQuery(q); } catch (err) { return { ok: false, reason: err instanceof Error ? err.message : String(err) }; }
+      return { ok: true, value: q };
+    }
+  }
+}
+
+// シンクの種類ごとの項目（省略時は default）
+interface FieldSpec { kind: Kind; default?: unknown }
+const SINK_FIELDS: Record<SinkConfig['type'], Record<string, FieldSpec>> = {
+  webhook: {
+    url: { kind: { type: 'url' } },
+    headers: { kind: { type: 'stringMap' }, default: {} },
+    batchSize: { kind: int(1, 10000), default: 100 },
+    flushMs: { kind: int(0), default: 1000 },
+    timeoutMs: { kind: int(100), default: 10000 },
+    retryInitialMs: { kind: int(10), default: 1000 },
+    retryMaxMs: { kind: int(10), default: 60000 },
+    maxQueue: { kind: int(1), default: 10000 },
+    spoolDir: { kind: { type: 'pathOrOff' }, default: './zbx-rtx-spool' },
+    spoolMaxBytes: { kind: int(0), default: 100 * 1024 * 1024 },
+  },
+  file: {
+    dir: { kind: { type: 'path' } },
+    maxBytes: { kind: int(1024), default: 100 * 1024 * 1024 },
+    rotateMs: { kind: int(0), default: 0 },
+    keep: { kind: int(1), default: 10 },
+    maxQueue: { kind: int(1), default: 10000 },
+  },
+};
+
+function validateSinks(v: unknown): Validated {
+  if (!Array.isArray(v)) return { ok: false };
+  const out: SinkConfig[] = [];
+  const names = new Set<string>();
+  for (const [i, sink] of v.entries()) {
+    const where = `sinks[${i}]`;
+    if (typeof sink !== 'object' || sink === null || Array.isArray(sink)) return { ok: false, reason: `${where}: object expected` };
+    if (typeof sink.name !== 'string' || !SOURCE_NAME_RE.test(sink.name)) return { ok: false, reason: `${where}.name: [A-Za-z0-9_.-]+ expected` };
+    if (names.has(sink.name)) return { ok: false, reason: `${where}.name: duplicate ${JSON.stringify(sink.name)}` };
+    names.add(sink.name);
+    if (!(SINK_TYPES as readonly string[]).includes(sink.type)) return { ok: false, reason: `${where}.type: one of ${SINK_TYPES.join('|')} expected` };
+    const fields = SINK_FIELDS[sink.type as SinkConfig['type']];
+    for (const k of Object.keys(sink)) {
+      if (k !== 'name' && k !== 'type' && k !== 'filter' && !(k in fields)) return { ok: false, reason: `${where}: unknown option ${k}` };
+    }
+    const filter = validate({ type: 'query' }, sink.filter ?? {});
+    if (!filter.ok) return { ok: false, reason: `${where}.filter: ${filter.reason ?? describe({ type: 'query' })}` };
+    const cfg: Record<string, unknown> = { name: sink.name, type: sink.type, filter: filter.value };
+    for (const [k, spec] of Object.entries(fields)) {
+      const raw = sink[k] === undefined ? spec.default : sink[k];
+      if (raw === undefined) return { ok: false, reason: `${where}.${k}: required` };
+      const r = validate(spec.kind, raw);
+      if (!r.ok) return { ok: false, reason: `${where}.${k}: ${r.reason ?? `${describe(spec.kind)} expected`}, got ${JSON.stringify(raw)}` };
+      cfg[k] = r.value;
+    }
+    out.push(cfg as unknown as SinkConfig);
+  }
+  return { ok: true, value: out };
+}
+
+const SOURCE_NAME_RE = /^[A-Za-z0-9_.-]+$/;
+
+// validate({ type: 'sources' }) を通った要素（省略項目は tail.* で補う）
+interface SourceEntry {
+  name: string;
+  dir: string;
+  patterns?: string[];
+  ignorePatterns?: string[];
+  startAtEnd?: boolean;
+}
+
+function getPath(o: unknown, key: string): unknown {
+  let cur = o;
+  for (const k of key.split('.')) {
+    if (typeof cur !== 'object' || cur === null || Array.isArray(cur)) return undefined;
+    cur = (cur as Record<string, unknown>)[k];
+  }
+  return cur;
+}
+
+// 設定ファイル中の未知のキー（タイプミス）を列挙
+function unknownKeys(o: unknown, prefix = ''): string[] {
+  if (typeof o !== 'object' || o === null || Array.isArray(o)) return [];
+  return Object.entries(o).flatMap(([k, v]) => {
+    const key = prefix ? `${prefix}.${k}` : k;
+    if (OPTIONS.some(opt => opt.key === key)) return [];
+    if (OPTIONS.some(opt => opt.key.startsWith(`${key}.`))) return unknownKeys(v, key);
+    return [key];
+  });
+}
+
+export interface CliArgs {
+  configFile: string | null;
+  printConfig: boolean;
+}
+
+export function parseArgs(argv: string[]): CliArgs {
+  const out: CliArgs = { configFile: null, printConfig: false };
+  for (let i = 0; i < argv.length; i++) {
+    const a = argv[i];
+    if (a === '--print-config') out.printConfig = true;
+    else if (a === '--config') out.configFile = argv[++i] ?? null;
+    else if (a.startsWith('--config=')) out.configFile = a.slice('--config='.length);
+    else throw new ConfigError([`unknown argument ${JSON.stringify(a)} (expected --config <file>, --print-config)`]);
+  }
+  return out;
+}
+
+/** 既定値・設定ファイル・環境変数を合成して検証する。不正値は ConfigError */
+export async function loadConfig(configFile: string | null, env: NodeJS.ProcessEnv = process.env): Promise<Config> {
+  const problems: string[] = [];
+  let file: Record<string, unknown> = {};
+  const filePath = configFile ?? env.CONFIG_FILE ?? null;
+  if (filePath) {
+    try {
+      const json: unknown = JSON.parse(await fs.promises.readFile(filePath, 'utf8'));
+      if (typeof json !== 'object' || json === null || Array.isArray(json)) throw new Error('object expected');
+      file = json as Record<string, unknown>;
+    } catch (err) {
+      throw new ConfigError([`${filePath}: ${err instanceof Error ? err.message : String(err)}`]);
+    }
+    for (const k of unknownKeys(file)) problems.push(`${filePath}: unknown option ${k}`);
+  }
+
+  const values = new Map<string, unknown>(); // キー → 検証済みの値
+  for (const opt of OPTIONS) {
+    let raw = opt.default;
+    let from = 'default';
+    const fv = getPath(file, opt.key);
+    if (fv !== undefined) { raw = fv; from = filePath!; }
+    const ev = env[opt.env];
+    if (ev != null && ev !== '') { raw = fromEnv(opt.kind, ev); from = `env ${opt.env}`; }
+    const r = validate(opt.kind, raw);
+    if (r.ok) values.set(opt.key, r.value);
+    else if (r.reason) problems.push(`${r.reason} (from ${from})`);
+    else problems.push(`${opt.key}: ${describe(opt.kind)} expected, got ${JSON.stringify(from.startsWith('env') ? ev : raw)} (from ${from})`);
+  }
+
+  if (problems.length) throw new ConfigError(problems);
+  return buildConfig(values);
+}
+
+// 検証済みの値から Config を組み立てる（値の型は OPTIONS の kind の検証で保証される）
+function buildConfig(values: Map<string, unknown>): Config {
+  const get = <T>(key: string): T => {
+    if (!values.has(key)) throw new Error(`config: ${key} is not in OPTIONS`);
+    return values.get(key) as T;
+  };
+  const tail: Config['tail'] = {
+    dir: get('tail.dir'),
+    patterns: get('tail.patterns'),
+    ignorePatterns: get('tail.ignorePatterns'),
+    intervalMs: get('tail.intervalMs'),
+    maxBackoffMs: get('tail.maxBackoffMs'),
+    startAtEnd: get('tail.startAtEnd'),
+    maxLineBytes: get('tail.maxLineBytes'),
+  };
+  const sources = get<SourceEntry[] | null>('sources') ?? [{ name: 'default', dir: tail.dir }];
+  return {
+    http: {
+      port: get('http.port'),
+      host: get('http.host'),
+      heartbeatMs: get('http.heartbeatMs'),
+      corsOrigins: get('http.corsOrigins'),
+      authKeysFile: get('http.authKeysFile'),
+    },
+    tail,
+    sources: sources.map((src): SourceConfig => ({
+      name: src.name,
+      dir: path.resolve(src.dir),
+      patterns: src.patterns ?? tail.patterns,
+      ignorePatterns: src.ignorePatterns ?? tail.ignorePatterns,
+      startAtEnd: src.startAtEnd ?? tail.startAtEnd,
+    })),
+    replay: {
+      enabled: get('replay.enabled'),
+      speed: get('replay.speed'),
+      loop: get('replay.loop'),
+      from: get('replay.from'),
+      to: get('replay.to'),
+    },
+    sinks: get('sinks'),
+    checkpoint: {
+      file: get('checkpoint.file'),
+      flushMs: get('checkpoint.flushMs'),
+      mismatch: get('checkpoint.mismatch'),
+    },
+    ring: { capacity: get('ring.capacity') },
+    latest: { maxItems: get('latest.maxItems') },
+    aggregates: {
+      windows: get('aggregates.windows'),
+      maxItems: get('aggregates.maxItems'),
+      maxSamples: get('aggregates.maxSamples'),
+      intervalMs: get('aggregates.intervalMs'),
+    },
+    dedup: {
+      families: get('dedup.families'),
+      windowSize: get('dedup.windowSize'),
+    },
+    rules: {
+      file: get('rules.file'),
+      intervalMs: get('rules.intervalMs'),
+    },
+    health: {
+      stallMs: get('health.stallMs'),
+      stallFamilies: get('health.stallFamilies'),
+      requireAuth: get('health.requireAuth'),
+    },
+    journal: {
+      dir: get('journal.dir'),
+      segmentBytes: get('journal.segmentBytes'),
+      maxBytes: get('journal.maxBytes'),
+      maxAgeMs: get('journal.maxAgeMs'),
+    },
+    sse: {
+      dropThreshold: get('sse.dropThreshold'),
+      slowPolicy: get('sse.slowPolicy'),
+      slowMaxDrops: get('sse.slowMaxDrops'),
+    },
+    ws: { maxMessageBytes: get('ws.maxMessageBytes') },
+  };
+}
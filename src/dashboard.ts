@@ -0,0 +1,386 @@
+// /v1/events/zabbix/ を text/html で開いたときのダッシュボード（外部依存なしの 1 ページ）。
+// 表示するデータはページに含めず、同じパスの JSON / SSE から取得する（?token= とフィルタはページの URL から引き継ぐ）。
+//   - オープン中の problem（?snapshot=problems + problem.opened / problem.resolved）。深刻度で色分けし、継続時間を毎秒更新
+//   - history の最新値のフィード（zabbix.history）
+//   - フィルタ（API のクエリパラメータと同じ名前。適用するとページの URL も書き換えて再接続）
+//   - 接続状態・再接続回数・gap / reset・停滞（zabbix.system.stall）
+// real-time export の problem は確認（acknowledge）状態を持たないため、Ack はこのブラウザ内の記録（localStorage）。
+// 注意: テンプレートリテラルなので、ページ内のスクリプトでは `${` とバックスラッシュを使わない。
+
+export const DASHBOARD_HTML = `<!doctype html>
+<meta charset="utf-8">
+<meta name="viewport" content="width=device-width, initial-scale=1">
+<title>Zabbix real-time export dashboard</title>
+<style>
+  :root { --bg: #15181c; --panel: #1e2227; --line: #2e343b; --fg: #e3e6ea; --dim: #8a939d; --ok: #59db8f; --warn: #ffc859; --bad: #e45959; }
+  * { box-sizing: border-box; }
+  body { font: 13px/1.5 system-ui, -apple-system, Segoe UI, Roboto, sans-serif; margin: 0; background: var(--bg); color: var(--fg); }
+  header { display: flex; flex-wrap: wrap; align-items: center; gap: 8px 16px; padding: 10px 16px; background: var(--panel); border-bottom: 1px solid var(--line); }
+  h1 { font-size: 15px; margin: 0 12px 0 0; }
+  h2 { font-size: 13px; margin: 0 0 6px; color: var(--dim); font-weight: 600; text-transform: uppercase; letter-spacing: .04em; }
+  main { display: grid; grid-template-columns: minmax(0, 3fr) minmax(0, 2fr); gap: 16px; padding: 16px; }
+  section { background: var(--panel); border: 1px solid var(--line); border-radius: 6px; padding: 10px 12px; min-width: 0; }
+  .wide { grid-column: 1 / -1; }
+  .pill { display: inline-block; padding: 1px 8px; border-radius: 10px; background: var(--line); color: var(--dim); }
+  .pill.ok { background: #1f4a33; color: var(--ok); }
+  .pill.warn { background: #4a3d1f; color: var(--warn); }
+  .pill.bad { background: #4a1f1f; color: var(--bad); }
+  .stat { color: var(--dim); }
+  .stat b { color: var(--fg); font-weight: 600; }
+  form { display: flex; flex-wrap: wrap; gap: 8px; align-items: end; }
+  label { display: flex; flex-direction: column; font-size: 11px; color: var(--dim); }
+  input, select, button { font: inherit; color: var(--fg); background: var(--bg); border: 1px solid var(--line); border-radius: 4px; padding: 3px 6px; }
+  input { width: 130px; }
+  button { cursor: pointer; }
+  button:hover { border-color: var(--dim); }
+  table { width: 100%; border-collapse: collapse; }
+  th, td { text-align: left; padding: 3px 6px; border-bottom: 1px solid var(--line); white-space: nowrap; overflow: hidden; text-overflow: ellipsis; max-width: 320px; }
+  th { color: var(--dim); font-weight: 600; }
+  td.num { text-align: right; font-variant-numeric: tabular-nums; }
+  .scroll { max-height: 60vh; overflow: auto; }
+  .sev { display: inline-block; min-width: 92px; padding: 0 6px; border-radius: 3px; color: #111; font-weight: 600; }
+  .sev0 { background: #97aab3; } .sev1 { background: #7499ff; } .sev2 { background: #ffc859; }
+  .sev3 { background: #ffa059; } .sev4 { background: #e97659; } .sev5 { background: #e45959; }
+  tr.acked td { opacity: .55; }
+  tr.fresh td { animation: fresh 1.5s ease-out; }
+  @keyframes fresh { from { background: #2d3a4a; } to { background: transparent; } }
+  .empty { color: var(--dim); padding: 8px 6px; }
+  .note { color: var(--dim); font-size: 11px; margin: 6px 0 0; }
+  #notices li { color: var(--dim); }
+  #notices li b { color: var(--fg); font-weight: 600; }
+  ul { margin: 0; padding-left: 18px; max-height: 20vh; overflow: auto; }
+  @media (max-width: 900px) { main { grid-template-columns: 1fr; } }
+</style>
+
+<header>
+  <h1>Zabbix real-time export</h1>
+  <span id="conn" class="pill">connecting</span>
+  <span class="stat">reconnects <b id="reconnects">0</b></span>
+  <span class="stat">last id <b id="lastId">-</b></span>
+  <span class="stat">gaps <b id="gaps">0</b></span>
+  <span id="stale"></span>
+</header>
+
+<main>
+  <section class="wide">
+    <form id="filters">
+      <label>source <input name="source" placeholder="zbx-a,zbx-b"></label>
+      <label>family <select name="family">
+        <option value="">(all)</option><option>problems</option><option>history</option><option>trends</option><option>derived</option>
+      </select></label>
+      <label>host <input name="host" placeholder="web01"></label>
+      <label>hostgroup <input name="hostgroup" placeholder="Linux servers"></label>
+      <label>severity &ge; <select name="severity>">
+        <option value="">(any)</option><option value="0">Not classified</option><option value="1">Information</option>
+        <option value="2">Warning</option><option value="3">Average</option><option value="4">High</option><option value="5">Disaster</option>
+      </select></label>
+      <label>tag <input name="tag" placeholder="service:web"></label>
+      <label>itemid <input name="itemid" placeholder="123,456"></label>
+      <button type="submit">Apply</button>
+      <button type="button" id="clear">Clear</button>
+    </form>
+  </section>
+
+  <section>
+    <h2>Active problems <span class="pill" id="problemCount">0</span></h2>
+    <div class="scroll">
+      <table>
+        <thead><tr><th>Severity</th><th>Host</th><th>Problem</th><th>Since</th><th>Duration</th><th>Ack</th><th>Source</th></tr></thead>
+        <tbody id="problems"></tbody>
+      </table>
+    </div>
+    <p class="note">Ack is recorded in this browser only: the real-time export does not carry Zabbix acknowledgements.</p>
+  </section>
+
+  <section>
+    <h2>History <span class="pill" id="historyCount">0</span> <button type="button" id="pause">Pause</button></h2>
+    <div class="scroll">
+      <table>
+        <thead><tr><th>Time</th><th>Host</th><th>Item</th><th class="num">Value</th></tr></thead>
+        <tbody id="history"></tbody>
+      </table>
+    </div>
+  </section>
+
+  <section class="wide">
+    <h2>Notices</h2>
+    <ul id="notices"></ul>
+  </section>
+</main>
+
+<script>
+(function () {
+  'use strict';
+  const BASE = '/v1/events/zabbix/';
+  const SEVERITY = ['Not classified', 'Information', 'Warning', 'Average', 'High', 'Disaster'];
+  const FILTERS = ['source', 'family', 'host', 'hostgroup', 'severity>', 'tag', 'itemid'];
+  const MAX_HISTORY = 200;
+  const MAX_NOTICES = 50;
+  const ACK_KEY = 'zbx-rtx-ack';
+
+  const $ = id => document.getElementById(id);
+  const form = $('filters');
+  const problems = new Map(); // source:eventid -> ActiveProblem
+  const stale = new Map();    // source/file -> StallEvent
+  let acked = new Set();
+  try { acked = new Set(JSON.parse(localStorage.getItem(ACK_KEY) || '[]')); } catch (e) { }
+  let es = null;
+  let reconnects = 0;
+  let gaps = 0;
+  let paused = false;
+  let historyRows = 0;
+  let skipped = 0;
+
+  // ==== DOM ====
+  function el(tag, attrs, children) {
+    const e = document.createElement(tag);
+    for (const k in attrs || {}) {
+      if (k === 'text') e.textContent = attrs[k];
+      else e.setAttribute(k, attrs[k]);
+    }
+    for (const c of children || []) e.appendChild(typeof c === 'string' ? document.createTextNode(c) : c);
+    return e;
+  }
+  function pad(n) { return (n < 10 ? '0' : '') + n; }
+  function time(clock) {
+    const d = new Date(clock * 1000);
+    return pad(d.getHours()) + ':' + pad(d.getMinutes()) + ':' + pad(d.getSeconds());
+  }
+  function stamp(clock) {
+    const d = new Date(clock * 1000);
+    return (d.getMonth() + 1) + '/' + d.getDate() + ' ' + time(clock);
+  }
+  function duration(sec) {
+    sec = Math.max(0, Math.floor(sec));
+    const d = Math.floor(sec / 86400), h = Math.floor(sec % 86400 / 3600), m = Math.floor(sec % 3600 / 60), s = sec % 60;
+    if (d) return d + 'd ' + h + 'h ' + m + 'm';
+    if (h) return h + 'h ' + m + 'm';
+    if (m) return m + 'm ' + s + 's';
+    return s + 's';
+  }
+  function setConn(text, cls) {
+    const c = $('conn');
+    c.textContent = text;
+    c.className = 'pill' + (cls ? ' ' + cls : '');
+  }
+  function notice(label, text) {
+    const list = $('notices');
+    list.insertBefore(el('li', {}, [time(Date.now() / 1000) + ' ', el('b', { text: label }), ' ' + text]), list.firstChild);
+    while (list.children.length > MAX_NOTICES) list.removeChild(list.lastChild);
+  }
+
+  // ==== フィルタ（ページの URL <-> フォーム <-> API のクエリ） ====
+  const page = new URLSearchParams(location.search);
+  const token = page.get('token');
+  for (const name of FILTERS) if (page.has(name)) form.elements[name].value = page.get(name);
+
+  function filterQuery() {
+    const q = new URLSearchParams();
+    for (const name of FILTERS) {
+      const v = form.elements[name].value.trim();
+      if (v) q.set(name, v);
+    }
+    return q;
+  }
+  function apiUrl(extra) {
+    const q = filterQuery();
+    for (const k in extra) q.set(k, extra[k]);
+    if (token) q.set('token', token);
+    return BASE + '?' + q.toString();
+  }
+
+  // ==== problems ====
+  function problemKey(p) { return p.source.name + ':' + p.eventid; }
+
+  function renderProblems() {
+    const body = $('problems');
+    body.textContent = '';
+    const list = Array.from(problems.values()).sort((a, b) => b.problem.severity - a.problem.severity || b.problem.clock - a.problem.clock);
+    $('problemCount').textContent = String(list.length);
+    if (list.length === 0) {
+      body.appendChild(el('tr', {}, [el('td', { class: 'empty', colspan: '7', text: 'No active problems' })]));
+      return;
+    }
+    for (const p of list) {
+      const key = problemKey(p);
+      const r = p.problem;
+      const ack = el('input', { type: 'checkbox' });
+      ack.checked = acked.has(key);
+      ack.onchange = () => {
+        if (ack.checked) acked.add(key); else acked.delete(key);
+        try { localStorage.setItem(ACK_KEY, JSON.stringify(Array.from(acked))); } catch (e) { }
+        renderProblems();
+      };
+      const tr = el('tr', { class: acked.has(key) ? 'acked' : '' }, [
+        el('td', {}, [el('span', { class: 'sev sev' + r.severity, text: SEVERITY[r.severity] })]),
+        el('td', { text: r.hosts.map(h => h.name).join(', ') }),
+        el('td', { text: r.name, title: r.tags.map(t => t.value ? t.tag + ':' + t.value : t.tag).join(' ') }),
+        el('td', { text: stamp(r.clock) }),
+        el('td', { class: 'num dur', 'data-clock': String(r.clock), text: duration(Date.now() / 1000 - r.clock) }),
+        el('td', {}, [ack]),
+        el('td', { text: p.source.name }),
+      ]);
+      if (p.fresh) { tr.classList.add('fresh'); delete p.fresh; }
+      body.appendChild(tr);
+    }
+  }
+
+  function tickDurations() {
+    const now = Date.now() / 1000;
+    for (const td of document.querySelectorAll('td.dur')) td.textContent = duration(now - Number(td.getAttribute('data-clock')));
+  }
+
+  // 解決済みの problem の Ack 記録は捨てる
+  function forgetAck(key) {
+    if (!acked.delete(key)) return;
+    try { localStorage.setItem(ACK_KEY, JSON.stringify(Array.from(acked))); } catch (e) { }
+  }
+
+  // ==== history ====
+  function formatValue(r) {
+    if (typeof r.value === 'number') return Number.isInteger(r.value) ? String(r.value) : String(Math.round(r.value * 1000) / 1000);
+    return String(r.value);
+  }
+
+  function addHistory(r, fresh) {
+    if (paused) { skipped++; $('pause').textContent = 'Resume (' + skipped + ')'; return; }
+    const body = $('history');
+    const tr = el('tr', { class: fresh ? 'fresh' : '' }, [
+      el('td', { text: time(r.clock) }),
+      el('td', { text: r.host.name }),
+      el('td', { text: r.name, title: 'itemid ' + r.itemid }),
+      el('td', { class: 'num', text: formatValue(r), title: formatValue(r) }),
+    ]);
+    body.insertBefore(tr, body.firstChild);
+    while (body.children.length > MAX_HISTORY) body.removeChild(body.lastChild);
+    historyRows++;
+    $('historyCount').textContent = String(historyRows);
+  }
+
+  // ==== 停滞 ====
+  function renderStale() {
+    const box = $('stale');
+    box.textContent = '';
+    for (const e of stale.values()) box.appendChild(el('span', { class: 'pill warn', title: 'idle since ' + (e.lastGrowthAt ? new Date(e.lastGrowthAt).toLocaleString() : '-'), text: 'data stale: ' + e.source + '/' + e.file }));
+  }
+
+  // ==== 接続 ====
+  function payload(ev) {
+    const d = JSON.parse(ev.data);
+    if (ev.lastEventId) $('lastId').textContent = ev.lastEventId;
+    return d && d.record ? d.record : d; // DEBUG_FULL_PAYLOAD ではエンベロープ
+  }
+
+  // SSE が開けない（400 / 401 / 403）ときは同じ URL の JSON で理由を得る
+  async function explainFailure() {
+    try {
+      const resp = await fetch(apiUrl({ limit: '1' }), { headers: { 'Accept': 'application/json' } });
+      if (resp.ok) return;
+      const body = await resp.json().catch(() => null);
+      notice('HTTP ' + resp.status, body && body.detail ? body.detail : resp.statusText);
+    } catch (err) {
+      notice('error', String(err));
+    }
+  }
+
+  // 初期表示: JSON API の直近の history（SSE は接続後のイベントのみ）
+  async function loadRecent() {
+    try {
+      const resp = await fetch(apiUrl({ limit: '100' }), { headers: { 'Accept': 'application/json' } });
+      if (!resp.ok) return;
+      const j = await resp.json();
+      for (const it of j.items || []) if (it.source && it.source.family === 'history') addHistory(it.record, false);
+    } catch (e) { }
+  }
+
+  function connect() {
+    if (es) es.close();
+    problems.clear();
+    stale.clear();
+    renderProblems();
+    renderStale();
+    $('history').textContent = '';
+    historyRows = 0;
+    reconnects = 0;
+    gaps = 0;
+    $('reconnects').textContent = '0';
+    $('gaps').textContent = '0';
+    setConn('connecting', 'warn');
+    loadRecent();
+
+    const src = new EventSource(apiUrl({ snapshot: 'problems' }));
+    es = src;
+    src.onopen = () => setConn('live', 'ok');
+    src.onerror = () => {
+      if (src !== es) return;
+      if (src.readyState === EventSource.CLOSED) {
+        setConn('closed', 'bad');
+        explainFailure();
+      } else {
+        // EventSource が Last-Event-ID 付きで再接続し、サーバが欠落分を再送する
+        reconnects++;
+        $('reconnects').textContent = String(reconnects);
+        setConn('reconnecting', 'warn');
+      }
+    };
+    src.addEventListener('problem.snapshot', ev => {
+      problems.clear();
+      for (const p of JSON.parse(ev.data).items) problems.set(problemKey(p), p);
+      renderProblems();
+    });
+    src.addEventListener('problem.opened', ev => {
+      const p = JSON.parse(ev.data);
+      p.fresh = true;
+      problems.set(problemKey(p), p);
+      renderProblems();
+    });
+    src.addEventListener('problem.resolved', ev => {
+      const p = JSON.parse(ev.data);
+      const key = problemKey(p);
+      problems.delete(key);
+      forgetAck(key);
+      renderProblems();
+    });
+    src.addEventListener('zabbix.history', ev => addHistory(payload(ev), true));
+    for (const name of ['zabbix.problems', 'zabbix.trends', 'zabbix.other']) src.addEventListener(name, payload);
+    src.addEventListener('gap', ev => {
+      const g = JSON.parse(ev.data);
+      let n = g.untracked || 0;
+      for (const r of g.ranges) n += r[1] - r[0] + 1;
+      gaps += n;
+      $('gaps').textContent = String(gaps);
+      notice('gap', n + ' events dropped (client too slow)' + (g.ranges.length ? ': ids ' + g.ranges.map(r => r[0] + '-' + r[1]).join(', ') : ''));
+    });
+    src.addEventListener('reset', ev => {
+      const r = JSON.parse(ev.data);
+      notice('reset', 'event ' + r.requestedId + ' is no longer held (oldest ' + r.oldestId + ', latest ' + r.latestId + '); events in between were missed');
+    });
+    src.addEventListener('zabbix.system.stall', ev => {
+      const e = JSON.parse(ev.data);
+      const key = e.source + '/' + e.file;
+      if (e.state === 'stalled') stale.set(key, e); else stale.delete(key);
+      notice(e.state, key + ' (' + duration(e.idleMs / 1000) + ' without new data)');
+      renderStale();
+    });
+  }
+
+  form.onsubmit = ev => {
+    ev.preventDefault();
+    const q = filterQuery();
+    if (token) q.set('token', token);
+    const qs = q.toString();
+    history.replaceState(null, '', location.pathname + (qs ? '?' + qs : ''));
+    connect();
+  };
+  $('clear').onclick = () => { form.reset(); form.onsubmit(new Event('submit')); };
+  $('pause').onclick = () => {
+    paused = !paused;
+    skipped = 0;
+    $('pause').textContent = paused ? 'Resume' : 'Pause';
+  };
+
+  setInterval(tickDurations, 1000);
+  connect();
+})();
+</script>
+`;
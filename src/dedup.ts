@@ -0,0 +1,50 @@
+import { isHistory, isProblem, isRecovery, isTrend } from './records.js';
+import type { Family, ZabbixRecord, ZabbixRtxSource } from './types.js';
+
+// tailer の再読込（サイズ縮小による offset リセット、fs.watch エラー後の reopen 等）で
+// 同じ行が再び流れてきた場合に、自然キーで重複を落とす。
+//   problems : eventid（PROBLEM / RECOVERY は別キー）
+//   history  : itemid + clock + ns
+//   trends   : itemid + clock
+// キーはソースごと（再生モードはループ回数ごと）に独立。直近 windowSize 件のキーだけを覚える。
+export class Deduplicator {
+  private seen = new Set<string>();
+  private families: Set<Family>;
+  private windowSize: number;
+  readonly duplicates: Record<Family, number> = { problems: 0, history: 0, trends: 0, derived: 0, other: 0 };
+
+  constructor(opts: { families: Family[]; windowSize: number }) {
+    this.families = new Set(opts.families);
+    this.windowSize = opts.windowSize;
+  }
+
+  get size(): number {
+    return this.seen.size;
+  }
+
+  /** 既に見たレコードなら true（重複として数える）。初めてなら覚えて false */
+  duplicate(source: ZabbixRtxSource, record: ZabbixRecord): boolean {
+    if (!this.families.has(source.family)) return false;
+    const key = naturalKey(record);
+    if (key == null) return false;
+    const k = `${source.name}:${source.replay?.round ?? 0}:${key}`;
+    if (this.seen.has(k)) {
+      this.duplicates[source.family]++;
+      return true;
+    }
+    this.seen.add(k);
+    if (this.seen.size > this.windowSize) {
+      const oldest = this.seen.values().next().value;
+      if (oldest !== undefined) this.seen.delete(oldest);
+    }
+    return false;
+  }
+}
+
+function naturalKey(r: ZabbixRecord): string | null {
+  if (isProblem(r)) return `p:${r.eventid}`;
+  if (isRecovery(r)) return `r:${r.eventid}`;
+  if (isHistory(r)) return `h:${r.itemid}:${r.clock}:${r.ns}`;
+  if (isTrend(r)) return `t:${r.itemid}:${r.clock}`;
+  return null;
+}
@@ -0,0 +1,200 @@
+import { FAMILIES } from './types.js';
+import type { Family, ZabbixProblemEvent, ZabbixRecord, ZabbixRtxEnvelope, ZabbixTag } from './types.js';
+import { isDerived, isItemRecord, isProblem, isRecovery } from './records.js';
+
+// SSE / JSON 共通の購読フィルタ。
+//   source=zbx-a   family=problems,history   host=web01   hostgroup=Linux%20servers
+//   severity=4,5   severity>=3   tag=service:web（tag=service で値を問わない）   itemid=123,456
+// 同一パラメータ内（カンマ区切り・繰り返し）は OR、異なるパラメータ間は AND。
+// severity は problem / derived のみ、itemid は history / trends と item を持つ derived のみが持つ属性で、持たないレコードは一致しない。
+// recovery は自身に host/tag 等を持たないため、p_eventid が指す（同じソースの）problem で判定する。
+
+export type Query = Record<string, string | string[] | undefined>;
+export type ProblemLookup = (eventid: number, source: string) => ZabbixProblemEvent | undefined;
+
+/** レコードを持たないシステムイベント（zabbix.system.*）の発生元 */
+export interface SystemOrigin {
+  source: string;
+  family: Family;
+}
+
+function values(q: Query, key: string): string[] {
+  const v = q[key];
+  if (v == null) return [];
+  return (Array.isArray(v) ? v : [v])
+    .flatMap(s => s.split(','))
+    .map(s => s.trim())
+    .filter(s => s.length > 0);
+}
+
+function ints(q: Query, key: string, min = 0, max = Number.MAX_SAFE_INTEGER): number[] {
+  return values(q, key).map(s => {
+    const n = Number(s);
+    if (!/^\d+$/.test(s) || n < min || n > max) throw new Error(`${key}: integer ${min}..${max} expected, got ${JSON.stringify(s)}`);
+    return n;
+  });
+}
+
+function hostsOf(r: ZabbixRecord): string[] {
+  if (isProblem(r) || isDerived(r)) return r.hosts.flatMap(h => [h.host, h.name]);
+  if (isItemRecord(r)) return [r.host.host, r.host.name];
+  return [];
+}
+
+function itemidOf(r: ZabbixRecord): number | undefined {
+  if (isItemRecord(r)) return r.itemid;
+  if (isDerived(r)) return r.item?.itemid;
+  return undefined;
+}
+
+function groupsOf(r: ZabbixRecord): string[] {
+  if (isProblem(r) || isDerived(r) || isItemRecord(r)) return r.groups;
+  return [];
+}
+
+function tagsOf(r: ZabbixRecord): ZabbixTag[] {
+  if (isProblem(r) || isDerived(r)) return r.tags;
+  if (isItemRecord(r)) return r.item_tags;
+  return [];
+}
+
+export class EventFilter {
+  private sources: Set<string> | null = null;
+  private families: Set<Family> | null = null;
+  private hosts: Set<string> | null = null;
+  private hostgroups: Set<string> | null = null;
+  private severities: Set<number> | null = null;
+  private minSeverity: number | null = null;
+  private tags: { tag: string; value?: string }[] | null = null;
+  private itemids: Set<number> | null = null;
+  private scope: EventFilter | null = null;
+  private system = true;
+  private lookup: ProblemLookup;
+
+  constructor(lookup: ProblemLookup = () => undefined) {
+    this.lookup = lookup;
+  }
+
+  /** クエリ文字列からフィルタを構築。不正値は Error を投げる。 */
+  static fromQuery(q: Query, lookup?: ProblemLookup): EventFilter {
+    const f = new EventFilter(lookup);
+
+    const source = values(q, 'source');
+    if (source.length) f.sources = new Set(source);
+
+    const fam = values(q, 'family');
+    for (const v of fam) {
+      if (!(FAMILIES as readonly string[]).includes(v)) throw new Error(`family: unknown family ${JSON.stringify(v)}`);
+    }
+    if (fam.length) f.families = new Set(fam as Family[]);
+
+    const host = values(q, 'host');
+    if (host.length) f.hosts = new Set(host);
+
+    const hostgroup = values(q, 'hostgroup');
+    if (hostgroup.length) f.hostgroups = new Set(hostgroup);
+
+    const sev = ints(q, 'severity', 0, 5);
+    if (sev.length) f.severities = new Set(sev);
+
+    // `severity>=3` は querystring 上 key=`severity>` value=`3` になる
+    const minSev = ints(q, 'severity>', 0, 5);
+    if (minSev.length) f.minSeverity = Math.min(...minSev);
+
+    const tag = values(q, 'tag');
+    if (tag.length) {
+      f.tags = tag.map(t => {
+        const i = t.indexOf(':');
+        return i === -1 ? { tag: t } : { tag: t.slice(0, i), value: t.slice(i + 1) };
+      });
+    }
+
+    const itemid = ints(q, 'itemid');
+    if (itemid.length) f.itemids = new Set(itemid);
+
+    return f;
+  }
+
+  /** scope にも一致するものだけを通す（API キーの閲覧範囲）。system=false ならシステムイベントを通さない */
+  within(scope: EventFilter | null, system = true): this {
+    this.scope = scope;
+    this.system = system;
+    return this;
+  }
+
+  get empty(): boolean {
+    return !this.scope && !this.sources && !this.families && !this.hosts && !this.hostgroups && !this.severities
+      && this.minSeverity == null && !this.tags && !this.itemids;
+  }
+
+  matches(env: ZabbixRtxEnvelope): boolean {
+    if (this.scope && !this.scope.matches(env)) return false;
+    if (this.sources && !this.sources.has(env.source.name)) return false;
+    if (this.families && !this.families.has(env.source.family)) return false;
+    return this.matchesRecord(env.record, env.source.name);
+  }
+
+  /** システムイベントは source / family だけで判定する（host 等の条件や閲覧範囲の hostgroup は問わない） */
+  matchesSystem(o: SystemOrigin): boolean {
+    if (!this.system) return false;
+    if (this.scope && !this.scope.matchesSystem(o)) return false;
+    if (this.sources && !this.sources.has(o.source)) return false;
+    if (this.families && !this.families.has(o.family)) return false;
+    return true;
+  }
+
+  private matchesRecord(r: ZabbixRecord, source: string): boolean {
+    const needsProblem = this.hosts || this.hostgroups || this.severities || this.minSeverity != null || this.tags;
+    if (isRecovery(r)) {
+      if (this.itemids) return false;
+      if (!needsProblem) return true;
+      const p = this.lookup(r.p_eventid, source);
+      return p ? this.matchesRecord(p, source) : false;
+    }
+
+    if (this.hosts && !hostsOf(r).some(h => this.hosts!.has(h))) return false;
+    if (this.hostgroups && !groupsOf(r).some(g => this.hostgroups!.has(g))) return false;
+
+    if (this.severities || this.minSeverity != null) {
+      if (!isProblem(r) && !isDerived(r)) return false;
+      if (this.severities && !this.severities.has(r.severity)) return false;
+      if (this.minSeverity != null && r.severity < this.minSeverity) return false;
+    }
+
+    if (this.tags) {
+      const have = tagsOf(r);
+      const ok = this.tags.some(want => have.some(t => t.tag === want.tag && (want.value == null || t.value === want.value)));
+      if (!ok) return false;
+    }
+
+    if (this.itemids) {
+      const itemid = itemidOf(r);
+      if (itemid == null || !this.itemids.has(itemid)) return false;
+    }
+    return true;
+  }
+}
+
+/** recovery 判定用に最近の problem を保持する（容量超過で古い順に破棄）。eventid はソースごとに独立。 */
+export class ProblemIndex {
+  private map = new Map<string, ZabbixProblemEvent>();
+  private cap: number;
+
+  constructor(capacity: number) {
+    this.cap = capacity;
+  }
+
+  add(p: ZabbixProblemEvent, source: string) {
+    const key = `${source}:${p.eventid}`;
+    this.map.delete(key);
+    this.map.set(key, p);
+    if (this.map.size > this.cap) {
+      const oldest = this.map.keys().next().value;
+      if (oldest !== undefined) this.map.delete(oldest);
+    }
+  }
+
+  get(eventid: number, source: string): ZabbixProblemEvent | undefined {
+    return this.map.get(`${source}:${eventid}`);
+  }
+}
@@ -0,0 +1,156 @@
+import { EventEmitter } from 'node:events';
+import path from 'node:path';
+import { classifyFile, type SourceHealth, type TailerStats } from './tailer.js';
+import type { Family } from './types.js';
+
+// ファイルごとの停滞検知と /healthz・/readyz の応答。
+// stallMs の間サイズが増えなかったファイルを停滞とみなし、stall イベント（stalled / recovered）を出す。
+
+const CHECK_MS = 1000;
+
+export interface StallEvent {
+  state: 'stalled' | 'recovered';
+  source: string;
+  file: string;                // ベース名
+  family: Family;
+  lastGrowthAt: number | null;
+  lastLineAt: number | null;
+  idleMs: number;              // 最後にサイズが増えてからの経過（recovered では再び増えるまでの時間）
+  time: number;
+}
+
+export interface FileHealth extends TailerStats {
+  stalled: boolean;
+  idleMs: number;
+}
+
+export interface HealthReport {
+  // starting: 初回スキャン前のソースがある / down: 読めないソースがある / stalled: 停滞中のファイルがある
+  status: 'ok' | 'starting' | 'down' | 'stalled';
+  time: number;
+  uptimeMs: number;
+  stallMs: number | null;
+  sources: (Omit<SourceHealth, 'files'> & { files: FileHealth[] })[];
+}
+
+/** 認証なしで返す要約（パス・inode・エラー文言を含めない） */
+export interface HealthSummary {
+  status: HealthReport['status'];
+  time: number;
+  uptimeMs: number;
+  stallMs: number | null;
+  sources: {
+    name: string;
+    status: SourceHealth['status'];
+    lastScanAt: number | null;
+    lastDataAt: number | null;
+    files: { file: string; open: boolean; lastLineAt: number | null; stalled: boolean; idleMs: number }[];
+  }[];
+}
+
+export function summarize(r: HealthReport): HealthSummary {
+  return {
+    status: r.status,
+    time: r.time,
+    uptimeMs: r.uptimeMs,
+    stallMs: r.stallMs,
+    sources: r.sources.map(h => ({
+      name: h.name,
+      status: h.status,
+      lastScanAt: h.lastScanAt,
+      lastDataAt: h.lastDataAt,
+      files: h.files.map(t => ({ file: path.basename(t.file), open: t.open, lastLineAt: t.lastLineAt, stalled: t.stalled, idleMs: t.idleMs })),
+    })),
+  };
+}
+
+export class StallDetector extends EventEmitter {
+  private health: () => SourceHealth[];
+  private stallMs: number;
+  private families: Set<Family>;
+  private stalled = new Map<string, StallEvent>(); // `${source}\0${file（絶対パス）}`
+  private startedAt = Date.now();
+  private timer: NodeJS.Timeout | null = null;
+
+  /** stallMs=null で停滞検知なし（health の報告のみ） */
+  constructor(health: () => SourceHealth[], opts: { stallMs: number | null; families: Family[] }) {
+    super();
+    this.health = health;
+    this.stallMs = opts.stallMs ?? Infinity;
+    this.families = new Set(opts.families);
+  }
+
+  // 型付き on オーバーロード
+  override on(event: 'stall', listener: (e: StallEvent) => void): this;
+  override on(event: string, listener: (...args: any[]) => void): this { return super.on(event, listener); }
+
+  get size(): number {
+    return this.stalled.size;
+  }
+
+  isStalled(source: string, file: string): boolean {
+    return this.stalled.has(`${source}\0${file}`);
+  }
+
+  start() {
+    this.stop();
+    this.startedAt = Date.now();
+    if (this.stallMs === Infinity) return;
+    this.timer = setInterval(() => this.check(), CHECK_MS);
+  }
+
+  stop() {
+    if (this.timer) clearInterval(this.timer);
+    this.timer = null;
+  }
+
+  check(now = Date.now()) {
+    const seen = new Set<string>();
+    for (const h of this.health()) {
+      for (const t of h.files) {
+        const base = path.basename(t.file);
+        const family = classifyFile(base).family;
+        if (!this.families.has(family)) continue;
+        const key = `${h.name}\0${t.file}`;
+        seen.add(key);
+        const idleMs = this.idleMs(t, now);
+        const prev = this.stalled.get(key);
+        const e = { source: h.name, file: base, family, lastGrowthAt: t.lastGrowthAt, lastLineAt: t.lastLineAt, time: now };
+        if (!prev && idleMs >= this.stallMs) {
+          const stall: StallEvent = { state: 'stalled', ...e, idleMs };
+          this.stalled.set(key, stall);
+          this.emit('stall', stall);
+        } else if (prev && idleMs < this.stallMs) {
+          this.stalled.delete(key);
+          this.emit('stall', { state: 'recovered', ...e, idleMs: (t.lastGrowthAt ?? now) - (prev.lastGrowthAt ?? this.startedAt) });
+        }
+      }
+    }
+    // 追跡対象から外れたファイル（削除・ソース停止）は忘れる
+    for (const key of this.stalled.keys()) if (!seen.has(key)) this.stalled.delete(key);
+  }
+
+  report(now = Date.now()): HealthReport {
+    const sources = this.health().map(h => ({
+      ...h,
+      files: h.files.map(t => ({ ...t, stalled: this.isStalled(h.name, t.file), idleMs: this.idleMs(t, now) })),
+    }));
+    const status: HealthReport['status'] =
+      sources.some(h => h.lastScanAt == null) ? 'starting' :
+        sources.some(h => h.status === 'down') ? 'down' :
+          this.stalled.size > 0 ? 'stalled' :
+            'ok';
+    return {
+      status,
+      time: now,
+      uptimeMs: Math.round(process.uptime() * 1000),
+      stallMs: this.stallMs === Infinity ? null : this.stallMs,
+      sources,
+    };
+  }
+
+  // 開けていないファイルは検知開始時刻から数える
+  private idleMs(t: TailerStats, now: number): number {
+    return Math.max(0, now - (t.lastGrowthAt ?? this.startedAt));
+  }
+}
@@ -1,237 +1,503 @@
 import http from 'node:http';
 import net from 'node:net';
-import url from 'node:url';
 import path from 'node:path';
 import { MultiNdjsonTailer } from './tailer.js';
+import { CheckpointStore } from './checkpoint.js';
+import { Journal, queryEvents, queryRange } from './journal.js';
+import { decodeCursor, parseClock, type RangeRequest } from './timerange.js';
+import { drainBelow, replaySince } from './replay.js';
+import { WsHub, acceptUpgrade } from './websocket.js';
+import { SseHub, ssePacket, type SlowConsumerOptions, type SlowPolicy } from './sse.js';
+import { METRICS_CONTENT_TYPE, renderMetrics, type MetricFamily } from './metrics.js';
 import { RingBuffer } from './ringbuffer.js';
-import { openapi } from './openapi.js';
-
-// ==== 環境変数 ====
-const PORT = Number(process.env.PORT || 3000);
-const ZBX_RTX_DIR = process.env.ZBX_RTX_DIR || path.resolve('./zbx-rtx');
-const RB_CAPACITY = Number(process.env.RB_CAPACITY || 1000);
-const HEARTBEAT_MS = Number(process.env.HEARTBEAT_MS || 20000);
-const POLL_INTERVAL_MS = Number(process.env.POLL_INTERVAL_MS || 250);
-const MAX_BACKOFF_MS = Number(process.env.MAX_BACKOFF_MS || 2000);
-
-// ==== SSE Hub ====
-class SseHub {
-  private clients = new Set<http.ServerResponse>();
-  private timer: NodeJS.Timeout | null = null;
-  private dropThreshold: number;
-
-  constructor(dropThreshold = Number(process.env.SSE_DROP_THRESHOLD || 64 * 1024)) {
-    this.dropThreshold = dropThreshold;
+import { openapiDocument } from './openapi.js';
+import { Router, queryOf, sendJson, sendProblem, validated, HttpError, type Params } from './router.js';
+import { API, healthRoutes } from './routes.js';
+import { DASHBOARD_HTML } from './dashboard.js';
+import { EventFilter, ProblemIndex, type Query, type SystemOrigin } from './filter.js';
+import { AuthError, CorsPolicy, KeyStore, scopeOf, type ApiKey, type Route } from './auth.js';
+import { ConfigError, loadConfig, parseArgs, type Config } from './config.js';
+import { eventName, isProblem } from './records.js';
+import { ProblemTracker } from './problems.js';
+import { LatestValues } from './latest.js';
+import { RollingAggregator, formatDuration, parseDuration } from './aggregates.js';
+import { createSink } from './sinks.js';
+import { RuleEngine } from './rules.js';
+import { Deduplicator } from './dedup.js';
+import { StallDetector, summarize } from './health.js';
+import type { ZabbixRecord, ZabbixRtxEnvelope, ZabbixRtxSource } from './types.js';
+
+// ==== 設定（既定値 < 設定ファイル < 環境変数） ====
+let config: Config;
+try {
+  const args = parseArgs(process.argv.slice(2));
+  config = await loadConfig(args.configFile);
+  if (args.printConfig) {
+    console.log(JSON.stringify(config, null, 2));
+    process.exit(0);
   }
+} catch (err) {
+  if (!(err instanceof ConfigError)) throw err;
+  console.error(`[config] ${err.message}`);
+  process.exit(2);
+}
 
-  add(res: http.ServerResponse) { this.clients.add(res); }
-  delete(res: http.ServerResponse) { this.clients.delete(res); }
+// ?from= / ?to= / ?cursor= / ?order= のいずれかがあれば clock 順の範囲取得（sinceId とは併用不可）
+function parseRangeRequest(p: Params): RangeRequest | null {
+  const { from, to, cursor, order } = p as Record<string, string | undefined>;
+  if (from == null && to == null && cursor == null && order == null) return null;
+  if (p.sinceId != null) throw new HttpError(400, 'sinceId: cannot be combined with from / to / cursor / order');
+  return {
+    from: from ? validated(() => parseClock('from', from)) : null,
+    to: to ? validated(() => parseClock('to', to)) : null,
+    cursor: cursor ? validated(() => decodeCursor(cursor)) : null,
+    order: order === 'desc' ? 'desc' : 'asc',
+    limit: p.limit as number,
+  };
+}
 
-  heartbeatStart() {
-    this.heartbeatStop();
-    this.timer = setInterval(() => {
-      const pkt = `: hb ${Date.now()}\n\n`;
-      for (const res of this.clients) this.safeWrite(res, pkt);
-    }, HEARTBEAT_MS);
-  }
-  heartbeatStop() { if (this.timer) clearInterval(this.timer); this.timer = null; }
+// ?window=1m,5m（設定された窓のみ。省略で全て）
+function parseWindows(names: string[] | undefined): string[] | undefined {
+  if (!names?.length) return undefined;
+  return names.map(n => {
+    let label = '';
+    try { label = formatDuration(parseDuration(n)); } catch { }
+    if (!aggregates.windowLabels.includes(label)) throw new HttpError(400, `window: expected one of ${aggregates.windowLabels.join('|')}, got ${JSON.stringify(n)}`);
+    return label;
+  });
+}
 
-  // Close all clients and stop heartbeat
-  close() {
-    this.heartbeatStop();
-    for (const res of this.clients) {
-      try { res.end(); } catch { }
-    }
-    this.clients.clear();
-  }
+// ?mode=aggregates の送信間隔（?interval=10s、1s 以上）
+function parseAggInterval(v: string | undefined): number {
+  if (v == null) return config.aggregates.intervalMs;
+  let ms = NaN;
+  try { ms = parseDuration(v); } catch { }
+  if (!(ms >= 1000)) throw new HttpError(400, `interval: duration >= 1s expected, got ${JSON.stringify(v)}`);
+  return ms;
+}
 
-  private safeWrite(res: http.ServerResponse, pkt: string) {
-    try {
-      const w = res as any;
-      if (w.writableEnded || w.destroyed || w.writable === false) { this.delete(res); return; }
-      const pending = typeof w.writableLength === 'number' ? w.writableLength : 0;
-      if (pending >= this.dropThreshold) return; // drop this message for this client
-      res.write(pkt);
-    } catch {
-      try { res.end(); } catch { }
-      this.delete(res);
-    }
-  }
+const { authKeysFile } = config.http;
+const keys = authKeysFile ? await KeyStore.load(authKeysFile) : undefined;
+if (keys) console.log(`[init] authKeysFile=${authKeysFile} keys=${keys.size}`);
+else console.warn('[init] authKeysFile not set -> authentication disabled');
+const cors = new CorsPolicy(config.http.corsOrigins);
+
+const hub = new SseHub({
+  replay: (sinceId, filter, target, live) => replaySince(ring, journal, sinceId, filter, target, live),
+  payload: env => ssePayload(env),
+}, {
+  dropThreshold: config.sse.dropThreshold,
+  slow: { policy: config.sse.slowPolicy, maxDrops: config.sse.slowMaxDrops },
+});
 
-  broadcast(event: string, payload: unknown, id?: number) {
-    const data = typeof payload === 'string' ? payload : JSON.stringify(payload);
-    const lines: string[] = [];
-    if (id != null) lines.push(`id: ${id}\n`);
-    if (event) lines.push(`event: ${event}\n`);
-    lines.push(`data: ${data}\n\n`);
-    const pkt = lines.join('');
-    for (const res of this.clients) this.safeWrite(res, pkt);
+// journal.dir=off で無効化（リングバッファのみ、ID は起動ごとに 1 から）
+const journal = config.journal.dir == null ? undefined : new Journal(config.journal.dir, config.journal);
+if (journal) {
+  console.log(`[init] journal.dir=${config.journal.dir}`);
+  await journal.open();
+  console.log(`[journal] opened oldestId=${journal.oldestId()} latestId=${journal.latestId()}`);
+}
+const ring = new RingBuffer(config.ring.capacity, { nextId: (journal?.latestId() ?? 0) + 1 });
+const problems = new ProblemIndex(Math.max(config.ring.capacity, 10000));
+const lookupProblem = (eventid: number, source: string) => problems.get(eventid, source);
+const tracker = new ProblemTracker();
+const latest = new LatestValues(config.latest.maxItems);
+const aggregates = new RollingAggregator(config.aggregates.windows, { ...config.aggregates, clock: config.replay.enabled ? 'record' : 'wall' });
+const dedup = new Deduplicator(config.dedup);
+
+if (journal) {
+  // ジャーナルからオープン中の problem を復元
+  for await (const env of journal.scan()) {
+    if (isProblem(env.record)) problems.add(env.record, env.source.name);
+    tracker.apply(env, true);
+    latest.apply(env);
+    aggregates.apply(env);
+    dedup.duplicate(env.source, env.record); // 再起動後に同じ行を読み直した分も落とす
   }
+  console.log(`[problems] restored open=${tracker.size}`);
+  console.log(`[latest] restored items=${latest.size}`);
+  console.log(`[aggregates] restored items=${aggregates.size}`);
+}
+
+const wsHub = new WsHub({
+  latestId: () => ring.latestId(),
+  parseFilter: q => EventFilter.fromQuery(q, lookupProblem),
+  replay: (sinceId, filter, target, live) => replaySince(ring, journal, sinceId, filter, target, live),
+  snapshot: (name, filter) => snapshotData(parseSnapshotName(name), filter),
+  payload: env => ssePayload(env),
+}, {
+  dropThreshold: config.sse.dropThreshold,
+  maxMessageBytes: config.ws.maxMessageBytes,
+  slow: { policy: config.sse.slowPolicy, maxDrops: config.sse.slowMaxDrops },
+});
+
+// SSE / WebSocket へ同じイベントを配信する
+function publish(event: string, payload: unknown, id?: number, env?: ZabbixRtxEnvelope) {
+  hub.broadcast(event, payload, id, env);
+  wsHub.broadcast(event, payload, id, env);
+}
+
+// 停滞などのシステムイベント（発生元の source / family とキーの health 許可で絞る）
+function publishSystem(event: string, payload: unknown, origin: SystemOrigin) {
+  hub.broadcastSystem(event, payload, origin);
+  wsHub.broadcastSystem(event, payload, origin);
 }
 
-const hub = new SseHub();
-const ring = new RingBuffer(RB_CAPACITY);
+tracker.on('opened', (p, env) => publish('problem.opened', p, undefined, env));
+tracker.on('resolved', (p, env) => publish('problem.resolved', p, undefined, env));
 
-// ==== Tailer ====
-console.log(`[init] ZBX_RTX_DIR=${ZBX_RTX_DIR}`);
-const multi = new MultiNdjsonTailer(ZBX_RTX_DIR, {
-  intervalMs: POLL_INTERVAL_MS,
-  maxBackoffMs: MAX_BACKOFF_MS,
-  startAtEnd: true,
+// ==== ルールエンジン（生成した derived イベントも通常のイベントと同じ経路で配信する） ====
+const rules = config.rules.file == null ? undefined : await RuleEngine.load(config.rules.file, lookupProblem, {
+  intervalMs: config.rules.intervalMs,
+  clock: config.replay.enabled ? 'record' : 'wall',
+});
+if (rules) {
+  console.log(`[init] rules.file=${config.rules.file} rules=${rules.size}`);
+  rules.on('derived', (source, record) => ingest(source, record));
+}
+
+// ==== 転送先（シンクごとのフィルタはクエリと同じ書式。閲覧範囲の制限はなし） ====
+const sinks = config.sinks.map(cfg => {
+  console.log(`[init] sink name=${cfg.name} type=${cfg.type}`);
+  return createSink(cfg, EventFilter.fromQuery(cfg.filter, lookupProblem));
+});
+
+// ==== Tailer（ソースごと。リング・ハブは共有） ====
+// checkpoint.file=off で無効化（startAtEnd に従う）。キーは絶対パスなのでソース間で共有できる。
+// 再生モード（replay.enabled）は常に先頭から読むためチェックポイントを使わない
+const checkpoints = config.checkpoint.file == null || config.replay.enabled ? undefined : new CheckpointStore(config.checkpoint.file, { flushMs: config.checkpoint.flushMs });
+if (config.replay.enabled) {
+  const { speed, loop, from, to } = config.replay;
+  console.log(`[init] replay speed=${speed} loop=${loop} from=${from ?? '-'} to=${to ?? '-'}`);
+}
+const sources = config.sources.map(src => {
+  console.log(`[init] source name=${src.name} dir=${src.dir}`);
+  const multi = new MultiNdjsonTailer(src.dir, {
+    name: src.name,
+    patterns: src.patterns.map(p => new RegExp(p)),
+    ignorePatterns: src.ignorePatterns.map(p => new RegExp(p)),
+    intervalMs: config.tail.intervalMs,
+    maxBackoffMs: config.tail.maxBackoffMs,
+    startAtEnd: src.startAtEnd,
+    maxLineBytes: config.tail.maxLineBytes,
+    checkpoints,
+    onInodeMismatch: config.checkpoint.mismatch,
+    replay: config.replay.enabled ? config.replay : undefined,
+  });
+  const tag = `[tailer:${src.name}]`;
+  multi.on('ready', info => console.log(`${tag} ready file=${info.file} size=${info.size} inode=${info.inode}`));
+  multi.on('info', info => console.log(`${tag} info msg=${JSON.stringify(info.msg)} file=${info.file ?? info.dir}${info.recovered != null ? ` recovered=${info.recovered}` : ''}${info.round != null ? ` round=${info.round}` : ''}`));
+  multi.on('warn', info => console.warn(`${tag} warn msg=${JSON.stringify(info.msg)} file=${info.file ?? info.dir}`));
+  multi.on('parse_error', info => console.warn(`${tag} parse_error file=${info.file} count=${info.count} err=${info.err}`));
+  multi.on('data', ({ source, record }) => {
+    if (dedup.duplicate(source, record)) return;
+    ingest(source, record);
+  });
+  return multi;
+});
+
+// ==== 停滞検知（再生モードではファイルが伸びないので行わない） ====
+const stalls = new StallDetector(() => sources.map(s => s.health()), {
+  stallMs: config.health.stallMs > 0 && !config.replay.enabled ? config.health.stallMs : null,
+  families: config.health.stallFamilies,
+});
+stalls.on('stall', e => {
+  const log = e.state === 'stalled' ? console.warn : console.log;
+  log(`[health] ${e.state} source=${e.source} file=${e.file} idleMs=${e.idleMs}`);
+  publishSystem('zabbix.system.stall', e, e);
 });
 
-multi.on('ready', info => console.log(`[tailer] ready file=${info.file} size=${info.size} inode=${info.inode}`));
-multi.on('info', info => console.log(`[tailer] info msg=${JSON.stringify(info.msg)} file=${info.file}`));
-multi.on('warn', info => console.warn(`[tailer] warn msg=${JSON.stringify(info.msg)} file=${info.file}`));
-multi.on('parse_error', info => console.warn(`[tailer] parse_error file=${info.file} err=${info.err}`));
+function ssePayload(env: ZabbixRtxEnvelope): unknown {
+  return process.env.DEBUG_FULL_PAYLOAD ? env : env.record;
+}
 
-multi.on('data', ({ file, family, record }) => {
-  const env = ring.push({ source: { file: path.basename(file), family }, record });
-  const evt = `zabbix.${family}`;
-  const payload = process.env.DEBUG_FULL_PAYLOAD ? env : env.record;
+function ingest(source: ZabbixRtxSource, record: ZabbixRecord) {
+  if (isProblem(record)) problems.add(record, source.name);
+  const env = ring.push({ source, record });
+  journal?.append(env);
+  const evt = eventName(env);
   if (process.env.DEBUG_EVENTS === '1') {
     console.log(`[http.broadcast] event=${evt} id=${env.id}`);
   }
-  hub.broadcast(evt, payload, env.id);
-});
+  publish(evt, ssePayload(env), env.id, env);
+  for (const sink of sinks) sink.push(env);
+  tracker.apply(env);
+  latest.apply(env);
+  aggregates.apply(env);
+  rules?.apply(env);
+}
+
+// sinceId より後のイベントを再送してから hub に登録する
+async function subscribe(res: http.ServerResponse, sinceId: number | undefined, filter: EventFilter, snapshot: Set<Snapshot>, slow: Partial<SlowConsumerOptions>) {
+  const closed = () => res.writableEnded || res.destroyed;
+  const live = () => {
+    if (closed()) return;
+    for (const name of snapshot) res.write(ssePacket(SNAPSHOT_EVENT[name], { items: snapshotData(name, filter) }));
+    hub.add(res, filter, slow);
+  };
+  if (sinceId == null) return live();
+  await replaySince(ring, journal, sinceId, filter, {
+    closed,
+    reset: info => res.write(ssePacket('reset', info)),
+    send: env => res.write(ssePacket(eventName(env), ssePayload(env), env.id)),
+    drained: () => drainBelow(config.sse.dropThreshold, () => res.writableLength, closed),
+  }, live);
+}
+
+// 集計モードの SSE 接続: 生のイベントの代わりに intervalMs ごとに aggregates イベントを送る。
+// 送信待ちが閾値を超えている周期は送らない（次の周期で最新の集計を送る）
+const aggStreams = new Map<http.ServerResponse, () => void>();
+let aggSkipped = 0;
+
+function streamAggregates(res: http.ServerResponse, filter: EventFilter, windows: string[] | undefined, intervalMs: number) {
+  const closed = () => res.writableEnded || res.destroyed;
+  const send = () => {
+    if (closed()) return stop();
+    if (res.writableLength >= config.sse.dropThreshold) { aggSkipped++; return; }
+    res.write(ssePacket('aggregates', { time: aggregates.now(), items: aggregates.list(filter, windows) }));
+  };
+  const timer = setInterval(send, intervalMs);
+  const hb = setInterval(() => { if (!closed() && res.writableLength < config.sse.dropThreshold) res.write(`: hb ${Date.now()}\n\n`); }, config.http.heartbeatMs);
+  const stop = () => {
+    clearInterval(timer);
+    clearInterval(hb);
+    aggStreams.delete(res);
+  };
+  aggStreams.set(res, stop);
+  send();
+}
+
+// 接続時に送る初期スナップショット（SSE: ?snapshot=problems,latest / WebSocket: subscribe.snapshot）
+type Snapshot = 'problems' | 'latest';
+const SNAPSHOT_EVENT: Record<Snapshot, string> = { problems: 'problem.snapshot', latest: 'latest.snapshot' };
+
+function parseSnapshotName(n: string): Snapshot {
+  if (!Object.hasOwn(SNAPSHOT_EVENT, n)) throw new HttpError(400, `snapshot: unknown snapshot ${JSON.stringify(n)}`);
+  return n as Snapshot;
+}
+
+function snapshotData(name: Snapshot, filter: EventFilter): unknown[] {
+  switch (name) {
+    case 'problems': return tracker.list(filter);
+    case 'latest': return latest.list(filter);
+  }
+}
+
+function parseSinceId(v: unknown): number | undefined {
+  if (typeof v !== 'string' || !/^\d+$/.test(v.trim())) return undefined;
+  return Number(v.trim());
+}
+
+// 認証が有効ならキーを確認する（無効なら null）。失敗時は AuthError
+function authenticate(req: http.IncomingMessage, query: Query, route: Route): ApiKey | null {
+  return keys ? keys.authenticate(req, query, route) : null;
+}
+
+// クエリのフィルタをキーの閲覧範囲（family / hostgroup）で絞る。システムイベントは routes に health を持つキーだけ
+function parseFilter(q: Query, key: ApiKey | null): EventFilter {
+  const scope = key && scopeOf(key, q);
+  const system = !key?.routes || key.routes.includes('health');
+  return validated(() => EventFilter.fromQuery(q, lookupProblem)).within(scope && EventFilter.fromQuery(scope, lookupProblem), system);
+}
 
-function negotiate(accept: string | undefined): 'sse' | 'json' | 'html' {
-  const a = (accept || '').toLowerCase();
-  if (a.includes('text/event-stream')) return 'sse';
-  if (a.includes('application/json')) return 'json';
-  return 'html';
+function collectMetrics(): MetricFamily[] {
+  const health = sources.map(s => s.health());
+  const tailers = health.flatMap(h => h.files.map(t => ({ ...t, source: h.name })));
+  const perFile = (name: string, help: string, type: MetricFamily['type'], pick: (t: typeof tailers[number]) => number): MetricFamily =>
+    ({ name, help, type, samples: tailers.map(t => ({ labels: { source: t.source, file: path.basename(t.file) }, value: pick(t) })) });
+  const sinkStats = sinks.map(s => s.stats());
+  const perSink = (name: string, help: string, type: MetricFamily['type'], pick: (s: typeof sinkStats[number]) => number): MetricFamily =>
+    ({ name, help, type, samples: sinkStats.map(s => ({ labels: { sink: s.name, type: s.type }, value: pick(s) })) });
+  const perSource = (name: string, help: string, pick: (h: typeof health[number]) => number): MetricFamily =>
+    ({ name, help, type: 'gauge', samples: health.map(h => ({ labels: { source: h.name }, value: pick(h) })) });
+  const ruleStats = rules?.ruleStats() ?? [];
+  const perRule = (name: string, help: string, type: MetricFamily['type'], pick: (r: typeof ruleStats[number]) => number): MetricFamily =>
+    ({ name, help, type, samples: ruleStats.map(r => ({ labels: { rule: r.name, kind: r.kind }, value: pick(r) })) });
+  const perFamily = (name: string, help: string, type: MetricFamily['type'], values: Record<string, number>): MetricFamily =>
+    ({ name, help, type, samples: Object.entries(values).map(([family, value]) => ({ labels: { family }, value })) });
+  const gauge = (name: string, help: string, value: number): MetricFamily => ({ name, help, type: 'gauge', samples: [{ value }] });
+  const counter = (name: string, help: string, value: number): MetricFamily => ({ name, help, type: 'counter', samples: [{ value }] });
+  return [
+    perFile('zbx_rtx_tailer_lines_total', 'Lines read per file (including parse errors)', 'counter', t => t.lines),
+    perFile('zbx_rtx_tailer_bytes_total', 'Bytes read per file', 'counter', t => t.bytes),
+    perFile('zbx_rtx_tailer_lag_bytes', 'File size minus read offset', 'gauge', t => Math.max(0, t.size - t.offset)),
+    perFile('zbx_rtx_tailer_reopens_total', 'File reopens (inode change, errors)', 'counter', t => t.reopens),
+    perFile('zbx_rtx_tailer_shrinks_total', 'Offset resets because the file shrank', 'counter', t => t.shrinks),
+    perFile('zbx_rtx_tailer_parse_errors_total', 'Lines rejected by the record parser', 'counter', t => t.parseErrors),
+    perFile('zbx_rtx_tailer_oversized_lines_total', 'Lines skipped for exceeding tail.maxLineBytes', 'counter', t => t.oversized),
+    perFile('zbx_rtx_tailer_open', '1 if the file is currently open', 'gauge', t => t.open ? 1 : 0),
+    perFile('zbx_rtx_tailer_last_line_timestamp_seconds', 'Time of the last line read from the file (0 if none)', 'gauge', t => (t.lastLineAt ?? 0) / 1000),
+    perFile('zbx_rtx_tailer_stalled', '1 if the file has not grown for health.stallMs', 'gauge', t => stalls.isStalled(t.source, t.file) ? 1 : 0),
+    perSource('zbx_rtx_source_up', '1 if the source directory can be read', h => h.status === 'ok' ? 1 : 0),
+    perSource('zbx_rtx_source_files', 'Files tailed per source', h => h.files.length),
+    perSource('zbx_rtx_source_last_data_timestamp_seconds', 'Time of the last record read from the source (0 if none)', h => (h.lastDataAt ?? 0) / 1000),
+    perSink('zbx_rtx_sink_delivered_total', 'Events delivered by the sink', 'counter', s => s.delivered),
+    perSink('zbx_rtx_sink_dropped_total', 'Events dropped by the sink (queue / spool full, rejected)', 'counter', s => s.dropped),
+    perSink('zbx_rtx_sink_failures_total', 'Failed delivery or write attempts', 'counter', s => s.failures),
+    perSink('zbx_rtx_sink_pending', 'Events waiting for delivery (memory + spool)', 'gauge', s => s.pending),
+    perSink('zbx_rtx_sink_lag_seconds', 'Age of the oldest undelivered event', 'gauge', s => s.lagMs / 1000),
+    perRule('zbx_rtx_rule_fired_total', 'Derived events emitted in the firing state', 'counter', r => r.fired),
+    perRule('zbx_rtx_rule_resolved_total', 'Derived events emitted in the resolved state', 'counter', r => r.resolved),
+    perRule('zbx_rtx_rule_active', 'Targets currently firing', 'gauge', r => r.active),
+    perFamily('zbx_rtx_dedup_duplicates_total', 'Re-emitted records dropped by the dedup stage', 'counter', dedup.duplicates),
+    gauge('zbx_rtx_dedup_keys', 'Natural keys held in the dedup window', dedup.size),
+    gauge('zbx_rtx_ring_size', 'Events held in the ring buffer', ring.size),
+    gauge('zbx_rtx_ring_capacity', 'Ring buffer capacity', ring.capacity),
+    gauge('zbx_rtx_ring_latest_id', 'Latest assigned event id', ring.latestId()),
+    gauge('zbx_rtx_active_problems', 'Currently open problems', tracker.size),
+    gauge('zbx_rtx_latest_items', 'Items held in the latest-value cache', latest.size),
+    gauge('zbx_rtx_aggregate_items', 'Items held by the rolling aggregator', aggregates.size),
+    gauge('zbx_rtx_sse_clients', 'Connected SSE clients', hub.size),
+    gauge('zbx_rtx_sse_aggregate_clients', 'Connected SSE clients in aggregate mode', aggStreams.size),
+    counter('zbx_rtx_sse_aggregate_skipped_total', 'Aggregate intervals skipped because the client was too slow', aggSkipped),
+    counter('zbx_rtx_sse_dropped_total', 'SSE messages dropped because the client was too slow', hub.dropped),
+    counter('zbx_rtx_sse_slow_disconnects_total', 'SSE clients disconnected by the slow-consumer policy', hub.disconnected),
+    gauge('zbx_rtx_ws_clients', 'Connected WebSocket clients', wsHub.size),
+    counter('zbx_rtx_ws_dropped_total', 'WebSocket messages dropped because the client was too slow', wsHub.dropped),
+    counter('zbx_rtx_ws_slow_disconnects_total', 'WebSocket clients disconnected by the slow-consumer policy', wsHub.disconnected),
+  ];
 }
 
-function sendJson(res: http.ServerResponse, obj: unknown) {
-  const data = JSON.stringify(obj);
-  res.writeHead(200, {
+
+// ==== HTTP（ルートの宣言は routes.ts。パラメータ検証・Accept の交渉・認証は Router が済ませる） ====
+const router = new Router({ authenticate });
+
+const HEALTH = healthRoutes(config.health.requireAuth);
+const openapi = openapiDocument([...Object.values(API), ...Object.values(HEALTH)]);
+router.get(API.openapi, ({ res }) => sendJson(res, openapi));
+
+router.get(API.metrics, ({ res }) => {
+  res.writeHead(200, { 'Content-Type': METRICS_CONTENT_TYPE, 'Cache-Control': 'no-cache' });
+  res.end(renderMetrics(collectMetrics()));
+});
+
+// /healthz: プロセスが応答していれば常に 200 / readyz: 全ソースの初回スキャンが済み、読めないソースが無ければ 200
+// 認証なし（既定）では要約だけを返す
+function sendHealth(res: http.ServerResponse, readiness: boolean) {
+  const report = stalls.report();
+  const ready = report.status === 'ok' || report.status === 'stalled';
+  res.writeHead(readiness && !ready ? 503 : 200, {
     'Content-Type': 'application/json; charset=utf-8',
-    'Cache-Control': 'no-cache, no-transform',
-    'Access-Control-Allow-Origin': '*'
+    'Cache-Control': 'no-cache, no-transform'
   });
-  res.end(data);
+  res.end(JSON.stringify(config.health.requireAuth ? report : summarize(report)));
 }
+router.get(HEALTH.healthz, ({ res }) => sendHealth(res, false));
+router.get(HEALTH.readyz, ({ res }) => sendHealth(res, true));
 
-const DEMO_HTML = `<!doctype html>
-<meta charset="utf-8">
-<title>Zabbix NDJSON → SSE/JSON (Counts)</title>
-<style>
-  body { font: 14px/1.6 system-ui, -apple-system, Segoe UI, Roboto, sans-serif; margin: 20px; }
-  pre { background: #111; color: #0f0; padding: 12px; border-radius: 8px; height: 50vh; overflow: auto; }
-</style>
-<h1>Zabbix NDJSON → SSE/JSON</h1>
-<p>接続先: <code>/v1/events/zabbix/</code>（SSE）</p>
-<p><button id="pause">Pause</button> <button id="resume">Resume</button></p>
-<pre id="log"></pre>
-<script>
-  (async function(){
-    let paused = false;
-    const log = document.getElementById('log');
-
-    const counts = { total: 0, problems: 0, history: 0, 'main-process': 0, 'task-manager': 0, other: 0 };
-
-    function render(){
-      const lines = [
-        'total: ' + counts.total,
-        'problems: ' + counts.problems,
-        'history: ' + counts.history,
-        'main-process: ' + counts['main-process'],
-        'task-manager: ' + counts['task-manager'],
-        'other: ' + counts.other,
-      ];
-      log.textContent = lines.join('\\n');
-      log.scrollTop = log.scrollHeight;
-    }
+router.get(API.problems, ({ res, query, key }) => {
+  const items = tracker.list(parseFilter(query, key));
+  sendJson(res, { latestId: ring.latestId(), count: items.length, items });
+});
 
-    function incType(t){
-      counts.total++;
-      if (t && counts[t] != null) counts[t]++;
-      else counts.other++;
-      render();
-    }
+router.get(API.latest, ({ res, query, key }) => {
+  const items = latest.list(parseFilter(query, key));
+  sendJson(res, { latestId: ring.latestId(), count: items.length, items });
+});
 
-    // Fetch recent items via JSON API for initial view (count only)
-    try {
-      const resp = await fetch('/v1/events/zabbix/?limit=100', { headers: { 'Accept': 'application/json' } });
-      if (resp.ok) {
-        const j = await resp.json();
-        if (j.items && Array.isArray(j.items)) {
-          for (const it of j.items) {
-            const fam = (it && it.source && it.source.family) ? it.source.family : 'other';
-            if (!paused) incType(fam);
-          }
-        }
-      } else {
-        log.textContent = '[fetch] HTTP ' + resp.status;
-      }
-    } catch (err) { log.textContent = '[fetch] ' + err; }
-
-    const es = new EventSource('/v1/events/zabbix/');
-    es.onopen = () => { /* connected */ };
-    es.addEventListener('zabbix.problems', e => { if (!paused) incType('problems'); });
-    es.addEventListener('zabbix.history',  e => { if (!paused) incType('history'); });
-    es.addEventListener('zabbix.main-process', e => { if (!paused) incType('main-process'); });
-    es.addEventListener('zabbix.task-manager', e => { if (!paused) incType('task-manager'); });
-    es.addEventListener('zabbix.other', e => { if (!paused) incType('other'); });
-    es.onerror = e => { /* ignore errors for demo */ };
-
-    document.getElementById('pause').onclick = () => paused = true;
-    document.getElementById('resume').onclick = () => paused = false;
-
-    render();
-  })();
-</script>
-
-`;
+router.get(API.aggregates, ({ res, query, params, key }) => {
+  const filter = parseFilter(query, key);
+  const windows = parseWindows(params.window as string[] | undefined);
+  const items = aggregates.list(filter, windows);
+  sendJson(res, { time: aggregates.now(), windows: windows ?? aggregates.windowLabels, count: items.length, items });
+});
 
-const server = http.createServer((req, res) => {
-  const parsed = url.parse(req.url || '', true);
-  const pathname = parsed.pathname || '';
+router.get(API.sources, ({ res }) => sendJson(res, { items: sources.map(s => s.health()) }));
 
-  if (pathname === '/v1/events/zabbix/openapi.json') {
-    return sendJson(res, openapi);
+router.get(API.events, ({ req, res, query, params, type, key }) => {
+  if (type === 'text/html') {
+    // ダッシュボード自体はデータを含まない（?token= とフィルタはページ内の fetch / EventSource に引き継ぐ）
+    res.writeHead(200, { 'Content-Type': 'text/html; charset=utf-8' });
+    res.end(DASHBOARD_HTML);
+    return;
   }
-
-  if (pathname === '/v1/events/zabbix/') {
-    const mode = negotiate(req.headers['accept']);
-    if (mode === 'sse') {
-      res.writeHead(200, {
-        'Content-Type': 'text/event-stream; charset=utf-8',
-        'Cache-Control': 'no-cache, no-transform',
-        'Connection': 'keep-alive',
-        'Access-Control-Allow-Origin': '*'
-      });
-      res.write(`: connected
+  const filter = parseFilter(query, key);
+
+  if (type === 'text/event-stream') {
+    const snapshot = new Set(params.snapshot as Snapshot[] | undefined);
+    const slow: Partial<SlowConsumerOptions> = {};
+    if (params.slow != null) slow.policy = params.slow as SlowPolicy;
+    if (params.maxDrops != null) slow.maxDrops = params.maxDrops as number;
+    const agg = params.mode === 'aggregates'
+      ? { windows: parseWindows(params.window as string[] | undefined), intervalMs: parseAggInterval(params.interval as string | undefined) }
+      : null;
+
+    res.writeHead(200, {
+      'Content-Type': 'text/event-stream; charset=utf-8',
+      'Cache-Control': 'no-cache, no-transform',
+      'Connection': 'keep-alive'
+    });
+    res.write(`: connected
 
 `);
-      hub.add(res);
-      req.on('close', () => { hub.delete(res); try { res.end(); } catch { } });
+    if (agg) {
+      streamAggregates(res, filter, agg.windows, agg.intervalMs);
+      req.on('close', () => { aggStreams.get(res)?.(); try { res.end(); } catch { } });
       return;
     }
+    // Last-Event-ID（EventSource の自動再接続）を ?sinceId= より優先
+    const sinceId = parseSinceId(req.headers['last-event-id']) ?? params.sinceId as number | undefined;
+    subscribe(res, sinceId, filter, snapshot, slow).catch(err => {
+      console.warn(`[http] replay error: ${err}`);
+      try { res.end(); } catch { }
+    });
+    req.on('close', () => { hub.delete(res); try { res.end(); } catch { } });
+    return;
+  }
 
-    if (mode === 'json') {
-      const q = parsed.query || {};
-      const family = typeof q.family === 'string' ? q.family : undefined;
-      const limit = q.limit != null ? Number(q.limit) : undefined;
-      const sinceId = q.sinceId != null ? Number(q.sinceId) : undefined;
+  // レコードの clock による範囲指定・カーソルページング
+  const range = parseRangeRequest(params);
+  const limit = params.limit as number;
+  const result = range
+    ? queryRange(ring, journal, range, filter).then(page => ({ latestId: ring.latestId(), ...page }))
+    : queryEvents(ring, journal, { filter, limit, sinceId: params.sinceId as number | undefined ?? 0 }).then(items => ({ latestId: ring.latestId(), items }));
+
+  result
+    .then(body => sendJson(res, body))
+    .catch(err => {
+      console.warn(`[http] query error: ${err}`);
+      sendProblem(res, new HttpError(500, 'query failed'), API.events.path);
+    });
+});
 
-      const items = ring.query({ family, limit, sinceId });
-      return sendJson(res, { latestId: ring.latestId(), items });
-    }
+router.get(API.root, ({ res }) => {
+  res.writeHead(302, { Location: API.events.path });
+  res.end();
+});
 
-    res.writeHead(200, { 'Content-Type': 'text/html; charset=utf-8' });
-    res.end(DEMO_HTML);
+const server = http.createServer((req, res) => {
+  // CORS（ヘッダは writeHead 時に合成される）
+  if (req.method === 'OPTIONS') return cors.preflight(req, res);
+  cors.apply(req, res);
+  router.handle(req, res);
+});
+
+// WebSocket（同じパス。?client= を付けると ack 位置を接続をまたいで保持）
+server.on('upgrade', (req, socket) => {
+  const u = new URL(req.url || '/', 'http://localhost');
+  const query = queryOf(u);
+  if (u.pathname !== API.events.path) {
+    socket.end('HTTP/1.1 404 Not Found\r\nConnection: close\r\n\r\n');
     return;
   }
-
-  if (pathname === '/') {
-    res.writeHead(302, { Location: '/v1/events/zabbix/' });
-    res.end();
+  // ブラウザからの接続は CORS と同じオリジン制限を適用
+  if (!cors.allowed(req.headers['origin'])) {
+    socket.end('HTTP/1.1 403 Forbidden\r\nConnection: close\r\n\r\n');
     return;
   }
-
-  res.writeHead(404, { 'Content-Type': 'text/plain; charset=utf-8' });
-  res.end('Not Found');
+  let key: ApiKey | null;
+  try {
+    key = authenticate(req, query, 'events');
+  } catch (err) {
+    const status = err instanceof AuthError ? err.status : 400;
+    const auth = status === 401 ? 'WWW-Authenticate: Bearer realm="zabbix-rtx"\r\n' : '';
+    socket.end(`HTTP/1.1 ${status} ${http.STATUS_CODES[status]}\r\n${auth}Connection: close\r\n\r\n`);
+    return;
+  }
+  if (!acceptUpgrade(req, socket)) return;
+  // ack 位置はキーごとに分ける
+  const clientId = typeof query.client === 'string' ? (key ? `${key.id}:${query.client}` : query.client) : null;
+  wsHub.add(socket, clientId, q => parseFilter(q, key));
 });
 
 // Track open sockets so we can forcefully destroy them on shutdown
@@ -239,18 +505,27 @@ const sockets = new Set<net.Socket>();
 server.on('connection', (sock) => {
   sockets.add(sock);
   // Set idle timeout to prevent zombie connections
-  sock.setTimeout(HEARTBEAT_MS * 3, () => {
+  sock.setTimeout(config.http.heartbeatMs * 3, () => {
     try { sock.destroy(); } catch { }
   });
   sock.on('close', () => sockets.delete(sock));
 });
 
-server.listen(PORT, async () => {
-  console.log(`[http] listening on http://localhost:${PORT}`);
-  console.log(`[http] endpoints: /v1/events/zabbix/ (SSE/JSON/HTML), /v1/events/zabbix/openapi.json (OpenAPI)`);
+server.listen(config.http.port, config.http.host || undefined, async () => {
+  console.log(`[http] listening on http://${config.http.host || 'localhost'}:${config.http.port}`);
+  console.log(`[http] endpoints: /v1/events/zabbix/ (SSE/JSON/HTML/WebSocket), /v1/events/zabbix/problems (JSON), /v1/events/zabbix/latest (JSON), /v1/events/zabbix/aggregates (JSON), /v1/events/zabbix/sources (JSON), /v1/events/zabbix/openapi.json (OpenAPI), /healthz, /readyz, /metrics (Prometheus)`);
   // 心拍開始
-  hub.heartbeatStart();
-  await multi.start();
+  hub.heartbeatStart(config.http.heartbeatMs);
+  wsHub.heartbeatStart(config.http.heartbeatMs);
+  if (checkpoints) {
+    console.log(`[init] checkpoint.file=${config.checkpoint.file}`);
+    try { await checkpoints.load(); } catch (err) { console.warn(`[checkpoint] load error (ignored): ${err}`); }
+    checkpoints.start();
+  }
+  await Promise.all(sinks.map(s => s.start().catch(err => console.warn(`[sink:${s.name}] start error: ${err}`))));
+  rules?.start();
+  stalls.start();
+  await Promise.all(sources.map(s => s.start()));
 });
 
 // Graceful shutdown
@@ -259,17 +534,24 @@ const shutdown = async () => {
   (process as any).__shuttingDown = true;
   console.log('[shutdown] start');
   try { hub.close(); } catch (err) { console.error(`[shutdown] hub.close error: ${err}`); }
+  try { wsHub.close(); } catch (err) { console.error(`[shutdown] wsHub.close error: ${err}`); }
+  for (const [res, stop] of aggStreams) { stop(); try { res.end(); } catch { } }
   console.log('[shutdown] hub closed, stopping tailer...');
 
   // Give tailer a chance to stop with timeout
   try {
-    const tailerStop = multi.stop();
+    const tailerStop = Promise.all(sources.map(s => s.stop()));
     const tailerTimeout = setTimeout(() => {
       console.error('[shutdown] tailer.stop() timeout after 3s, forcing exit');
     }, 3000);
     await Promise.race([tailerStop, new Promise<void>(r => tailerTimeout)]);
     clearTimeout(tailerTimeout);
     } catch (err) { console.error(`[shutdown] multi.stop error: ${err}`); }
+  rules?.stop();
+  stalls.stop();
+  try { await Promise.all(sinks.map(s => s.stop())); } catch (err) { console.error(`[shutdown] sink stop error: ${err}`); }
+  try { await checkpoints?.stop(); } catch (err) { console.error(`[shutdown] checkpoint flush error: ${err}`); }
+  try { await journal?.close(); } catch (err) { console.error(`[shutdown] journal close error: ${err}`); }
   console.log('[shutdown] tailer stopped, closing server...');
 
   // Close server and wait; force exit after timeout
@@ -0,0 +1,376 @@
+import fs from 'node:fs';
+import path from 'node:path';
+import readline from 'node:readline';
+import type { ZabbixRtxEnvelope } from './types.js';
+import type { EventFilter } from './filter.js';
+import type { RingBuffer } from './ringbuffer.js';
+import { compareKeys, inRange, keyOf, rangePage, type ClockKey, type RangePage, type RangeRequest, type RangeScan } from './timerange.js';
+
+interface Segment {
+  firstId: number;
+  file: string;
+  size: number;
+  mtimeMs: number;
+  // セグメント内のレコードの (clock, ns, id) の最小・最大（範囲検索で読み飛ばす判定に使う）
+  min: ClockKey | null;
+  max: ClockKey | null;
+  // [ID, その行の先頭のバイト位置]（MARK_BYTES ごと、昇順）。query はページの続きをここから読む
+  marks: [number, number][];
+}
+
+// 書き終えたセグメントの min / max / marks は `<segment>.idx` に保存し、起動時に読み直さずに済ませる
+interface SegmentIndex {
+  size: number;
+  min: ClockKey | null;
+  max: ClockKey | null;
+  marks?: [number, number][]; // 古い .idx には無い（読み直して作る）
+}
+
+const SEGMENT_RE = /^(\d{16})\.ndjson$/;
+const MARK_BYTES = 64 * 1024;
+
+function segmentName(firstId: number) {
+  return `${String(firstId).padStart(16, '0')}.ndjson`;
+}
+
+// 追記専用のセグメント分割ジャーナル（1 行 = 1 エンベロープ）。
+// セグメント名は先頭 ID。サイズ超過でロールし、容量・経過時間で古いセグメントから削除する。
+export class Journal {
+  private dir: string;
+  private segmentBytes: number;
+  private maxBytes: number;
+  private maxAgeMs: number;
+
+  private segments: Segment[] = [];
+  private fd: fs.promises.FileHandle | null = null;
+  private lastId = 0;
+
+  private pending: ZabbixRtxEnvelope[] = [];
+  private writing: Promise<void> | null = null;
+  private retentionTimer: NodeJS.Timeout | null = null;
+  private retaining: Promise<void> = Promise.resolve();
+
+  constructor(dir: string, opts: { segmentBytes: number; maxBytes: number; maxAgeMs: number }) {
+    this.dir = dir;
+    this.segmentBytes = opts.segmentBytes;
+    this.maxBytes = opts.maxBytes;
+    this.maxAgeMs = opts.maxAgeMs;
+  }
+
+  async open() {
+    await fs.promises.mkdir(this.dir, { recursive: true });
+    const names = (await fs.promises.readdir(this.dir)).filter(n => SEGMENT_RE.test(n)).sort();
+    for (const name of names) {
+      const file = path.join(this.dir, name);
+      const st = await fs.promises.stat(file);
+      this.segments.push({ firstId: Number(SEGMENT_RE.exec(name)![1]), file, size: st.size, mtimeMs: st.mtimeMs, min: null, max: null, marks: [] });
+    }
+    const last = this.segments[this.segments.length - 1];
+    if (last) {
+      this.lastId = Math.max(last.firstId - 1, await this.recoverTail(last));
+      this.fd = await fs.promises.open(last.file, 'a');
+    }
+    for (const seg of this.segments) await this.loadIndex(seg, seg !== last);
+    await this.applyRetention();
+    this.retentionTimer = setInterval(() => {
+      this.applyRetention().catch(err => console.warn(`[journal] retention error: ${err}`));
+    }, 60_000);
+  }
+
+  // 最終セグメント末尾の未完行（クラッシュ時）を切り詰め、最後の ID を返す
+  private async recoverTail(seg: Segment): Promise<number> {
+    const buf = await fs.promises.readFile(seg.file);
+    const end = buf.lastIndexOf(0x0a) + 1;
+    if (end < buf.length) {
+      await fs.promises.truncate(seg.file, end);
+      seg.size = end;
+      console.warn(`[journal] truncated partial line file=${seg.file} at=${end}`);
+    }
+    const text = buf.subarray(0, end).toString('utf8').trimEnd();
+    const line = text.slice(text.lastIndexOf('\n') + 1);
+    if (!line) return 0;
+    return (JSON.parse(line) as ZabbixRtxEnvelope).id;
+  }
+
+  private async loadIndex(seg: Segment, save: boolean) {
+    try {
+      const idx = JSON.parse(await fs.promises.readFile(`${seg.file}.idx`, 'utf8')) as SegmentIndex;
+      if (idx.size === seg.size && Array.isArray(idx.marks)) { seg.min = idx.min; seg.max = idx.max; seg.marks = idx.marks; return; }
+    } catch { }
+    const rl = readline.createInterface({ input: fs.createReadStream(seg.file, { encoding: 'utf8' }), crlfDelay: Infinity });
+    let offset = 0;
+    for await (const line of rl) {
+      const at = offset;
+      offset += Buffer.byteLength(line, 'utf8') + 1;
+      if (!line) continue;
+      try {
+        const env = JSON.parse(line) as ZabbixRtxEnvelope;
+        this.extend(seg, keyOf(env));
+        this.mark(seg, env.id, at);
+      } catch { }
+    }
+    if (save) await this.saveIndex(seg);
+  }
+
+  private async saveIndex(seg: Segment) {
+    const idx: SegmentIndex = { size: seg.size, min: seg.min, max: seg.max, marks: seg.marks };
+    try { await fs.promises.writeFile(`${seg.file}.idx`, JSON.stringify(idx)); } catch (err) { console.warn(`[journal] index write error file=${seg.file} err=${err}`); }
+  }
+
+  private extend(seg: Segment, k: ClockKey) {
+    if (!seg.min || compareKeys(k, seg.min) < 0) seg.min = k;
+    if (!seg.max || compareKeys(k, seg.max) > 0) seg.max = k;
+  }
+
+  private mark(seg: Segment, id: number, offset: number) {
+    const last = seg.marks[seg.marks.length - 1];
+    if (!last || offset - last[1] >= MARK_BYTES) seg.marks.push([id, offset]);
+  }
+
+  latestId(): number {
+    return this.lastId;
+  }
+
+  // 保持している最古の ID（空なら latestId() + 1）
+  oldestId(): number {
+    return this.segments[0]?.firstId ?? this.lastId + 1;
+  }
+
+  append(env: ZabbixRtxEnvelope) {
+    if (env.id <= this.lastId) throw new Error(`journal: non-monotonic id ${env.id} <= ${this.lastId}`);
+    this.lastId = env.id;
+    this.pending.push(env);
+    this.schedule();
+  }
+
+  // 同一 tick の append をまとめて 1 回の write にする
+  private schedule() {
+    if (this.writing) return;
+    this.writing = new Promise<void>(resolve => setImmediate(resolve))
+      .then(() => this.drain())
+      .catch(err => console.warn(`[journal] write error: ${err}`))
+      .finally(() => {
+        this.writing = null;
+        if (this.pending.length) this.schedule();
+      });
+  }
+
+  private async drain() {
+    while (this.pending.length > 0) {
+      const batch = this.pending;
+      this.pending = [];
+      let seg = this.segments[this.segments.length - 1];
+      if (!seg || !this.fd || seg.size >= this.segmentBytes) seg = await this.roll(batch[0].id);
+      const lines = batch.map(e => JSON.stringify(e) + '\n');
+      const data = Buffer.from(lines.join(''), 'utf8');
+      for (const e of batch) this.extend(seg, keyOf(e));
+      await this.fd!.write(data);
+      // 書き終えてから印を付ける（書き込み中の位置から読ませない）
+      let offset = seg.size;
+      batch.forEach((e, i) => {
+        this.mark(seg, e.id, offset);
+        offset += Buffer.byteLength(lines[i], 'utf8');
+      });
+      seg.size += data.length;
+      seg.mtimeMs = Date.now();
+    }
+  }
+
+  private async roll(firstId: number): Promise<Segment> {
+    if (this.fd) { try { await this.fd.close(); } catch { } this.fd = null; }
+    const prev = this.segments[this.segments.length - 1];
+    if (prev) await this.saveIndex(prev);
+    const seg: Segment = { firstId, file: path.join(this.dir, segmentName(firstId)), size: 0, mtimeMs: Date.now(), min: null, max: null, marks: [] };
+    this.fd = await fs.promises.open(seg.file, 'a');
+    this.segments.push(seg);
+    await this.applyRetention();
+    return seg;
+  }
+
+  // タイマーと roll() の両方から呼ばれるので、前の回が終わってから実行する
+  private applyRetention(): Promise<void> {
+    const run = this.retaining.then(() => this.retain());
+    this.retaining = run.catch(() => { });
+    return run;
+  }
+
+  private async retain() {
+    const now = Date.now();
+    let total = this.segments.reduce((n, s) => n + s.size, 0);
+    // 書き込み中の最終セグメントは残す
+    while (this.segments.length > 1) {
+      const s = this.segments[0];
+      if (total <= this.maxBytes && now - s.mtimeMs <= this.maxAgeMs) break;
+      this.segments.shift();
+      total -= s.size;
+      try { await fs.promises.unlink(s.file); } catch (err) { console.warn(`[journal] unlink error file=${s.file} err=${err}`); }
+      try { await fs.promises.unlink(`${s.file}.idx`); } catch { }
+    }
+  }
+
+  /**
+   * sinceId より後、beforeId より前の ID を読む。
+   * lastId は走査し終えた最後の ID（フィルタで除外した分も含む）で、続きの読み出し位置に使う。
+   * sinceId を含むセグメントは marks から sinceId 以前で最も近い位置より読むので、ページを重ねても先頭から読み直さない。
+   */
+  async query(opts: { sinceId: number; beforeId: number; limit: number; filter?: EventFilter }): Promise<{ items: ZabbixRtxEnvelope[]; lastId: number }> {
+    const { sinceId, beforeId, limit, filter } = opts;
+    const items: ZabbixRtxEnvelope[] = [];
+    let lastId = sinceId;
+    const segs = this.segments.slice();
+    for (let i = 0; i < segs.length; i++) {
+      const next = segs[i + 1];
+      if (next && next.firstId <= sinceId + 1) continue; // 範囲外
+      if (segs[i].firstId >= beforeId) break;
+      const start = startOffset(segs[i], sinceId + 1);
+      const rl = readline.createInterface({ input: fs.createReadStream(segs[i].file, { encoding: 'utf8', start }), crlfDelay: Infinity });
+      try {
+        for await (const line of rl) {
+          if (!line) continue;
+          let env: ZabbixRtxEnvelope;
+          try { env = JSON.parse(line); } catch { continue; } // 書き込み途中の行
+          if (env.id <= sinceId) continue;
+          if (env.id >= beforeId) return { items, lastId: beforeId - 1 };
+          lastId = env.id;
+          if (filter && !filter.matches(env)) continue;
+          items.push(env);
+          if (items.length >= limit) return { items, lastId };
+        }
+      } catch (err: any) {
+        if (err?.code !== 'ENOENT') throw err; // 保持期間で削除済み
+      } finally {
+        rl.close();
+      }
+    }
+    // ディスク未書き込み分
+    for (const env of this.pending) {
+      if (env.id <= sinceId) continue;
+      if (env.id >= beforeId) break;
+      lastId = env.id;
+      if (filter && !filter.matches(env)) continue;
+      items.push(env);
+      if (items.length >= limit) break;
+    }
+    return { items, lastId: items.length >= limit ? lastId : Math.max(lastId, beforeId - 1) };
+  }
+
+  /**
+   * レコードの (clock, ns) 範囲を読む（sinceId < id < beforeId のみ）。
+   * 範囲が重なるセグメントだけを、走査の向きに近い順に読み、limit 件が確定したら残りを読み飛ばす。
+   */
+  async range(scan: RangeScan & { sinceId: number; beforeId: number }): Promise<ZabbixRtxEnvelope[]> {
+    const { sinceId, beforeId, limit, filter } = scan;
+    const up = scan.dir === 'up';
+    const cmp = (a: ClockKey, b: ClockKey) => up ? compareKeys(a, b) : compareKeys(b, a);
+    const kept: { k: ClockKey; env: ZabbixRtxEnvelope }[] = [];
+    const offer = (env: ZabbixRtxEnvelope) => {
+      if (env.id <= sinceId || env.id >= beforeId) return;
+      const k = keyOf(env);
+      if (!inRange(scan, k)) return;
+      if (kept.length >= limit && cmp(k, kept[limit - 1].k) >= 0) return;
+      if (filter && !filter.matches(env)) return;
+      let i = kept.length;
+      while (i > 0 && cmp(kept[i - 1].k, k) > 0) i--;
+      kept.splice(i, 0, { k, env });
+      if (kept.length > limit) kept.length = limit;
+    };
+
+    const segs = this.segments
+      .map((seg, i) => ({ seg, lastId: (this.segments[i + 1]?.firstId ?? this.lastId + 1) - 1 }))
+      .filter(({ seg, lastId }) => seg.min && seg.max && seg.firstId < beforeId && lastId > sinceId
+        && compareKeys(seg.min, scan.hi) < 0 && compareKeys(seg.max, scan.lo) > 0)
+      .map(({ seg }) => seg)
+      .sort((a, b) => up ? compareKeys(a.min!, b.min!) : compareKeys(b.max!, a.max!));
+    for (const seg of segs) {
+      if (kept.length >= limit && cmp(up ? seg.min! : seg.max!, kept[limit - 1].k) > 0) break;
+      const rl = readline.createInterface({ input: fs.createReadStream(seg.file, { encoding: 'utf8' }), crlfDelay: Infinity });
+      try {
+        for await (const line of rl) {
+          if (!line) continue;
+          let env: ZabbixRtxEnvelope;
+          try { env = JSON.parse(line); } catch { continue; } // 書き込み途中の行
+          offer(env);
+        }
+      } catch (err: any) {
+        if (err?.code !== 'ENOENT') throw err; // 保持期間で削除済み
+      } finally {
+        rl.close();
+      }
+    }
+    for (const env of this.pending) offer(env); // ディスク未書き込み分
+    return kept.map(e => e.env);
+  }
+
+  /** sinceId より後の全エンベロープを順に返す（起動時の状態復元用） */
+  async *scan(sinceId = 0): AsyncGenerator<ZabbixRtxEnvelope> {
+    const until = this.lastId;
+    while (sinceId < until) {
+      const { items, lastId } = await this.query({ sinceId, beforeId: until + 1, limit: 10000 });
+      yield* items;
+      sinceId = lastId;
+    }
+  }
+
+  async close() {
+    if (this.retentionTimer) clearInterval(this.retentionTimer);
+    this.retentionTimer = null;
+    await this.retaining;
+    while (this.writing) await this.writing;
+    if (this.pending.length) await this.drain();
+    if (this.fd) { try { await this.fd.close(); } catch { } this.fd = null; }
+    const last = this.segments[this.segments.length - 1];
+    if (last) await this.saveIndex(last);
+  }
+}
+
+// id 以前で最も近い mark のバイト位置（無ければ 0）
+function startOffset(seg: Segment, id: number): number {
+  const marks = seg.marks;
+  let lo = 0, hi = marks.length - 1, at = 0;
+  while (lo <= hi) {
+    const mid = (lo + hi) >> 1;
+    if (marks[mid][0] <= id) { at = marks[mid][1]; lo = mid + 1; }
+    else hi = mid - 1;
+  }
+  return at;
+}
+
+/**
+ * リングバッファで足りない古い範囲をジャーナルから補って sinceId 以降を返す。
+ * ジャーナル読み出し中にリングが進んでも、走査位置から取り直すため欠落しない。
+ */
+export async function queryEvents(ring: RingBuffer, journal: Journal | undefined, opts: { sinceId: number; limit: number; filter?: EventFilter }): Promise<ZabbixRtxEnvelope[]> {
+  const { filter } = opts;
+  const limit = Number.isFinite(opts.limit) ? Math.max(1, Math.min(10000, opts.limit)) : 100;
+  let cursor = opts.sinceId;
+  const out: ZabbixRtxEnvelope[] = [];
+  while (journal && out.length < limit && cursor < ring.oldestId() - 1) {
+    const { items, lastId } = await journal.query({ sinceId: cursor, beforeId: ring.oldestId(), limit: limit - out.length, filter });
+    out.push(...items);
+    cursor = lastId;
+  }
+  if (out.length < limit) out.push(...ring.query({ sinceId: cursor, limit: limit - out.length, filter }));
+  return out;
+}
+
+/**
+ * レコードの (clock, ns) による範囲取得。リングは索引、リングに残っていない古い範囲はジャーナルのセグメント索引から読む。
+ * ジャーナル読み出し中にリングから追い出された ID 範囲は、ジャーナルから読み直して補う。
+ */
+export async function queryRange(ring: RingBuffer, journal: Journal | undefined, req: RangeRequest, filter?: EventFilter): Promise<RangePage> {
+  return rangePage(req, filter, async scan => {
+    let items: ZabbixRtxEnvelope[] = [];
+    let covered = 0; // ジャーナルから読んだ ID の上限（含まない）
+    let boundary = ring.oldestId();
+    while (journal && covered < boundary) {
+      items.push(...await journal.range({ ...scan, sinceId: covered - 1, beforeId: boundary }));
+      covered = boundary;
+      boundary = ring.oldestId();
+    }
+    items.push(...ring.range(scan).filter(e => e.id >= covered));
+    const up = scan.dir === 'up';
+    items.sort((a, b) => up ? compareKeys(keyOf(a), keyOf(b)) : compareKeys(keyOf(b), keyOf(a)));
+    if (items.length > scan.limit) items = items.slice(0, scan.limit);
+    return items;
+  });
+}
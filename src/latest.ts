@@ -0,0 +1,47 @@
+import { isHistory } from './records.js';
+import type { EventFilter } from './filter.js';
+import type { LatestValue, ZabbixRtxEnvelope } from './types.js';
+
+// history からアイテムごとの最新値を保持する（途中から接続したダッシュボードの初期表示用）。
+// itemid はソース（Zabbix サーバ）ごとに独立。history syncer 間で順序が前後しうるため、
+// (clock, ns) が新しい値だけで更新する。容量超過で最も長く更新のないアイテムから破棄。
+export class LatestValues {
+  private items = new Map<string, LatestValue & { env: ZabbixRtxEnvelope }>();
+  private cap: number;
+
+  constructor(capacity: number) {
+    this.cap = capacity;
+  }
+
+  apply(env: ZabbixRtxEnvelope) {
+    const r = env.record;
+    if (!isHistory(r)) return;
+    const key = `${env.source.name}:${r.itemid}`;
+    const cur = this.items.get(key);
+    if (cur && (cur.clock > r.clock || (cur.clock === r.clock && cur.ns >= r.ns))) return;
+    this.items.delete(key);
+    this.items.set(key, {
+      itemid: r.itemid, id: env.id, source: env.source,
+      host: r.host, name: r.name, type: r.type, value: r.value, clock: r.clock, ns: r.ns,
+      env
+    });
+    if (this.items.size > this.cap) {
+      const oldest = this.items.keys().next().value;
+      if (oldest !== undefined) this.items.delete(oldest);
+    }
+  }
+
+  get size(): number {
+    return this.items.size;
+  }
+
+  /** 更新の古い順に返す（filter は最新値のエンベロープで判定） */
+  list(filter?: EventFilter): LatestValue[] {
+    const out: LatestValue[] = [];
+    for (const { env, ...v } of this.items.values()) {
+      if (filter && !filter.matches(env)) continue;
+      out.push(v);
+    }
+    return out;
+  }
+}
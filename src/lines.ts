@@ -0,0 +1,93 @@
+// バイト列を改行（0x0A）で行に分割する。
+// UTF-8 の多バイト文字は 0x0A を含まないので、完成した行だけを decode すればチャンク境界で文字が割れない。
+// 未完の行はチャンクのまま保持し、改行が来たときに 1 回だけ連結する（行ごとのコピーは高々 1 回）。
+// maxLineBytes を超えた行は保持せず、次の改行まで読み捨てる。
+
+export interface LineSplitterOptions {
+  maxLineBytes: number;
+  onLine: (line: string) => void;       // 末尾の \r は除く。空行も渡す
+  onOversized: (bytes: number) => void; // 読み捨てた行のバイト数（改行を除く）
+}
+
+const EMPTY = Buffer.alloc(0);
+
+export class LineSplitter {
+  private parts: Buffer[] = [];
+  private partBytes = 0;
+  private skipping = 0; // 読み捨て中の行のこれまでのバイト数（0 = 読み捨て中でない）
+  private maxLineBytes: number;
+  private onLine: (line: string) => void;
+  private onOversized: (bytes: number) => void;
+
+  constructor(opts: LineSplitterOptions) {
+    this.maxLineBytes = opts.maxLineBytes;
+    this.onLine = opts.onLine;
+    this.onOversized = opts.onOversized;
+  }
+
+  /** 最後の改行より後のバイト数（未完の行。読み捨て中の分も含む） */
+  get pending(): number {
+    return this.partBytes + this.skipping;
+  }
+
+  /** chunk を分割する。未完の行はコピーして持つので、呼び出し後に chunk を再利用してよい */
+  push(chunk: Buffer) {
+    let start = 0;
+    let idx: number;
+    while ((idx = chunk.indexOf(0x0a, start)) !== -1) {
+      this.complete(chunk, start, idx);
+      start = idx + 1;
+    }
+    if (start < chunk.length) this.keep(chunk, start);
+  }
+
+  /** 改行で終わらない最終行を確定させる（もう追記されないファイル用） */
+  flush() {
+    if (this.pending > 0) this.complete(EMPTY, 0, 0);
+  }
+
+  reset() {
+    this.parts = [];
+    this.partBytes = 0;
+    this.skipping = 0;
+  }
+
+  private complete(chunk: Buffer, start: number, end: number) {
+    if (this.skipping) {
+      const bytes = this.skipping + end - start;
+      this.skipping = 0;
+      this.onOversized(bytes);
+      return;
+    }
+    const len = this.partBytes + end - start;
+    if (len > this.maxLineBytes) {
+      this.reset();
+      this.onOversized(len);
+      return;
+    }
+    if (this.partBytes === 0) return this.onLine(decode(chunk, start, end));
+    this.parts.push(chunk.subarray(start, end));
+    const line = Buffer.concat(this.parts, len);
+    this.reset();
+    this.onLine(decode(line, 0, len));
+  }
+
+  private keep(chunk: Buffer, start: number) {
+    const rest = chunk.length - start;
+    if (this.skipping) {
+      this.skipping += rest;
+    } else if (this.partBytes + rest > this.maxLineBytes) {
+      this.skipping = this.partBytes + rest;
+      this.parts = [];
+      this.partBytes = 0;
+    } else {
+      this.parts.push(Buffer.from(chunk.subarray(start)));
+      this.partBytes += rest;
+    }
+  }
+}
+
+function decode(buf: Buffer, start: number, end: number): string {
+  if (end > start && buf[end - 1] === 0x0d) end--;
+  return buf.toString('utf8', start, end);
+}
@@ -0,0 +1,41 @@
+// Prometheus テキスト形式（exposition format 0.0.4）の最小実装
+
+export interface MetricSample {
+  labels?: Record<string, string>;
+  value: number;
+}
+
+export interface MetricFamily {
+  name: string;
+  help: string;
+  type: 'counter' | 'gauge';
+  samples: MetricSample[];
+}
+
+export const METRICS_CONTENT_TYPE = 'text/plain; version=0.0.4; charset=utf-8';
+
+function escapeLabel(v: string): string {
+  return v.replace(/\\/g, '\\\\').replace(/\n/g, '\\n').replace(/"/g, '\\"');
+}
+
+function formatValue(v: number): string {
+  if (Number.isNaN(v)) return 'NaN';
+  if (v === Infinity) return '+Inf';
+  if (v === -Infinity) return '-Inf';
+  return String(v);
+}
+
+export function renderMetrics(families: MetricFamily[]): string {
+  const out: string[] = [];
+  for (const f of families) {
+    out.push(`# HELP ${f.name} ${f.help.replace(/\\/g, '\\\\').replace(/\n/g, '\\n')}`);
+    out.push(`# TYPE ${f.name} ${f.type}`);
+    for (const s of f.samples) {
+      const labels = s.labels && Object.keys(s.labels).length
+        ? '{' + Object.entries(s.labels).map(([k, v]) => `${k}="${escapeLabel(v)}"`).join(',') + '}'
+        : '';
+      out.push(`${f.name}${labels} ${formatValue(s.value)}`);
+    }
+  }
+  return out.join('\n') + '\n';
+}
@@ -1,4 +1,7 @@
-export const openapi = {
+import { openapiPaths, type RouteDecl } from './router.js';
+
+// paths はルート宣言（routes.ts）から生成する。components は応答・イベントのスキーマ
+export const openapiDocument = (routes: readonly RouteDecl[]) => ({
   openapi: '3.0.3',
   info: {
     title: 'Zabbix Real-time Export → SSE/JSON',
@@ -6,38 +9,190 @@ export const openapi = {
     description:
       'Zabbix NDJSON (real-time export) multi-tail → /v1/events/zabbix/ で SSE / JSON を返す'
   },
-  paths: {
-    '/v1/events/zabbix/': {
-      get: {
-        summary: 'SSE または JSON（コンテンツネゴシエーション）',
-        description:
-          'Accept により応答を切替。text/event-stream=リアルタイムSSE、application/json=リングバッファのスナップショット、text/htmlまたは */*=デモHTML。',
-        parameters: [
-          { name: 'family', in: 'query', schema: { type: 'string', enum: ['problems','history','main-process','task-manager','other'] }, description: 'application/json のみ有効。特定ファミリに絞り込み。' },
-          { name: 'limit', in: 'query', schema: { type: 'integer', minimum: 1, maximum: 10000, default: 100 }, description: 'application/json のみ有効。返却件数。' },
-          { name: 'sinceId', in: 'query', schema: { type: 'integer', minimum: 0 }, description: 'application/json のみ有効。このIDより新しいイベントを返す（ベストエフォート）。' }
-        ],
-        responses: {
-          '200': { description: 'OK', content: {
-            'text/event-stream': { schema: { type: 'string', example: `id: 123
-event: zabbix.problems
-data: {\"source\":{\"file\":\"problems-history-syncer-1.ndjson\",\"family\":\"problems\"},\"record\":{}}
-
-` } },
-            'application/json': { schema: { type: 'object', properties: {
-              latestId: { type: 'integer' },
-              items: { type: 'array', items: { type: 'object', properties: {
-                id: { type: 'integer' }, time: { type: 'integer' },
-                source: { type: 'object', properties: { file: { type: 'string' }, family: { type: 'string' } }, required: ['file','family'] },
-                record: { type: 'object' }
-              }, required: ['id','time','source','record'] } }
-            }, required: ['latestId','items'] } },
-            'text/html': { schema: { type: 'string' } }
-          } }
-        }
-      }
+  paths: openapiPaths(routes),
+  components: {
+    securitySchemes: {
+      bearerAuth: { type: 'http', scheme: 'bearer', description: 'キーファイル（AUTH_KEYS_FILE）に登録した API キー' },
+      apiKeyHeader: { type: 'apiKey', in: 'header', name: 'X-API-Key' },
+      apiKeyQuery: { type: 'apiKey', in: 'query', name: 'token', description: 'ヘッダを設定できない EventSource 用' }
+    },
+    responses: {
+      BadRequest: { description: 'パラメータが不正（未知のパラメータ・型や範囲の誤り・併用できない指定）', content: { 'application/problem+json': { schema: { $ref: '#/components/schemas/Problem' } } } },
+      Unauthorized: { description: 'API キーがない、または不明（WWW-Authenticate: Bearer）', content: { 'application/problem+json': { schema: { $ref: '#/components/schemas/Problem' } } } },
+      Forbidden: { description: 'キーに許可されていないルート、または family', content: { 'application/problem+json': { schema: { $ref: '#/components/schemas/Problem' } } } },
+      NotAcceptable: { description: 'Accept に応答できるメディアタイプが無い', content: { 'application/problem+json': { schema: { $ref: '#/components/schemas/Problem' } } } }
     },
-    '/v1/events/zabbix/openapi.json': { get: { summary: 'OpenAPI JSON', responses: { '200': { description: 'OpenAPI document (JSON)' } } } }
+    schemas: {
+      Problem: { type: 'object', description: 'RFC 7807 problem details', properties: {
+        type: { type: 'string', example: 'about:blank' },
+        title: { type: 'string', example: 'Bad Request' },
+        status: { type: 'integer' },
+        detail: { type: 'string', example: 'limit: integer 1..10000 expected, got "abc"' },
+        instance: { type: 'string', description: 'リクエストのパス' },
+        errors: { type: 'array', description: '400 のパラメータごとの誤り', items: { type: 'object', properties: {
+          name: { type: 'string' }, in: { type: 'string', enum: ['query'] }, reason: { type: 'string' }
+        }, required: ['name','in','reason'] } }
+      }, required: ['type','title','status','detail'] },
+      Source: { type: 'object', properties: {
+        name: { type: 'string', description: 'ソース名（Zabbix サーバ / HA ノード単位）' },
+        file: { type: 'string' },
+        family: { type: 'string', enum: ['problems','history','trends','derived','other'], description: 'データ種別（derived=ルールエンジンが生成したイベント）' },
+        process: { type: 'string', nullable: true, description: '書き込みプロセス（history-syncer, main-process, task-manager 等）' },
+        index: { type: 'integer', nullable: true, description: 'プロセス番号（syncer 番号等）' },
+        replay: { type: 'object', properties: { round: { type: 'integer', description: 'ループ回数（1 から）' } }, required: ['round'], description: '再生モードで記録済みファイルから流したイベントにのみ付く' }
+      }, required: ['name','file','family','process','index'] },
+      SourceHealth: { type: 'object', properties: {
+        name: { type: 'string' },
+        dir: { type: 'string' },
+        status: { type: 'string', enum: ['ok','down'], description: 'down=ディレクトリを読めない' },
+        lastError: { type: 'string', nullable: true },
+        lastScanAt: { type: 'integer', nullable: true, description: 'ms' },
+        lastDataAt: { type: 'integer', nullable: true, description: 'ms' },
+        files: { type: 'array', items: { $ref: '#/components/schemas/TailerStats' } }
+      }, required: ['name','dir','status','lastError','lastScanAt','lastDataAt','files'] },
+      TailerStats: { type: 'object', properties: {
+        file: { type: 'string' }, open: { type: 'boolean' }, inode: { type: 'integer', nullable: true },
+        offset: { type: 'integer' }, size: { type: 'integer' }, lines: { type: 'integer' }, bytes: { type: 'integer' },
+        reopens: { type: 'integer' }, shrinks: { type: 'integer' }, parseErrors: { type: 'integer' },
+        oversized: { type: 'integer', description: 'tail.maxLineBytes を超えて読み捨てた行数（lines に含む）' },
+        lastLineAt: { type: 'integer', nullable: true, description: '最後に行を読んだ時刻（ms）' },
+        lastGrowthAt: { type: 'integer', nullable: true, description: '最後にサイズが増えた（または開いた）時刻（ms）' },
+        lastWarn: { type: 'object', nullable: true, properties: {
+          at: { type: 'integer', description: 'ms' }, msg: { type: 'string' }, err: { type: 'string', nullable: true }
+        }, required: ['at','msg','err'] }
+      } },
+      HealthReport: { type: 'object', properties: {
+        status: { type: 'string', enum: ['ok','starting','down','stalled'], description: 'starting=初回スキャン前のソースがある / down=読めないソースがある / stalled=停滞中のファイルがある' },
+        time: { type: 'integer', description: 'ms' },
+        uptimeMs: { type: 'integer' },
+        stallMs: { type: 'integer', nullable: true, description: '停滞とみなすまでの時間（null=停滞検知なし）' },
+        sources: { type: 'array', items: { allOf: [
+          { $ref: '#/components/schemas/SourceHealth' },
+          { type: 'object', properties: { files: { type: 'array', items: { allOf: [
+            { $ref: '#/components/schemas/TailerStats' },
+            { type: 'object', properties: { stalled: { type: 'boolean' }, idleMs: { type: 'integer', description: '最後にサイズが増えてからの経過' } }, required: ['stalled','idleMs'] }
+          ] } } } }
+        ] } }
+      }, required: ['status','time','uptimeMs','stallMs','sources'] },
+      HealthSummary: { type: 'object', description: '認証なしの /healthz・/readyz の本文（パス・inode・エラー文言を含めない）', properties: {
+        status: { type: 'string', enum: ['ok','starting','down','stalled'] },
+        time: { type: 'integer', description: 'ms' },
+        uptimeMs: { type: 'integer' },
+        stallMs: { type: 'integer', nullable: true },
+        sources: { type: 'array', items: { type: 'object', properties: {
+          name: { type: 'string' },
+          status: { type: 'string', enum: ['ok','down'] },
+          lastScanAt: { type: 'integer', nullable: true, description: 'ms' },
+          lastDataAt: { type: 'integer', nullable: true, description: 'ms' },
+          files: { type: 'array', items: { type: 'object', properties: {
+            file: { type: 'string', description: 'ベース名' }, open: { type: 'boolean' },
+            lastLineAt: { type: 'integer', nullable: true, description: 'ms' },
+            stalled: { type: 'boolean' }, idleMs: { type: 'integer' }
+          }, required: ['file','open','lastLineAt','stalled','idleMs'] } }
+        }, required: ['name','status','lastScanAt','lastDataAt','files'] } }
+      }, required: ['status','time','uptimeMs','stallMs','sources'] },
+      StallEvent: { type: 'object', description: 'ファイルの停滞 / 回復（SSE イベント名は zabbix.system.stall）', properties: {
+        state: { type: 'string', enum: ['stalled','recovered'] },
+        source: { type: 'string' }, file: { type: 'string' },
+        family: { type: 'string', enum: ['problems','history','trends','other'] },
+        lastGrowthAt: { type: 'integer', nullable: true, description: 'ms' },
+        lastLineAt: { type: 'integer', nullable: true, description: 'ms' },
+        idleMs: { type: 'integer', description: 'stalled: 最後にサイズが増えてからの経過 / recovered: 再び増えるまでの時間' },
+        time: { type: 'integer', description: 'ms' }
+      }, required: ['state','source','file','family','lastGrowthAt','lastLineAt','idleMs','time'] },
+      Host: { type: 'object', properties: { host: { type: 'string' }, name: { type: 'string' } }, required: ['host','name'] },
+      Tag: { type: 'object', properties: { tag: { type: 'string' }, value: { type: 'string' } }, required: ['tag','value'] },
+      ProblemEvent: { type: 'object', description: 'PROBLEM イベント（value=1）', properties: {
+        clock: { type: 'integer' }, ns: { type: 'integer' }, value: { type: 'integer', enum: [1] },
+        eventid: { type: 'integer' }, name: { type: 'string' }, severity: { type: 'integer', minimum: 0, maximum: 5 },
+        hosts: { type: 'array', items: { $ref: '#/components/schemas/Host' } },
+        groups: { type: 'array', items: { type: 'string' } },
+        tags: { type: 'array', items: { $ref: '#/components/schemas/Tag' } }
+      }, required: ['clock','ns','value','eventid','name','severity','hosts','groups','tags'] },
+      RecoveryEvent: { type: 'object', description: 'RECOVERY イベント（value=0）。p_eventid は対応する PROBLEM', properties: {
+        clock: { type: 'integer' }, ns: { type: 'integer' }, value: { type: 'integer', enum: [0] },
+        eventid: { type: 'integer' }, p_eventid: { type: 'integer' }
+      }, required: ['clock','ns','value','eventid','p_eventid'] },
+      HistoryValue: { type: 'object', description: 'ヒストリ値。type: 0=float, 1=str, 2=log, 3=uint, 4=text（log は timestamp/source/severity/logeventid を含む）', properties: {
+        host: { $ref: '#/components/schemas/Host' },
+        groups: { type: 'array', items: { type: 'string' } },
+        item_tags: { type: 'array', items: { $ref: '#/components/schemas/Tag' } },
+        itemid: { type: 'integer' }, name: { type: 'string' },
+        clock: { type: 'integer' }, ns: { type: 'integer' },
+        type: { type: 'integer', enum: [0,1,2,3,4] },
+        value: { oneOf: [{ type: 'number' }, { type: 'string' }] },
+        timestamp: { type: 'integer' }, source: { type: 'string' }, severity: { type: 'integer' }, logeventid: { type: 'integer' }
+      }, required: ['host','groups','item_tags','itemid','name','clock','ns','type','value'] },
+      ActiveProblem: { type: 'object', properties: {
+        eventid: { type: 'integer' },
+        id: { type: 'integer', description: 'PROBLEM を受信したエンベロープの ID' },
+        source: { $ref: '#/components/schemas/Source' },
+        problem: { $ref: '#/components/schemas/ProblemEvent' }
+      }, required: ['eventid','id','source','problem'] },
+      LatestValue: { type: 'object', properties: {
+        itemid: { type: 'integer' },
+        id: { type: 'integer', description: '最新値を受信したエンベロープの ID' },
+        source: { $ref: '#/components/schemas/Source' },
+        host: { $ref: '#/components/schemas/Host' },
+        name: { type: 'string', description: 'アイテム名' },
+        type: { type: 'integer', enum: [0,1,2,3,4] },
+        value: { oneOf: [{ type: 'number' }, { type: 'string' }] },
+        clock: { type: 'integer' }, ns: { type: 'integer' }
+      }, required: ['itemid','id','source','host','name','type','value','clock','ns'] },
+      WindowStats: { type: 'object', description: '窓内にサンプルが無い場合は count=0 で他は null', properties: {
+        count: { type: 'integer' },
+        min: { type: 'number', nullable: true }, max: { type: 'number', nullable: true },
+        avg: { type: 'number', nullable: true }, last: { type: 'number', nullable: true },
+        rate: { type: 'number', nullable: true, description: '1 秒あたりの変化量（2 サンプル未満は null）' }
+      }, required: ['count','min','max','avg','last','rate'] },
+      ItemAggregate: { type: 'object', properties: {
+        itemid: { type: 'integer' },
+        source: { $ref: '#/components/schemas/Source' },
+        host: { $ref: '#/components/schemas/Host' },
+        name: { type: 'string', description: 'アイテム名' },
+        windows: { type: 'object', additionalProperties: { $ref: '#/components/schemas/WindowStats' }, description: 'キーは窓のラベル（1m / 5m など）' }
+      }, required: ['itemid','source','host','name','windows'] },
+      ResolvedProblem: { allOf: [
+        { $ref: '#/components/schemas/ActiveProblem' },
+        { type: 'object', properties: {
+          recovery: { $ref: '#/components/schemas/RecoveryEvent' },
+          duration: { type: 'integer', description: '秒' }
+        }, required: ['recovery','duration'] }
+      ] },
+      TrendValue: { type: 'object', description: 'トレンド（1 時間集計）。type: 0=float, 3=uint', properties: {
+        host: { $ref: '#/components/schemas/Host' },
+        groups: { type: 'array', items: { type: 'string' } },
+        item_tags: { type: 'array', items: { $ref: '#/components/schemas/Tag' } },
+        itemid: { type: 'integer' }, name: { type: 'string' }, clock: { type: 'integer' },
+        count: { type: 'integer' }, min: { type: 'number' }, avg: { type: 'number' }, max: { type: 'number' },
+        type: { type: 'integer', enum: [0,3] }
+      }, required: ['host','groups','item_tags','itemid','name','clock','count','min','avg','max','type'] },
+      DerivedEvent: { type: 'object', description: 'ルールエンジンが生成したイベント（SSE イベント名は zabbix.derived.<kind>）', properties: {
+        rule: { type: 'string' },
+        kind: { type: 'string', enum: ['threshold','rate','count','absence'] },
+        state: { type: 'string', enum: ['firing','resolved'], description: 'rate は常に firing' },
+        clock: { type: 'integer' }, ns: { type: 'integer' },
+        severity: { type: 'integer', minimum: 0, maximum: 5 },
+        message: { type: 'string' },
+        group: { type: 'string', nullable: true, description: 'groupBy の値（itemid / ホスト名 / ホストグループ名）' },
+        hosts: { type: 'array', items: { $ref: '#/components/schemas/Host' } },
+        groups: { type: 'array', items: { type: 'string' } },
+        tags: { type: 'array', items: { $ref: '#/components/schemas/Tag' } },
+        item: { type: 'object', nullable: true, properties: {
+          itemid: { type: 'integer' }, name: { type: 'string' },
+          value: { type: 'number', nullable: true }, previous: { type: 'number', nullable: true }
+        } },
+        count: { type: 'integer', nullable: true, description: 'count: 窓内の件数' },
+        trigger: { type: 'integer', nullable: true, description: '判定のきっかけになったエンベロープ ID（時間経過による判定は null）' }
+      }, required: ['rule','kind','state','clock','ns','severity','message','group','hosts','groups','tags','item','count','trigger'] },
+      ZabbixRecord: { oneOf: [
+        { $ref: '#/components/schemas/ProblemEvent' },
+        { $ref: '#/components/schemas/RecoveryEvent' },
+        { $ref: '#/components/schemas/HistoryValue' },
+        { $ref: '#/components/schemas/TrendValue' },
+        { $ref: '#/components/schemas/DerivedEvent' }
+      ] }
+    }
   },
   servers: [{ url: '/' }]
-} as const;
+});
@@ -0,0 +1,46 @@
+import { EventEmitter } from 'node:events';
+import { isProblem, isRecovery } from './records.js';
+import type { EventFilter } from './filter.js';
+import type { ActiveProblem, ResolvedProblem, ZabbixRtxEnvelope } from './types.js';
+
+// PROBLEM / RECOVERY（p_eventid）からオープン中の problem 集合を維持する。
+// eventid は Zabbix サーバごとに採番されるため、ソース名と組で管理する。
+export class ProblemTracker extends EventEmitter {
+  private open = new Map<string, ActiveProblem & { env: ZabbixRtxEnvelope }>();
+
+  // 型付き on オーバーロード
+  override on(event: 'opened', listener: (p: ActiveProblem, env: ZabbixRtxEnvelope) => void): this;
+  override on(event: 'resolved', listener: (p: ResolvedProblem, env: ZabbixRtxEnvelope) => void): this;
+  override on(event: string, listener: (...args: any[]) => void): this { return super.on(event, listener); }
+
+  /** エンベロープを反映する。silent=true ではイベントを発火しない（起動時の復元用） */
+  apply(env: ZabbixRtxEnvelope, silent = false) {
+    const r = env.record;
+    if (isProblem(r)) {
+      const p = { eventid: r.eventid, id: env.id, source: env.source, problem: r };
+      this.open.set(`${env.source.name}:${r.eventid}`, { ...p, env });
+      if (!silent) this.emit('opened', p, env);
+    } else if (isRecovery(r)) {
+      const key = `${env.source.name}:${r.p_eventid}`;
+      const cur = this.open.get(key);
+      if (!cur) return; // 起動前・保持期間外の problem
+      this.open.delete(key);
+      const { env: _env, ...p } = cur;
+      if (!silent) this.emit('resolved', { ...p, recovery: r, duration: r.clock - p.problem.clock }, env);
+    }
+  }
+
+  get size(): number {
+    return this.open.size;
+  }
+
+  /** オープン中の problem を発生順に返す（filter は PROBLEM のエンベロープで判定） */
+  list(filter?: EventFilter): ActiveProblem[] {
+    const out: ActiveProblem[] = [];
+    for (const { env, ...p } of this.open.values()) {
+      if (filter && !filter.matches(env)) continue;
+      out.push(p);
+    }
+    return out;
+  }
+}
@@ -0,0 +1,175 @@
+import type {
+  ZabbixDerivedEvent,
+  ZabbixHistoryRecord,
+  ZabbixHost,
+  ZabbixProblemEvent,
+  ZabbixRecord,
+  ZabbixRecoveryEvent,
+  ZabbixRtxEnvelope,
+  ZabbixSeverity,
+  ZabbixTag,
+  ZabbixTrendRecord,
+  ZabbixValueType
+} from './types.js';
+
+// NDJSON 1 行を Zabbix real-time export のレコードとして検証する。
+// 不正な行は Error を投げる（呼び出し側で parse_error に変換）。
+
+type Obj = Record<string, unknown>;
+
+function isObj(v: unknown): v is Obj {
+  return typeof v === 'object' && v !== null && !Array.isArray(v);
+}
+
+function num(o: Obj, key: string): number {
+  const v = o[key];
+  if (typeof v !== 'number' || !Number.isFinite(v)) throw new Error(`${key}: number expected`);
+  return v;
+}
+
+function str(o: Obj, key: string): string {
+  const v = o[key];
+  if (typeof v !== 'string') throw new Error(`${key}: string expected`);
+  return v;
+}
+
+function host(v: unknown, key: string): ZabbixHost {
+  if (!isObj(v)) throw new Error(`${key}: object expected`);
+  return { host: str(v, 'host'), name: str(v, 'name') };
+}
+
+function hosts(o: Obj, key: string): ZabbixHost[] {
+  const v = o[key];
+  if (!Array.isArray(v)) throw new Error(`${key}: array expected`);
+  return v.map((h, i) => host(h, `${key}[${i}]`));
+}
+
+function groups(o: Obj, key: string): string[] {
+  const v = o[key];
+  if (!Array.isArray(v) || v.some(g => typeof g !== 'string')) throw new Error(`${key}: string[] expected`);
+  return v as string[];
+}
+
+function tags(o: Obj, key: string, optional = false): ZabbixTag[] {
+  const v = o[key];
+  if (v === undefined && optional) return [];
+  if (!Array.isArray(v)) throw new Error(`${key}: array expected`);
+  return v.map((t, i) => {
+    if (!isObj(t)) throw new Error(`${key}[${i}]: object expected`);
+    return { tag: str(t, 'tag'), value: str(t, 'value') };
+  });
+}
+
+function parseProblem(o: Obj): ZabbixProblemEvent {
+  const severity = num(o, 'severity');
+  if (!Number.isInteger(severity) || severity < 0 || severity > 5) throw new Error('severity: 0..5 expected');
+  return {
+    clock: num(o, 'clock'),
+    ns: num(o, 'ns'),
+    value: 1,
+    eventid: num(o, 'eventid'),
+    name: str(o, 'name'),
+    severity: severity as ZabbixSeverity,
+    hosts: hosts(o, 'hosts'),
+    groups: groups(o, 'groups'),
+    tags: tags(o, 'tags')
+  };
+}
+
+function parseRecovery(o: Obj): ZabbixRecoveryEvent {
+  return {
+    clock: num(o, 'clock'),
+    ns: num(o, 'ns'),
+    value: 0,
+    eventid: num(o, 'eventid'),
+    p_eventid: num(o, 'p_eventid')
+  };
+}
+
+function parseHistory(o: Obj): ZabbixHistoryRecord {
+  const type = num(o, 'type');
+  const base = {
+    host: host(o.host, 'host'),
+    groups: groups(o, 'groups'),
+    item_tags: tags(o, 'item_tags', true),
+    itemid: num(o, 'itemid'),
+    name: str(o, 'name'),
+    clock: num(o, 'clock'),
+    ns: num(o, 'ns')
+  };
+  switch (type as ZabbixValueType) {
+    case 0: return { ...base, type: 0, value: num(o, 'value') };
+    case 1: return { ...base, type: 1, value: str(o, 'value') };
+    case 2: return {
+      ...base, type: 2, value: str(o, 'value'),
+      timestamp: num(o, 'timestamp'),
+      source: str(o, 'source'),
+      severity: num(o, 'severity'),
+      logeventid: num(o, 'logeventid')
+    };
+    case 3: {
+      const value = num(o, 'value');
+      if (!Number.isInteger(value) || value < 0) throw new Error('value: unsigned integer expected');
+      return { ...base, type: 3, value };
+    }
+    case 4: return { ...base, type: 4, value: str(o, 'value') };
+    default: throw new Error(`type: unknown value type ${type}`);
+  }
+}
+
+function parseTrend(o: Obj): ZabbixTrendRecord {
+  const type = num(o, 'type');
+  if (type !== 0 && type !== 3) throw new Error(`type: trends are float(0) or uint(3), got ${type}`);
+  return {
+    host: host(o.host, 'host'),
+    groups: groups(o, 'groups'),
+    item_tags: tags(o, 'item_tags', true),
+    itemid: num(o, 'itemid'),
+    name: str(o, 'name'),
+    clock: num(o, 'clock'),
+    count: num(o, 'count'),
+    min: num(o, 'min'),
+    avg: num(o, 'avg'),
+    max: num(o, 'max'),
+    type
+  };
+}
+
+export function parseRecord(line: string): ZabbixRecord {
+  const o: unknown = JSON.parse(line);
+  if (!isObj(o)) throw new Error('record: object expected');
+  if ('itemid' in o) return 'value' in o ? parseHistory(o) : parseTrend(o);
+  if ('p_eventid' in o) return parseRecovery(o);
+  if ('eventid' in o && o.value === 1) return parseProblem(o);
+  throw new Error('record: unknown export format');
+}
+
+export function isProblem(r: ZabbixRecord): r is ZabbixProblemEvent {
+  return !('itemid' in r) && 'value' in r && r.value === 1;
+}
+
+export function isRecovery(r: ZabbixRecord): r is ZabbixRecoveryEvent {
+  return 'p_eventid' in r;
+}
+
+export function isHistory(r: ZabbixRecord): r is ZabbixHistoryRecord {
+  return 'itemid' in r && 'value' in r;
+}
+
+export function isTrend(r: ZabbixRecord): r is ZabbixTrendRecord {
+  return 'itemid' in r && !('value' in r);
+}
+
+export function isDerived(r: ZabbixRecord): r is ZabbixDerivedEvent {
+  return 'rule' in r;
+}
+
+/** SSE / WebSocket のイベント名（zabbix.<family>、derived は zabbix.derived.<kind>） */
+export function eventName(env: ZabbixRtxEnvelope): string {
+  return isDerived(env.record) ? `zabbix.derived.${env.record.kind}` : `zabbix.${env.source.family}`;
+}
+
+/** アイテム由来のレコード（history / trends） */
+export function isItemRecord(r: ZabbixRecord): r is ZabbixHistoryRecord | ZabbixTrendRecord {
+  return 'itemid' in r;
+}
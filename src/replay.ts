@@ -0,0 +1,80 @@
+import type { EventFilter } from './filter.js';
+import type { Journal } from './journal.js';
+import type { RingBuffer } from './ringbuffer.js';
+import type { ZabbixRtxEnvelope } from './types.js';
+
+export interface ResetInfo {
+  reason: 'evicted' | 'unknown';
+  requestedId: number;
+  oldestId: number;
+  latestId: number;
+}
+
+// 再送先（SSE / WebSocket）
+export interface ReplayTarget {
+  closed(): boolean;
+  reset(info: ResetInfo): void;
+  send(env: ZabbixRtxEnvelope): void;
+  /** 送信待ちが捌けるまで待つ（ジャーナルの 1 ページごとに呼ぶ。閉じたら即座に返す） */
+  drained(): Promise<void>;
+}
+
+const DRAIN_POLL_MS = 100;
+const DRAIN_TIMEOUT_MS = 60_000;
+
+/**
+ * pending() が threshold 未満になる（または閉じる）まで待つ。timeoutMs 経っても捌けなければ reject。
+ * 閾値がソケットの highWaterMark より小さいと 'drain' が発火しないため、定期的に確認する
+ */
+export function drainBelow(threshold: number, pending: () => number, closed: () => boolean, timeoutMs = DRAIN_TIMEOUT_MS): Promise<void> {
+  const deadline = Date.now() + timeoutMs;
+  return new Promise((resolve, reject) => {
+    const check = () => {
+      if (closed() || pending() < threshold) resolve();
+      else if (Date.now() >= deadline) reject(new Error(`send queue did not drain within ${timeoutMs}ms`));
+      else setTimeout(check, DRAIN_POLL_MS);
+    };
+    check();
+  });
+}
+
+/**
+ * sinceId より後のイベントを target に再送し、最後に live() を呼ぶ。
+ * リングに残っていない古い範囲はジャーナルから非同期に読み、最後のリング分の再送と live() は
+ * 同期的に続けて行うため、live() でライブ配信に登録すれば欠落・重複・順序逆転は起きない。
+ * ジャーナルは 1 ページごとに target の送信待ちが捌けるのを待つ（応答バッファに溜め込まない）。
+ * 要求 ID が追い出し済み（または未採番）なら reset を送り、リングの保持分だけを再送する
+ * （ジャーナル全体は流さない。古い範囲は JSON API で取得できる）。
+ */
+export async function replaySince(
+  ring: RingBuffer,
+  journal: Journal | undefined,
+  sinceId: number,
+  filter: EventFilter,
+  target: ReplayTarget,
+  live: () => void
+): Promise<void> {
+  const latestId = ring.latestId();
+  const oldestId = journal ? Math.min(journal.oldestId(), ring.oldestId()) : ring.oldestId();
+  if (sinceId > latestId || sinceId < oldestId - 1) {
+    target.reset({ reason: sinceId > latestId ? 'unknown' : 'evicted', requestedId: sinceId, oldestId, latestId });
+    sinceId = ring.oldestId() - 1;
+  }
+  while (journal && sinceId < ring.oldestId() - 1) {
+    await target.drained();
+    if (target.closed()) return;
+    const { items, lastId } = await journal.query({ sinceId, beforeId: ring.oldestId(), limit: 1000, filter });
+    if (target.closed()) return;
+    for (const env of items) target.send(env);
+    sinceId = lastId;
+  }
+  for (;;) {
+    const items = ring.query({ sinceId, limit: 10000 });
+    if (items.length === 0) break;
+    for (const env of items) {
+      if (filter.matches(env)) target.send(env);
+    }
+    sinceId = items[items.length - 1].id;
+  }
+  live();
+}
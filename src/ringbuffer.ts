@@ -1,4 +1,6 @@
 import { ZabbixRtxEnvelope } from './types.js';
+import type { EventFilter } from './filter.js';
+import { compareKeys, inRange, keyOf, type ClockKey, type RangeScan } from './timerange.js';
 
 export class RingBuffer {
   private buf: (ZabbixRtxEnvelope | undefined)[];
@@ -6,11 +8,14 @@ export class RingBuffer {
   private head = 0; // 次に書く位置
   private count = 0;
   private nextId = 1;
+  // (clock, ns, id) 順の索引。追い出した分は残したまま読み飛ばし、溜まったらまとめて除く
+  private index: ClockKey[] = [];
 
-  constructor(capacity: number) {
-    if (capacity <= 0) throw new Error('capacity must be > 0');
+  constructor(capacity: number, opts: { nextId?: number } = {}) {
+    if (!Number.isSafeInteger(capacity) || capacity <= 0) throw new Error(`capacity must be a positive integer, got ${capacity}`);
     this.cap = capacity;
     this.buf = new Array(capacity);
+    this.nextId = opts.nextId ?? 1; // ジャーナル継続時は前回の続きから採番
   }
 
   push(item: Omit<ZabbixRtxEnvelope, 'id' | 'time'>): ZabbixRtxEnvelope {
@@ -22,17 +27,77 @@ export class RingBuffer {
     this.buf[this.head] = env;
     this.head = (this.head + 1) % this.cap;
     if (this.count < this.cap) this.count++;
+    this.indexAdd(keyOf(env));
     return env;
   }
 
+  // clock はほぼ単調増加なので通常は末尾に追加。前後した分だけ挿入位置を探す
+  private indexAdd(k: ClockKey) {
+    const ix = this.index;
+    if (ix.length === 0 || compareKeys(ix[ix.length - 1], k) < 0) ix.push(k);
+    else ix.splice(this.lowerBound(k), 0, k);
+    if (ix.length > this.count * 2 + 1024) {
+      const oldest = this.oldestId();
+      this.index = ix.filter(e => e.id >= oldest);
+    }
+  }
+
+  // k 以上の最初の位置
+  private lowerBound(k: ClockKey): number {
+    let lo = 0, hi = this.index.length;
+    while (lo < hi) {
+      const mid = (lo + hi) >>> 1;
+      if (compareKeys(this.index[mid], k) < 0) lo = mid + 1;
+      else hi = mid;
+    }
+    return lo;
+  }
+
+  private get(id: number): ZabbixRtxEnvelope | undefined {
+    if (id < this.oldestId() || id > this.latestId()) return undefined;
+    return this.buf[(this.head - (this.nextId - id) + this.cap) % this.cap];
+  }
+
+  /** レコードの (clock, ns) 範囲を索引から走査する（保持分のみ） */
+  range(scan: RangeScan): ZabbixRtxEnvelope[] {
+    const out: ZabbixRtxEnvelope[] = [];
+    const ix = this.index;
+    const step = scan.dir === 'up' ? 1 : -1;
+    let i = scan.dir === 'up' ? this.lowerBound(scan.lo) : this.lowerBound(scan.hi) - 1;
+    for (; i >= 0 && i < ix.length && out.length < scan.limit; i += step) {
+      const k = ix[i];
+      if (!inRange(scan, k)) {
+        if (scan.dir === 'up' ? compareKeys(k, scan.hi) >= 0 : compareKeys(k, scan.lo) <= 0) break;
+        continue;
+      }
+      const env = this.get(k.id);
+      if (!env || (scan.filter && !scan.filter.matches(env))) continue;
+      out.push(env);
+    }
+    return out;
+  }
+
+  get size(): number {
+    return this.count;
+  }
+
+  get capacity(): number {
+    return this.cap;
+  }
+
   latestId(): number {
     return this.nextId - 1;
   }
 
-  query(opts: { family?: string; limit?: number; sinceId?: number; }): ZabbixRtxEnvelope[] {
+  // 保持している最古の ID（空なら latestId() + 1）
+  oldestId(): number {
+    return this.nextId - this.count;
+  }
+
+  query(opts: { filter?: EventFilter; limit?: number; sinceId?: number; }): ZabbixRtxEnvelope[] {
     const limit = Math.max(1, Math.min(10000, opts.limit ?? 100));
     const sinceId = opts.sinceId ?? 0;
-    const fam = opts.family;
+    const filter = opts.filter;
 
     const out: ZabbixRtxEnvelope[] = [];
     const n = this.count;
@@ -41,7 +106,7 @@ export class RingBuffer {
       const v = this.buf[idx];
       if (!v) continue;
       if (v.id <= sinceId) continue;
-      if (fam && v.source.family !== fam) continue;
+      if (filter && !filter.matches(v)) continue;
       out.push(v);
       if (out.length >= limit) break;
     }
@@ -0,0 +1,297 @@
+import http from 'node:http';
+import { AuthError, type ApiKey, type Route } from './auth.js';
+import type { Query } from './filter.js';
+
+// 宣言したルートでリクエストを振り分ける最小のルーター。
+// ルートごとにクエリパラメータの型（OpenAPI の schema の部分集合）を宣言し、Accept の交渉（q 値）・
+// パラメータ検証・認証を済ませてからハンドラを呼ぶ。エラーは RFC 7807（application/problem+json）で返す。
+// OpenAPI の paths も同じ宣言から生成する（openapi.ts）。
+
+type ScalarSchema =
+  | { type: 'string'; enum?: readonly string[]; default?: string; example?: string }
+  | { type: 'integer'; minimum?: number; maximum?: number; default?: number };
+
+export type ParamSchema = ScalarSchema | { type: 'array'; items: ScalarSchema };
+
+export interface ParamSpec {
+  name: string;
+  in: 'query' | 'header'; // header は文書化のみ（値の扱いはハンドラに任せる）
+  schema: ParamSchema;
+  explode?: boolean;      // array: true=繰り返し（tag=a&tag=b）、false=カンマ区切り（既定。繰り返しも可）
+  description?: string;
+}
+
+export type ParamValue = string | number | string[] | number[];
+export type Params = Record<string, ParamValue | undefined>;
+
+export interface RouteDecl {
+  path: string;
+  summary: string;
+  description?: string;
+  /** 応答できるメディアタイプ。q 値と具体性が同じなら先頭を優先。空なら交渉しない */
+  produces: readonly string[];
+  /** 認証に使うルート名（null = 認証なし）。パラメータや交渉結果で変わる場合は関数 */
+  auth: Route | null | ((params: Params, type: string) => Route | null);
+  parameters: readonly ParamSpec[];
+  /** 成功時などの応答（OpenAPI）。400 / 401 / 403 / 406 は宣言から生成する */
+  responses: Record<string, unknown>;
+  hidden?: boolean; // OpenAPI に載せない
+}
+
+export interface RequestContext {
+  req: http.IncomingMessage;
+  res: http.ServerResponse;
+  url: URL;
+  query: Query;   // 生のクエリ（EventFilter 用）
+  params: Params; // 宣言に従って検証・変換した値（省略時は default）
+  type: string;   // 交渉したメディアタイプ
+  key: ApiKey | null;
+}
+
+export type Handler = (ctx: RequestContext) => void;
+
+export interface ParamError {
+  name: string;
+  in: 'query';
+  reason: string;
+}
+
+/** ステータス付きのエラー（problem+json で返す） */
+export class HttpError extends Error {
+  constructor(readonly status: number, message: string, readonly errors?: ParamError[]) {
+    super(message);
+  }
+}
+
+/** 検証関数（EventFilter.fromQuery など）が投げた Error を HttpError(400) にする。AuthError / HttpError はそのまま */
+export function validated<T>(fn: () => T): T {
+  try {
+    return fn();
+  } catch (err) {
+    if (err instanceof HttpError || err instanceof AuthError || !(err instanceof Error)) throw err;
+    throw new HttpError(400, err.message);
+  }
+}
+
+// どのルートでも受け付けるクエリ（API キー。認証の有無にかかわらず無視して良い）
+const COMMON_QUERY = new Set(['token']);
+
+export class Router {
+  private routes = new Map<string, { decl: RouteDecl; handler: Handler }>();
+  private authenticate: (req: http.IncomingMessage, query: Query, route: Route) => ApiKey | null;
+
+  constructor(opts: { authenticate: (req: http.IncomingMessage, query: Query, route: Route) => ApiKey | null }) {
+    this.authenticate = opts.authenticate;
+  }
+
+  get(decl: RouteDecl, handler: Handler): this {
+    this.routes.set(decl.path, { decl, handler });
+    return this;
+  }
+
+  /**
+   * ルートの照合 → メソッド → Accept → パラメータ → 認証の順に確認してハンドラを呼ぶ。
+   * ハンドラが同期的に投げた AuthError / HttpError はそのステータス、それ以外は 500（ログに残す）。
+   * パラメータの検証はハンドラでも HttpError(400) を投げるか validated() で包む。非同期の失敗はハンドラが扱う
+   */
+  handle(req: http.IncomingMessage, res: http.ServerResponse) {
+    const url = new URL(req.url || '/', 'http://localhost');
+    try {
+      const route = this.routes.get(url.pathname);
+      if (!route) throw new HttpError(404, `no route for ${url.pathname}`);
+      const { decl, handler } = route;
+      if (req.method !== 'GET' && req.method !== 'HEAD') {
+        res.setHeader('Allow', 'GET, HEAD, OPTIONS');
+        throw new HttpError(405, `method ${req.method} not allowed`);
+      }
+      const type = decl.produces.length ? negotiate(req.headers['accept'], decl.produces) : '';
+      if (type == null) throw new HttpError(406, `none of ${decl.produces.join(', ')} is acceptable`);
+      const query = queryOf(url);
+      const { params, errors } = parseParams(decl.parameters, query);
+      if (errors.length) throw new HttpError(400, errors.map(e => `${e.name}: ${e.reason}`).join('; '), errors);
+      const auth = typeof decl.auth === 'function' ? decl.auth(params, type) : decl.auth;
+      const key = auth ? this.authenticate(req, query, auth) : null;
+      handler({ req, res, url, query, params, type, key });
+    } catch (err) {
+      sendProblem(res, err, url.pathname);
+    }
+  }
+}
+
+/** URL のクエリを Query に（同じキーの繰り返しは配列） */
+export function queryOf(url: URL): Query {
+  const q: Query = {};
+  for (const [k, v] of url.searchParams) {
+    const cur = q[k];
+    q[k] = cur == null ? v : [cur].flat().concat(v);
+  }
+  return q;
+}
+
+// ==== Accept の交渉 ====
+interface MediaRange {
+  type: string;
+  subtype: string;
+  q: number;
+}
+
+function parseAccept(header: string): MediaRange[] {
+  const out: MediaRange[] = [];
+  for (const part of header.split(',')) {
+    const [range, ...ps] = part.split(';').map(s => s.trim().toLowerCase());
+    const m = /^([\w.+-]+|\*)\/([\w.+-]+|\*)$/.exec(range);
+    if (!m) continue;
+    let q = 1;
+    for (const p of ps) {
+      const [k, v] = p.split('=').map(s => s.trim());
+      if (k === 'q') q = /^(0(\.\d{0,3})?|1(\.0{0,3})?)$/.test(v ?? '') ? Number(v) : 1;
+    }
+    out.push({ type: m[1], subtype: m[2], q });
+  }
+  return out;
+}
+
+/**
+ * produces のうち Accept で最も好まれるもの（受け付けられるものが無ければ null）。
+ * 各タイプには最も具体的に一致する範囲の q を使い、q が同じなら具体的な一致、さらに同じなら produces の順。
+ * Accept なし（または空）は *\/* とみなす
+ */
+export function negotiate(accept: string | undefined, produces: readonly string[]): string | null {
+  const ranges = parseAccept(accept?.trim() || '*/*');
+  let best: { type: string; q: number; spec: number } | null = null;
+  for (const t of produces) {
+    const [type, subtype] = t.split('/');
+    let match: { q: number; spec: number } | null = null;
+    for (const r of ranges) {
+      const spec =
+        r.type === type && r.subtype === subtype ? 2 :
+          r.type === type && r.subtype === '*' ? 1 :
+            r.type === '*' && r.subtype === '*' ? 0 :
+              -1;
+      if (spec >= 0 && (!match || spec > match.spec)) match = { q: r.q, spec };
+    }
+    if (!match || match.q <= 0) continue;
+    if (!best || match.q > best.q || (match.q === best.q && match.spec > best.spec)) best = { type: t, ...match };
+  }
+  return best?.type ?? null;
+}
+
+// ==== パラメータ検証 ====
+function parseScalar(schema: ScalarSchema, s: string): { value: string | number } | { reason: string } {
+  if (schema.type === 'integer') {
+    const min = schema.minimum ?? Number.MIN_SAFE_INTEGER;
+    const max = schema.maximum ?? Number.MAX_SAFE_INTEGER;
+    const n = Number(s);
+    if (!/^-?\d+$/.test(s) || n < min || n > max) {
+      const range = schema.maximum != null ? `${schema.minimum ?? ''}..${schema.maximum}` : schema.minimum != null ? `>= ${schema.minimum}` : '';
+      return { reason: `integer${range ? ` ${range}` : ''} expected, got ${JSON.stringify(s)}` };
+    }
+    return { value: n };
+  }
+  if (schema.enum && !schema.enum.includes(s)) return { reason: `expected one of ${schema.enum.join('|')}, got ${JSON.stringify(s)}` };
+  return { value: s };
+}
+
+function parseParams(specs: readonly ParamSpec[], query: Query): { params: Params; errors: ParamError[] } {
+  const params: Params = {};
+  const errors: ParamError[] = [];
+  const known = new Map(specs.filter(p => p.in === 'query').map(p => [p.name, p]));
+  for (const name of Object.keys(query)) {
+    if (!known.has(name) && !COMMON_QUERY.has(name)) errors.push({ name, in: 'query', reason: 'unknown parameter' });
+  }
+  for (const [name, spec] of known) {
+    const raw = query[name];
+    const { schema } = spec;
+    if (raw == null) {
+      if (schema.type !== 'array' && schema.default != null) params[name] = schema.default;
+      continue;
+    }
+    if (schema.type === 'array') {
+      const values: (string | number)[] = [];
+      const items = [raw].flat().flatMap(s => spec.explode ? [s] : s.split(',')).map(s => s.trim()).filter(Boolean);
+      for (const s of items) {
+        const r = parseScalar(schema.items, s);
+        if ('reason' in r) errors.push({ name, in: 'query', reason: r.reason });
+        else values.push(r.value);
+      }
+      params[name] = values as string[] | number[];
+      continue;
+    }
+    if (Array.isArray(raw)) {
+      errors.push({ name, in: 'query', reason: 'specify once' });
+      continue;
+    }
+    const r = parseScalar(schema, raw.trim());
+    if ('reason' in r) errors.push({ name, in: 'query', reason: r.reason });
+    else params[name] = r.value;
+  }
+  return { params, errors };
+}
+
+// ==== 応答 ====
+export function sendJson(res: http.ServerResponse, obj: unknown) {
+  const data = JSON.stringify(obj);
+  res.writeHead(200, {
+    'Content-Type': 'application/json; charset=utf-8',
+    'Cache-Control': 'no-cache, no-transform'
+  });
+  res.end(data);
+}
+
+/** RFC 7807。AuthError / HttpError はそのステータス、それ以外は 500（詳細は返さずログに残す） */
+export function sendProblem(res: http.ServerResponse, err: unknown, instance?: string) {
+  const known = err instanceof HttpError || err instanceof AuthError;
+  const status = known ? err.status : 500;
+  if (!known) console.error(`[http] unhandled error instance=${instance ?? '-'}`, err);
+  if (res.headersSent) {
+    try { res.end(); } catch { }
+    return;
+  }
+  const headers: http.OutgoingHttpHeaders = { 'Content-Type': 'application/problem+json; charset=utf-8', 'Cache-Control': 'no-cache' };
+  if (status === 401) headers['WWW-Authenticate'] = 'Bearer realm="zabbix-rtx"';
+  const body = {
+    type: 'about:blank',
+    title: http.STATUS_CODES[status] ?? 'Error',
+    status,
+    detail: known ? err.message : 'internal error',
+    instance,
+    errors: err instanceof HttpError ? err.errors : undefined,
+  };
+  res.writeHead(status, headers);
+  res.end(JSON.stringify(body));
+}
+
+// ==== OpenAPI ====
+const SECURITY = [{ bearerAuth: [] }, { apiKeyHeader: [] }, { apiKeyQuery: [] }];
+
+/** ルート宣言から OpenAPI の paths を作る */
+export function openapiPaths(routes: readonly RouteDecl[]): Record<string, unknown> {
+  const paths: Record<string, unknown> = {};
+  for (const r of routes) {
+    if (r.hidden) continue;
+    const responses: Record<string, unknown> = { ...r.responses };
+    if (r.parameters.some(p => p.in === 'query')) responses['400'] = { $ref: '#/components/responses/BadRequest' };
+    if (r.auth) {
+      responses['401'] = { $ref: '#/components/responses/Unauthorized' };
+      responses['403'] = { $ref: '#/components/responses/Forbidden' };
+    }
+    if (r.produces.length) responses['406'] = { $ref: '#/components/responses/NotAcceptable' };
+    const parameters = r.parameters.map(p => ({
+      name: p.name,
+      in: p.in,
+      schema: p.schema,
+      ...(p.schema.type === 'array' ? { style: 'form', explode: p.explode ?? false } : {}),
+      ...(p.description ? { description: p.description } : {}),
+    }));
+    paths[r.path] = {
+      get: {
+        summary: r.summary,
+        ...(r.description ? { description: r.description } : {}),
+        security: r.auth ? SECURITY : [],
+        ...(parameters.length ? { parameters } : {}),
+        responses,
+      }
+    };
+  }
+  return paths;
+}
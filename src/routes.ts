@@ -0,0 +1,197 @@
+import { SLOW_POLICIES } from './sse.js';
+import { FAMILIES } from './types.js';
+import type { ParamSpec, RouteDecl } from './router.js';
+
+// HTTP API のルート宣言（パス・パラメータ・応答）。ハンドラは index.ts で結びつけ、
+// OpenAPI（openapi.ts）はこの宣言から生成する。
+
+// ==== フィルタ（EventFilter）のパラメータ ====
+const FILTER = {
+  source: { name: 'source', in: 'query', schema: { type: 'array', items: { type: 'string' } }, description: 'ソース名（設定の sources[].name）で絞り込み。' },
+  family: { name: 'family', in: 'query', schema: { type: 'array', items: { type: 'string', enum: FAMILIES } }, description: 'データ種別（ファイル名の先頭、derived=ルールエンジンが生成したイベント）で絞り込み（カンマ区切りで複数可）。' },
+  host: { name: 'host', in: 'query', schema: { type: 'array', items: { type: 'string' } }, description: 'ホスト名（host または表示名）で絞り込み。' },
+  hostgroup: { name: 'hostgroup', in: 'query', schema: { type: 'array', items: { type: 'string' } }, description: 'ホストグループで絞り込み。' },
+  severity: { name: 'severity', in: 'query', schema: { type: 'array', items: { type: 'integer', minimum: 0, maximum: 5 } }, description: '深刻度の完全一致（problem のみ一致）。' },
+  minSeverity: { name: 'severity>', in: 'query', schema: { type: 'integer', minimum: 0, maximum: 5 }, description: '`?severity>=3` の形で指定する最小深刻度（problem のみ一致）。' },
+  tag: { name: 'tag', in: 'query', schema: { type: 'array', items: { type: 'string' } }, explode: true, description: '`tag=key:value` または `tag=key`。problem の tags / history の item_tags に一致。' },
+  itemid: { name: 'itemid', in: 'query', schema: { type: 'array', items: { type: 'integer', minimum: 0 } }, description: 'アイテムID（history のみ一致）。' },
+} satisfies Record<string, ParamSpec>;
+
+const ITEM_TAG: ParamSpec = { ...FILTER.tag, description: 'item_tags に一致（`key:value` または `key`）。' };
+
+const WINDOW: ParamSpec = { name: 'window', in: 'query', schema: { type: 'array', items: { type: 'string', example: '5m' } }, description: '返す窓（設定された窓のみ、省略で全て）。' };
+
+export const API = {
+  events: {
+    path: '/v1/events/zabbix/',
+    summary: 'SSE または JSON（コンテンツネゴシエーション）',
+    description:
+      'Accept（q 値付き）により応答を切替。text/event-stream=リアルタイムSSE、application/json=リングバッファのスナップショット、text/html=ダッシュボード（オープン中の problem・history のフィード・フィルタ・接続状態）。' +
+      'q 値と具体性が同じなら text/html > application/json > text/event-stream の順（Accept なし・*/* はダッシュボード）。' +
+      'フィルタは同一パラメータ内（カンマ区切り・繰り返し）が OR、異なるパラメータ間が AND。recovery は対応する problem の属性で判定する。' +
+      '同じパスへの WebSocket Upgrade（?client=<id> 任意）では JSON メッセージで購読を操作する: ' +
+      '{op:"subscribe",sub,filter,sinceId?,snapshot?} / {op:"unsubscribe",sub} / {op:"replay",sinceId?} / {op:"ack",id}。' +
+      'サーバからは {type:"hello"|"subscribed"|"unsubscribed"|"event"|"snapshot"|"reset"|"error"} を送る。' +
+      '認証有効時（AUTH_KEYS_FILE）は SSE / JSON / WebSocket にキーが必要（ダッシュボードは不要）。キーの families / hostgroups の範囲外は配信されず、許可外の family を指定すると 403。',
+    produces: ['text/html', 'application/json', 'text/event-stream'],
+    // ダッシュボード自体はデータを含まない。集計モードは集計エンドポイントと同じ権限
+    auth: (p, type) => type === 'text/html' ? null : p.mode === 'aggregates' ? 'aggregates' : 'events',
+    parameters: [
+      ...Object.values(FILTER),
+      { name: 'limit', in: 'query', schema: { type: 'integer', minimum: 1, maximum: 10000, default: 100 }, description: 'application/json のみ有効。返却件数。' },
+      { name: 'from', in: 'query', schema: { type: 'string', example: '1700000000.5' }, description: 'application/json のみ有効。レコード自身の clock / ns がこの時刻以降（UNIX 秒、小数でナノ秒まで、または ISO 8601）。from / to / cursor / order のいずれかを指定すると (clock, ns) 順の範囲取得になり、sinceId とは併用できない。' },
+      { name: 'to', in: 'query', schema: { type: 'string', example: '2023-11-14T22:13:20Z' }, description: 'application/json のみ有効。レコード自身の clock / ns がこの時刻以前。' },
+      { name: 'order', in: 'query', schema: { type: 'string', enum: ['asc', 'desc'] }, description: 'application/json のみ有効。desc=新しい順（既定 asc）。' },
+      { name: 'cursor', in: 'query', schema: { type: 'string' }, description: 'application/json のみ有効。前回の応答の next（続き）または prev（前のページ）。from / to / order / フィルタは同じ値を指定する。' },
+      { name: 'sinceId', in: 'query', schema: { type: 'integer', minimum: 0 }, description: 'このIDより新しいイベントを返す（ジャーナル保持期間内）。ID は再起動をまたいで単調増加。SSE では接続直後にジャーナル / リングバッファから再送してからライブ配信に移る。' },
+      { name: 'Last-Event-ID', in: 'header', schema: { type: 'integer', minimum: 0 }, description: 'text/event-stream のみ有効。EventSource 再接続時に自動送信され、sinceId より優先（整数でなければ無視）。要求IDが追い出し済みの場合は reset イベント（data: {reason,requestedId,oldestId,latestId}）を送った後、保持分を再送する。' },
+      { name: 'slow', in: 'query', schema: { type: 'string', enum: SLOW_POLICIES }, description: 'text/event-stream のみ有効。送信待ちが閾値を超えた場合の扱い（既定は SSE_SLOW_POLICY）。drop=破棄して捌けた後に gap イベント（data: {ranges:[[from,to],...],untracked}）で通知、disconnect=破棄が maxDrops 回で切断、replay=捌けた後に欠落範囲を再送。' },
+      { name: 'maxDrops', in: 'query', schema: { type: 'integer', minimum: 1 }, description: 'slow=disconnect の切断までの破棄回数（既定は SSE_SLOW_MAX_DROPS）。' },
+      { name: 'snapshot', in: 'query', schema: { type: 'array', items: { type: 'string', enum: ['problems', 'latest'] } }, description: 'text/event-stream のみ有効。problems=接続時にオープン中の problem を problem.snapshot イベント（data: {items: ActiveProblem[]}）で、latest=アイテムごとの最新値を latest.snapshot イベント（data: {items: LatestValue[]}）で送る（フィルタ適用）。ライブ中は problem.opened（ActiveProblem）/ problem.resolved（ResolvedProblem）を配信。' },
+      { name: 'mode', in: 'query', schema: { type: 'string', enum: ['raw', 'aggregates'], default: 'raw' }, description: 'text/event-stream のみ有効。aggregates=生のイベントの代わりに interval ごとにローリング集計を aggregates イベント（data: {time, items: ItemAggregate[]}）で送る（権限は aggregates ルート）。' },
+      { name: 'interval', in: 'query', schema: { type: 'string', example: '10s' }, description: 'mode=aggregates の送信間隔（1s 以上、既定は AGG_INTERVAL_MS）。' },
+      { ...WINDOW, description: 'mode=aggregates で送る窓（設定された窓のみ、省略で全て）。' },
+    ],
+    responses: {
+      '200': { description: 'OK', content: {
+        'text/event-stream': { schema: { type: 'string', example: `id: 123
+event: zabbix.problems
+data: {\"clock\":1519304285,\"ns\":123456789,\"value\":1,\"eventid\":42,\"name\":\"CPU load is too high\",\"severity\":3,\"hosts\":[{\"host\":\"web01\",\"name\":\"web01\"}],\"groups\":[\"Linux servers\"],\"tags\":[]}
+
+` } },
+        'application/json': { schema: { type: 'object', properties: {
+          latestId: { type: 'integer' },
+          items: { type: 'array', items: { type: 'object', properties: {
+            id: { type: 'integer' }, time: { type: 'integer' },
+            source: { $ref: '#/components/schemas/Source' },
+            record: { $ref: '#/components/schemas/ZabbixRecord' }
+          }, required: ['id','time','source','record'] } },
+          next: { type: 'string', nullable: true, description: '範囲取得のみ。order の向きの続きを読むカーソル（無ければ null）' },
+          prev: { type: 'string', nullable: true, description: '範囲取得のみ。前のページを読むカーソル（先頭ページは null）' }
+        }, required: ['latestId','items'] } },
+        'text/html': { schema: { type: 'string' } }
+      } }
+    },
+  },
+  problems: {
+    path: '/v1/events/zabbix/problems',
+    summary: 'オープン中の problem 一覧',
+    description: 'PROBLEM を受信し RECOVERY（p_eventid）を未受信のもの。source / host / hostgroup / severity / tag で絞り込み可能。認証有効時はキーの hostgroups の範囲のみ。',
+    produces: ['application/json'],
+    auth: 'problems',
+    parameters: [FILTER.source, FILTER.host, FILTER.hostgroup, FILTER.severity, FILTER.minSeverity, FILTER.tag],
+    responses: {
+      '200': { description: 'OK', content: { 'application/json': { schema: { type: 'object', properties: {
+        latestId: { type: 'integer' },
+        count: { type: 'integer' },
+        items: { type: 'array', items: { $ref: '#/components/schemas/ActiveProblem' } }
+      }, required: ['latestId','count','items'] } } } }
+    },
+  },
+  latest: {
+    path: '/v1/events/zabbix/latest',
+    summary: 'アイテムごとの最新値',
+    description: 'history から保持しているアイテムごとの最新値（(clock, ns) が最も新しいもの）。itemid / host / hostgroup / tag / source で絞り込み可能。更新の古い順。',
+    produces: ['application/json'],
+    auth: 'latest',
+    parameters: [FILTER.source, FILTER.itemid, FILTER.host, FILTER.hostgroup, ITEM_TAG],
+    responses: {
+      '200': { description: 'OK', content: { 'application/json': { schema: { type: 'object', properties: {
+        latestId: { type: 'integer' },
+        count: { type: 'integer' },
+        items: { type: 'array', items: { $ref: '#/components/schemas/LatestValue' } }
+      }, required: ['latestId','count','items'] } } } }
+    },
+  },
+  aggregates: {
+    path: '/v1/events/zabbix/aggregates',
+    summary: '数値アイテムのローリング集計',
+    description: '数値 history（type 0/3）のアイテムごとに、現在時刻から遡る窓（設定 aggregates.windows）の count / min / max / avg / last / rate を返す。rate は窓内の最初と最後のサンプル間の 1 秒あたりの変化量。itemid / host / hostgroup / tag / source で絞り込み可能。再生モードでは流し終えたレコードの最新の clock を現在時刻とみなす。',
+    produces: ['application/json'],
+    auth: 'aggregates',
+    parameters: [WINDOW, FILTER.source, FILTER.itemid, FILTER.host, FILTER.hostgroup, ITEM_TAG],
+    responses: {
+      '200': { description: 'OK', content: { 'application/json': { schema: { type: 'object', properties: {
+        time: { type: 'integer', description: '集計時刻（ミリ秒）' },
+        windows: { type: 'array', items: { type: 'string' } },
+        count: { type: 'integer' },
+        items: { type: 'array', items: { $ref: '#/components/schemas/ItemAggregate' } }
+      }, required: ['time','windows','count','items'] } } } }
+    },
+  },
+  sources: {
+    path: '/v1/events/zabbix/sources',
+    summary: 'ソースごとの状態',
+    description: '設定の sources（ディレクトリ単位）ごとに、ディレクトリの読み取り可否・最終スキャン / 最終受信時刻・ファイルごとの tail 状態を返す。',
+    produces: ['application/json'],
+    auth: 'sources',
+    parameters: [],
+    responses: {
+      '200': { description: 'OK', content: { 'application/json': { schema: { type: 'object', properties: {
+        items: { type: 'array', items: { $ref: '#/components/schemas/SourceHealth' } }
+      }, required: ['items'] } } } }
+    },
+  },
+  metrics: {
+    path: '/metrics',
+    summary: 'Prometheus メトリクス',
+    description: 'ファイルごとの読み取り行数・バイト数・遅延（サイズ - オフセット）・reopen / shrink 回数・parse_error 数、リングバッファ使用量と最新ID、SSE / WebSocket 接続数と破棄メッセージ数。',
+    produces: ['text/plain'],
+    auth: 'metrics',
+    parameters: [],
+    responses: { '200': { description: 'OK', content: { 'text/plain': { schema: { type: 'string' } } } } },
+  },
+  openapi: {
+    path: '/v1/events/zabbix/openapi.json',
+    summary: 'OpenAPI JSON',
+    produces: ['application/json'],
+    auth: null,
+    parameters: [],
+    responses: { '200': { description: 'OpenAPI document (JSON)' } },
+  },
+  root: {
+    path: '/',
+    summary: '/v1/events/zabbix/ へのリダイレクト',
+    produces: [],
+    auth: null,
+    parameters: [],
+    responses: {},
+    hidden: true,
+  },
+} satisfies Record<string, RouteDecl>;
+
+/**
+ * /healthz・/readyz。既定（requireAuth=false）はオーケストレータのプローブ用に認証なしで、
+ * 本文はパス・inode・エラー文言を含まない要約（HealthSummary）。requireAuth=true で routes の health を要求し、詳細を返す
+ */
+export function healthRoutes(requireAuth: boolean) {
+  const schema = requireAuth ? 'HealthReport' : 'HealthSummary';
+  const content = { 'application/json': { schema: { $ref: `#/components/schemas/${schema}` } } };
+  const body = requireAuth
+    ? 'ソースとファイルごとの tail 状態（open / inode / offset と size / 最終行時刻 / 直近の warn / 停滞）を返す。'
+    : 'ソースとファイル（ベース名）ごとの open / 最終行時刻 / 停滞の要約を返す。';
+  const auth = requireAuth ? 'health' : null;
+  return {
+    healthz: {
+      path: '/healthz',
+      summary: '稼働確認',
+      description: `プロセスが応答していれば常に 200。${body}`,
+      produces: ['application/json'],
+      auth,
+      parameters: [],
+      responses: { '200': { description: 'OK', content } },
+    },
+    readyz: {
+      path: '/readyz',
+      summary: '受付可否',
+      description: '全ソースの初回スキャンが済み、読めないソースが無ければ 200（停滞中のファイルがあっても 200）。それ以外は 503。本文は /healthz と同じ。',
+      produces: ['application/json'],
+      auth,
+      parameters: [],
+      responses: {
+        '200': { description: 'Ready', content },
+        '503': { description: 'Not ready（status=starting|down）', content }
+      },
+    },
+  } satisfies Record<string, RouteDecl>;
+}
@@ -0,0 +1,443 @@
+import { EventEmitter } from 'node:events';
+import fs from 'node:fs';
+import path from 'node:path';
+import { EventFilter, type ProblemLookup, type Query } from './filter.js';
+import { isDerived, isHistory, isItemRecord, isProblem } from './records.js';
+import { formatDuration, parseDuration } from './aggregates.js';
+import { keyOf } from './timerange.js';
+import { RULE_KINDS } from './types.js';
+import type {
+  RuleKind,
+  ZabbixDerivedEvent,
+  ZabbixHost,
+  ZabbixRtxEnvelope,
+  ZabbixRtxSource,
+  ZabbixSeverity,
+  ZabbixTag
+} from './types.js';
+
+// Zabbix のトリガーでは表現しにくい条件をエンベロープの流れに対して評価し、
+// 一致したら derived イベント（zabbix.derived.<kind>）を生成する。ルールファイル（JSON）:
+//   { "rules": [
+//     { "name": "cpu-high", "kind": "threshold", "filter": { "itemid": 123 }, "op": ">", "value": 90, "severity": 4 },
+//     { "name": "cpu-jump", "kind": "rate", "filter": { "tag": "component:cpu" }, "change": 0.5, "direction": "up" },
+//     { "name": "problem-storm", "kind": "count", "filter": { "family": "problems", "severity>": 0 }, "groupBy": "hostgroup", "window": "1m", "count": 20 },
+//     { "name": "agent-silent", "kind": "absence", "filter": { "itemid": 456 }, "groupBy": "item", "after": "5m" } ] }
+//   threshold : 数値 history が op value を満たした / 満たさなくなった時（アイテムごと）に firing / resolved
+//   rate      : 直前のサンプルからの変化が change（相対、0.5 = 50%）または delta（絶対）以上で firing（アイテムごと）
+//   count     : window 内に一致したイベントが count 件以上で firing、下回ったら resolved（groupBy ごと）
+//   absence   : 一致するイベントが after の間届かなければ firing、再び届いたら resolved（groupBy ごと。一度も届いていない対象は判定しない）
+// filter はクエリと同じ書式。derived イベント自身は評価しない（ルールの連鎖はしない）。
+// clock='record'（再生モード）では壁時計の代わりに受け取ったレコードの最新の clock を現在時刻とみなす（count の窓・absence・derived の clock）。
+
+export type GroupBy = 'item' | 'host' | 'hostgroup' | 'none';
+const GROUP_BY: readonly GroupBy[] = ['item', 'host', 'hostgroup', 'none'];
+const OPS = ['>', '>=', '<', '<=', '==', '!='] as const;
+type Op = typeof OPS[number];
+
+interface RuleBase {
+  name: string;
+  filter: EventFilter;
+  severity: ZabbixSeverity;
+  message: string | null; // 省略時は判定内容から生成
+  tags: ZabbixTag[];
+}
+
+type Rule = RuleBase & (
+  | { kind: 'threshold'; op: Op; value: number }
+  | { kind: 'rate'; change: number | null; delta: number | null; direction: 'up' | 'down' | 'any' }
+  | { kind: 'count'; groupBy: GroupBy; windowMs: number; count: number }
+  | { kind: 'absence'; groupBy: GroupBy; afterMs: number }
+);
+
+// 判定対象の最新の文脈（derived イベントの hosts / groups / item に使う）
+interface Context {
+  source: string;
+  hosts: ZabbixHost[];
+  groups: string[];
+  item: { itemid: number; name: string } | null;
+}
+
+interface GroupState {
+  ctx: Context;
+  firing: boolean;
+  times: number[]; // count: 一致した時刻（ms）
+  last: number;    // absence: 最後に一致した時刻（ms）
+  value: number | null;
+}
+
+export interface RuleStats {
+  name: string;
+  kind: RuleKind;
+  fired: number;
+  resolved: number;
+  active: number; // firing 中の対象数
+}
+
+const MAX_GROUPS = 100_000; // ルールごとの状態数の上限（超過で最も長く一致のない対象から破棄）
+
+function fail(where: string, msg: string): never {
+  throw new Error(`${where}: ${msg}`);
+}
+
+function durationOf(v: unknown, where: string): number {
+  let ms: number;
+  if (typeof v === 'number') ms = v;
+  else if (typeof v === 'string') { try { ms = parseDuration(v); } catch { ms = NaN; } }
+  else ms = NaN;
+  if (!Number.isSafeInteger(ms) || ms < 1000) fail(where, `duration >= 1s expected (ms number or "30s" / "5m"), got ${JSON.stringify(v)}`);
+  return ms;
+}
+
+function numberOf(v: unknown, where: string, min = -Infinity): number {
+  if (typeof v !== 'number' || !Number.isFinite(v) || v < min) fail(where, `number${min > -Infinity ? ` >= ${min}` : ''} expected, got ${JSON.stringify(v)}`);
+  return v;
+}
+
+function parseRule(e: unknown, where: string, lookup: ProblemLookup): Rule {
+  if (typeof e !== 'object' || e === null || Array.isArray(e)) fail(where, 'object expected');
+  const o = e as Record<string, unknown>;
+  if (typeof o.name !== 'string' || !/^[A-Za-z0-9_.-]+$/.test(o.name)) fail(`${where}.name`, '[A-Za-z0-9_.-]+ expected');
+  if (!(RULE_KINDS as readonly unknown[]).includes(o.kind)) fail(`${where}.kind`, `one of ${RULE_KINDS.join('|')} expected`);
+
+  const known = ['name', 'kind', 'filter', 'severity', 'message', 'tags'];
+  const q = o.filter ?? {};
+  if (typeof q !== 'object' || q === null || Array.isArray(q)) fail(`${where}.filter`, 'filter object expected');
+  const query: Query = {};
+  for (const [k, v] of Object.entries(q)) query[k] = Array.isArray(v) ? v.map(String) : String(v);
+  let filter: EventFilter;
+  try { filter = EventFilter.fromQuery(query, lookup); } catch (err) { fail(`${where}.filter`, err instanceof Error ? err.message : String(err)); }
+  const severity = o.severity ?? 2;
+  if (typeof severity !== 'number' || !Number.isInteger(severity) || severity < 0 || severity > 5) fail(`${where}.severity`, 'integer 0..5 expected');
+  if (o.message != null && typeof o.message !== 'string') fail(`${where}.message`, 'string expected');
+  const tags = o.tags ?? {};
+  if (typeof tags !== 'object' || tags === null || Array.isArray(tags) || Object.values(tags).some(v => typeof v !== 'string')) fail(`${where}.tags`, 'object of strings expected');
+  const base: RuleBase = {
+    name: o.name,
+    filter,
+    severity: severity as ZabbixSeverity,
+    message: (o.message as string | undefined) ?? null,
+    tags: Object.entries(tags as Record<string, string>).map(([tag, value]) => ({ tag, value })),
+  };
+  const groupBy = (def: GroupBy): GroupBy => {
+    const g = o.groupBy ?? def;
+    if (!(GROUP_BY as readonly unknown[]).includes(g)) fail(`${where}.groupBy`, `one of ${GROUP_BY.join('|')} expected`);
+    return g as GroupBy;
+  };
+
+  let rule: Rule;
+  switch (o.kind as RuleKind) {
+    case 'threshold':
+      known.push('op', 'value');
+      if (!(OPS as readonly unknown[]).includes(o.op)) fail(`${where}.op`, `one of ${OPS.join(' ')} expected`);
+      rule = { ...base, kind: 'threshold', op: o.op as Op, value: numberOf(o.value, `${where}.value`) };
+      break;
+    case 'rate': {
+      known.push('change', 'delta', 'direction');
+      const change = o.change == null ? null : numberOf(o.change, `${where}.change`, 0);
+      const delta = o.delta == null ? null : numberOf(o.delta, `${where}.delta`, 0);
+      if (change == null && delta == null) fail(where, '"change" or "delta" required');
+      const direction = o.direction ?? 'any';
+      if (direction !== 'up' && direction !== 'down' && direction !== 'any') fail(`${where}.direction`, 'one of up|down|any expected');
+      rule = { ...base, kind: 'rate', change, delta, direction };
+      break;
+    }
+    case 'count': {
+      known.push('groupBy', 'window', 'count');
+      const count = numberOf(o.count, `${where}.count`, 1);
+      if (!Number.isInteger(count)) fail(`${where}.count`, 'integer expected');
+      rule = { ...base, kind: 'count', groupBy: groupBy('none'), windowMs: durationOf(o.window, `${where}.window`), count };
+      break;
+    }
+    case 'absence':
+      known.push('groupBy', 'after');
+      rule = { ...base, kind: 'absence', groupBy: groupBy('item'), afterMs: durationOf(o.after, `${where}.after`) };
+      break;
+  }
+  for (const k of Object.keys(o)) if (!known.includes(k)) fail(where, `unknown option ${k}`);
+  return rule;
+}
+
+function contextOf(env: ZabbixRtxEnvelope): Context {
+  const r = env.record;
+  if (isItemRecord(r)) return { source: env.source.name, hosts: [r.host], groups: r.groups, item: { itemid: r.itemid, name: r.name } };
+  if (isProblem(r)) return { source: env.source.name, hosts: r.hosts, groups: r.groups, item: null };
+  return { source: env.source.name, hosts: [], groups: [], item: null };
+}
+
+// groupBy の値（対象を持たないレコードは空 = 数えない）
+function groupKeys(groupBy: GroupBy, env: ZabbixRtxEnvelope): string[] {
+  const r = env.record;
+  switch (groupBy) {
+    case 'none': return [''];
+    case 'item': return isItemRecord(r) ? [String(r.itemid)] : [];
+    case 'host': return isItemRecord(r) ? [r.host.host] : isProblem(r) ? r.hosts.map(h => h.host) : [];
+    case 'hostgroup': return isItemRecord(r) || isProblem(r) ? r.groups : [];
+  }
+}
+
+function compare(op: Op, a: number, b: number): boolean {
+  switch (op) {
+    case '>': return a > b;
+    case '>=': return a >= b;
+    case '<': return a < b;
+    case '<=': return a <= b;
+    case '==': return a === b;
+    case '!=': return a !== b;
+  }
+}
+
+export class RuleEngine extends EventEmitter {
+  private rules: Rule[];
+  private file: string;
+  private intervalMs: number;
+  private state = new Map<string, Map<string, GroupState>>(); // rule.name → 対象キー → 状態
+  private stats = new Map<string, { fired: number; resolved: number }>();
+  private timer: NodeJS.Timeout | null = null;
+  private recordClock: boolean;
+  private latestMs = 0; // clock='record': 受け取ったレコードの最新の clock（ms）
+  private maxSpanMs: number; // count の window・absence の after の最大
+
+  constructor(rules: Rule[], opts: { file: string; intervalMs: number; clock?: 'wall' | 'record' }) {
+    super();
+    this.rules = rules;
+    this.file = path.basename(opts.file);
+    this.intervalMs = opts.intervalMs;
+    this.recordClock = opts.clock === 'record';
+    this.maxSpanMs = Math.max(0, ...rules.map(r => r.kind === 'count' ? r.windowMs : r.kind === 'absence' ? r.afterMs : 0));
+    for (const r of rules) {
+      this.state.set(r.name, new Map());
+      this.stats.set(r.name, { fired: 0, resolved: 0 });
+    }
+  }
+
+  static async load(filePath: string, lookup: ProblemLookup, opts: { intervalMs: number; clock?: 'wall' | 'record' }): Promise<RuleEngine> {
+    const json: unknown = JSON.parse(await fs.promises.readFile(filePath, 'utf8'));
+    const entries = (json as { rules?: unknown })?.rules;
+    if (!Array.isArray(entries)) throw new Error(`${filePath}: rules: array expected`);
+    const names = new Set<string>();
+    const rules = entries.map((e, i) => {
+      const rule = parseRule(e, `${filePath}: rules[${i}]`, lookup);
+      if (names.has(rule.name)) throw new Error(`${filePath}: rules[${i}].name: duplicate ${JSON.stringify(rule.name)}`);
+      names.add(rule.name);
+      return rule;
+    });
+    return new RuleEngine(rules, { file: filePath, ...opts });
+  }
+
+  // 型付き on オーバーロード
+  override on(event: 'derived', listener: (source: ZabbixRtxSource, record: ZabbixDerivedEvent) => void): this;
+  override on(event: string, listener: (...args: any[]) => void): this { return super.on(event, listener); }
+
+  get size() { return this.rules.length; }
+
+  /** count の窓の期限切れ・absence の判定を intervalMs ごとに行う */
+  start() {
+    if (this.timer) return;
+    this.timer = setInterval(() => this.tick(), this.intervalMs);
+  }
+
+  stop() {
+    if (this.timer) clearInterval(this.timer);
+    this.timer = null;
+  }
+
+  ruleStats(): RuleStats[] {
+    return this.rules.map(r => {
+      const s = this.stats.get(r.name)!;
+      let active = 0;
+      for (const g of this.state.get(r.name)!.values()) if (g.firing) active++;
+      return { name: r.name, kind: r.kind, fired: s.fired, resolved: s.resolved, active };
+    });
+  }
+
+  /** 判定の基準時刻（ms） */
+  now(): number {
+    return this.recordClock ? this.latestMs : Date.now();
+  }
+
+  apply(env: ZabbixRtxEnvelope, now?: number) {
+    if (isDerived(env.record)) return;
+    if (this.recordClock) this.advance(env);
+    now ??= this.now();
+    for (const rule of this.rules) {
+      if (!rule.filter.matches(env)) continue;
+      switch (rule.kind) {
+        case 'threshold': this.threshold(rule, env, now); break;
+        case 'rate': this.rate(rule, env, now); break;
+        case 'count': this.count(rule, env, now); break;
+        case 'absence': this.absence(rule, env, now); break;
+      }
+    }
+  }
+
+  // clock='record': ループ再生の次の周回などで窓より前へ巻き戻ったら、時刻に依存する count / absence の状態をやり直す
+  private advance(env: ZabbixRtxEnvelope) {
+    const { clock, ns } = keyOf(env);
+    const t = clock * 1000 + Math.floor(ns / 1_000_000);
+    if (t < this.latestMs - this.maxSpanMs) {
+      for (const rule of this.rules) {
+        if (rule.kind === 'count' || rule.kind === 'absence') this.state.get(rule.name)!.clear();
+      }
+      this.latestMs = t;
+    } else if (t > this.latestMs) {
+      this.latestMs = t;
+    }
+  }
+
+  private group(rule: Rule, key: string, ctx: Context): GroupState {
+    const groups = this.state.get(rule.name)!;
+    let g = groups.get(key);
+    if (g) {
+      groups.delete(key);
+      g.ctx = ctx;
+    } else {
+      g = { ctx, firing: false, times: [], last: 0, value: null };
+    }
+    groups.set(key, g); // 一致順（LRU）
+    if (groups.size > MAX_GROUPS) {
+      const oldest = groups.keys().next().value;
+      if (oldest !== undefined) groups.delete(oldest);
+    }
+    return g;
+  }
+
+  private threshold(rule: Extract<Rule, { kind: 'threshold' }>, env: ZabbixRtxEnvelope, now: number) {
+    const r = env.record;
+    if (!isHistory(r) || typeof r.value !== 'number') return;
+    const g = this.group(rule, `${env.source.name}:${r.itemid}`, contextOf(env));
+    const hit = compare(rule.op, r.value, rule.value);
+    const previous = g.value;
+    g.value = r.value;
+    if (hit === g.firing) return;
+    g.firing = hit;
+    this.fire(rule, g, hit ? 'firing' : 'resolved', now, {
+      group: String(r.itemid),
+      item: { value: r.value, previous },
+      trigger: env.id,
+      message: hit
+        ? `${r.name}: ${r.value} ${rule.op} ${rule.value}`
+        : `${r.name}: ${r.value} no longer ${rule.op} ${rule.value}`,
+    });
+  }
+
+  private rate(rule: Extract<Rule, { kind: 'rate' }>, env: ZabbixRtxEnvelope, now: number) {
+    const r = env.record;
+    if (!isHistory(r) || typeof r.value !== 'number') return;
+    const g = this.group(rule, `${env.source.name}:${r.itemid}`, contextOf(env));
+    const previous = g.value;
+    g.value = r.value;
+    if (previous == null) return;
+    const diff = r.value - previous;
+    if (rule.direction === 'up' && diff <= 0) return;
+    if (rule.direction === 'down' && diff >= 0) return;
+    const byDelta = rule.delta != null && Math.abs(diff) >= rule.delta;
+    const byChange = rule.change != null && previous !== 0 && Math.abs(diff) / Math.abs(previous) >= rule.change;
+    if (!byDelta && !byChange) return;
+    const pct = previous !== 0 ? ` (${diff > 0 ? '+' : ''}${Math.round(diff / Math.abs(previous) * 1000) / 10}%)` : '';
+    this.fire(rule, g, 'firing', now, {
+      group: String(r.itemid),
+      item: { value: r.value, previous },
+      trigger: env.id,
+      message: `${r.name}: ${previous} -> ${r.value}${pct}`,
+    });
+  }
+
+  private count(rule: Extract<Rule, { kind: 'count' }>, env: ZabbixRtxEnvelope, now: number) {
+    const ctx = contextOf(env);
+    for (const key of groupKeys(rule.groupBy, env)) {
+      const g = this.group(rule, rule.groupBy === 'none' ? '' : `${env.source.name}:${key}`, ctx);
+      g.times.push(now);
+      this.expire(rule, g, now);
+      if (!g.firing && g.times.length >= rule.count) {
+        g.firing = true;
+        this.fire(rule, g, 'firing', now, {
+          group: rule.groupBy === 'none' ? null : key,
+          count: g.times.length,
+          trigger: env.id,
+          message: `${g.times.length} events in ${formatDuration(rule.windowMs)}${rule.groupBy === 'none' ? '' : ` (${rule.groupBy} ${key})`}`,
+        });
+      }
+    }
+  }
+
+  private expire(rule: Extract<Rule, { kind: 'count' }>, g: GroupState, now: number) {
+    let n = 0;
+    while (n < g.times.length && g.times[n] <= now - rule.windowMs) n++;
+    if (n > 0) g.times.splice(0, n);
+  }
+
+  private absence(rule: Extract<Rule, { kind: 'absence' }>, env: ZabbixRtxEnvelope, now: number) {
+    const ctx = contextOf(env);
+    for (const key of groupKeys(rule.groupBy, env)) {
+      const g = this.group(rule, rule.groupBy === 'none' ? '' : `${env.source.name}:${key}`, ctx);
+      g.last = now;
+      if (!g.firing) continue;
+      g.firing = false;
+      this.fire(rule, g, 'resolved', now, {
+        group: rule.groupBy === 'none' ? null : key,
+        trigger: env.id,
+        message: `data resumed${rule.groupBy === 'none' ? '' : ` (${rule.groupBy} ${key})`}`,
+      });
+    }
+  }
+
+  private tick(now = this.now()) {
+    for (const rule of this.rules) {
+      if (rule.kind !== 'count' && rule.kind !== 'absence') continue;
+      const groups = this.state.get(rule.name)!;
+      for (const [k, g] of groups) {
+        const key = rule.groupBy === 'none' ? null : k.slice(k.indexOf(':') + 1);
+        if (rule.kind === 'count') {
+          this.expire(rule, g, now);
+          if (g.firing && g.times.length < rule.count) {
+            g.firing = false;
+            this.fire(rule, g, 'resolved', now, {
+              group: key,
+              count: g.times.length,
+              trigger: null,
+              message: `${g.times.length} events in ${formatDuration(rule.windowMs)}${key == null ? '' : ` (${rule.groupBy} ${key})`}`,
+            });
+          }
+          if (!g.firing && g.times.length === 0) groups.delete(k);
+        } else if (!g.firing && now - g.last >= rule.afterMs) {
+          g.firing = true;
+          this.fire(rule, g, 'firing', now, {
+            group: key,
+            trigger: null,
+            message: `no data for ${formatDuration(rule.afterMs)}${key == null ? '' : ` (${rule.groupBy} ${key})`}`,
+          });
+        }
+      }
+    }
+  }
+
+  private fire(rule: Rule, g: GroupState, state: ZabbixDerivedEvent['state'], now: number, d: {
+    group: string | null;
+    message: string;
+    trigger: number | null;
+    item?: { value: number; previous: number | null };
+    count?: number;
+  }) {
+    const s = this.stats.get(rule.name)!;
+    if (state === 'firing') s.fired++;
+    else s.resolved++;
+    const record: ZabbixDerivedEvent = {
+      rule: rule.name,
+      kind: rule.kind,
+      state,
+      clock: Math.floor(now / 1000),
+      ns: (now % 1000) * 1_000_000,
+      severity: rule.severity,
+      message: rule.message ?? d.message,
+      group: d.group,
+      hosts: g.ctx.hosts,
+      groups: g.ctx.groups,
+      tags: rule.tags,
+      item: g.ctx.item && { ...g.ctx.item, value: d.item?.value ?? null, previous: d.item?.previous ?? null },
+      count: d.count ?? null,
+      trigger: d.trigger,
+    };
+    this.emit('derived', { name: g.ctx.source, file: this.file, family: 'derived', process: 'rules', index: null }, record);
+  }
+}
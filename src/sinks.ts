@@ -0,0 +1,444 @@
+import fs from 'node:fs';
+import path from 'node:path';
+import type { EventFilter, Query } from './filter.js';
+import type { ZabbixRtxEnvelope } from './types.js';
+
+// 外部への転送先（シンク）。配信パイプライン（ring.push の直後）から push され、
+// 転送はシンクごとに非同期で行う。push は決してブロック・例外送出しない（失敗中のシンクは
+// 自身のキュー / スプールに溜めるか破棄し、tail や SSE クライアントには影響しない）。
+
+export const SINK_TYPES = ['webhook', 'file'] as const;
+export type SinkType = typeof SINK_TYPES[number];
+
+export interface WebhookSinkOptions {
+  url: string;
+  headers: Record<string, string>;
+  batchSize: number;
+  flushMs: number;        // バッチが埋まらないときの送信間隔
+  timeoutMs: number;
+  retryInitialMs: number;
+  retryMaxMs: number;
+  maxQueue: number;       // メモリ上の未送信数。超過分はスプールへ
+  spoolDir: string | null; // null: スプールなし（超過分は破棄）
+  spoolMaxBytes: number;
+}
+
+export interface FileSinkOptions {
+  dir: string;
+  maxBytes: number;       // 超えたらローテート
+  rotateMs: number;       // 0: 時間ではローテートしない
+  keep: number;           // 保持するローテート済みファイル数
+  maxQueue: number;       // 書き込み待ちの上限。超過分は破棄
+}
+
+export type SinkConfig =
+  | ({ type: 'webhook'; name: string; filter: Query } & WebhookSinkOptions)
+  | ({ type: 'file'; name: string; filter: Query } & FileSinkOptions);
+
+export interface SinkStats {
+  name: string;
+  type: SinkType;
+  pending: number;        // 未配信（メモリ + スプール）
+  delivered: number;
+  dropped: number;
+  failures: number;       // 失敗した送信 / 書き込みの回数
+  lastDeliveredId: number | null;
+  lagMs: number;          // 最古の未配信イベントの経過時間（未配信なしなら 0）
+  lastError: string | null;
+}
+
+export interface Sink {
+  readonly name: string;
+  push(env: ZabbixRtxEnvelope): void;
+  start(): Promise<void>;
+  stop(): Promise<void>;
+  stats(): SinkStats;
+}
+
+const SPOOL_READ_BYTES = 1024 * 1024;
+
+// 恒久的な失敗（再送しても成功しない）
+class PermanentError extends Error { }
+
+/**
+ * HTTP POST でバッチ送信する（body: {"sink": name, "items": ZabbixRtxEnvelope[]}）。
+ * 失敗時は指数バックオフで再送。メモリ上の上限を超えた分はディスクのスプール（NDJSON + 読み出し位置）に
+ * 退避し、順序を保って後から送る。4xx（408 / 429 を除く）はバッチを破棄して次へ進む。
+ */
+export class WebhookSink implements Sink {
+  readonly name: string;
+  private filter: EventFilter;
+  private opts: WebhookSinkOptions;
+
+  private queue: ZabbixRtxEnvelope[] = [];
+  private timer: NodeJS.Timeout | null = null;
+  private sending: Promise<void> | null = null;
+  private stopped = false;
+  private backoffMs = 0;
+
+  // スプール: spoolPos までは送信済み、spoolSize までは書き込み済み
+  private spoolFile: string | null;
+  private spoolPos = 0;
+  private spoolSize = 0;
+  private spoolCount = 0;
+  private spoolHeadTime: number | null = null;
+  private spoolBuf: string[] = [];
+  private spoolWriting: Promise<void> | null = null;
+
+  private delivered = 0;
+  private dropped = 0;
+  private failures = 0;
+  private lastDeliveredId: number | null = null;
+  private lastError: string | null = null;
+
+  constructor(name: string, filter: EventFilter, opts: WebhookSinkOptions) {
+    this.name = name;
+    this.filter = filter;
+    this.opts = opts;
+    this.spoolFile = opts.spoolDir ? path.join(opts.spoolDir, `${name}.ndjson`) : null;
+  }
+
+  async start() {
+    if (!this.spoolFile) return;
+    await fs.promises.mkdir(path.dirname(this.spoolFile), { recursive: true });
+    try {
+      const buf = await fs.promises.readFile(this.spoolFile);
+      const end = buf.lastIndexOf(0x0a) + 1; // 書き込み途中の行は捨てる
+      let pos = 0;
+      try { pos = Number(await fs.promises.readFile(`${this.spoolFile}.pos`, 'utf8')) || 0; } catch { }
+      if (pos > end) pos = 0;
+      this.spoolPos = pos;
+      this.spoolSize = end;
+      for (let i = pos; i < end; i++) if (buf[i] === 0x0a) this.spoolCount++;
+      if (end < buf.length) await fs.promises.truncate(this.spoolFile, end);
+    } catch (err: any) {
+      if (err?.code !== 'ENOENT') throw err;
+    }
+    if (this.spoolCount > 0) {
+      console.log(`[sink:${this.name}] resuming spool pending=${this.spoolCount}`);
+      this.schedule(0);
+    }
+  }
+
+  push(env: ZabbixRtxEnvelope) {
+    if (this.stopped || !this.filter.matches(env)) return;
+    // スプールに残りがあれば順序を保つため後ろに並べる
+    if (this.spoolPending() || this.queue.length >= this.opts.maxQueue) this.spoolAppend(env);
+    else this.queue.push(env);
+    this.schedule();
+  }
+
+  stats(): SinkStats {
+    const oldest = this.queue[0]?.time ?? this.spoolHeadTime;
+    return {
+      name: this.name,
+      type: 'webhook',
+      pending: this.queue.length + this.spoolCount,
+      delivered: this.delivered,
+      dropped: this.dropped,
+      failures: this.failures,
+      lastDeliveredId: this.lastDeliveredId,
+      lagMs: oldest != null ? Math.max(0, Date.now() - oldest) : 0,
+      lastError: this.lastError,
+    };
+  }
+
+  async stop() {
+    this.stopped = true;
+    if (this.timer) { clearTimeout(this.timer); this.timer = null; }
+    while (this.sending) await this.sending;
+    while (this.spoolWriting) await this.spoolWriting;
+    if (!this.spoolFile) {
+      if (this.queue.length) console.warn(`[sink:${this.name}] discarding ${this.queue.length} undelivered events (no spool)`);
+      return;
+    }
+    if (!this.queue.length) return;
+    // メモリ上の分はスプールの未送信分より古いので、先頭に置いて書き直す
+    const rest = this.spoolSize > this.spoolPos ? await this.readSpool(this.spoolPos, this.spoolSize - this.spoolPos) : Buffer.alloc(0);
+    const head = Buffer.from(this.queue.map(e => JSON.stringify(e) + '\n').join(''), 'utf8');
+    const tmp = `${this.spoolFile}.tmp`;
+    await fs.promises.writeFile(tmp, Buffer.concat([head, rest]));
+    await fs.promises.rename(tmp, this.spoolFile);
+    await fs.promises.writeFile(`${this.spoolFile}.pos`, '0');
+    console.log(`[sink:${this.name}] spooled ${this.queue.length} undelivered events`);
+    this.queue = [];
+  }
+
+  private spoolPending(): boolean {
+    return this.spoolSize > this.spoolPos || this.spoolBuf.length > 0 || this.spoolWriting != null;
+  }
+
+  private spoolAppend(env: ZabbixRtxEnvelope) {
+    const line = JSON.stringify(env) + '\n';
+    const queued = this.spoolBuf.reduce((n, l) => n + l.length, 0);
+    if (!this.spoolFile || this.spoolSize - this.spoolPos + queued + line.length > this.opts.spoolMaxBytes) {
+      this.dropped++;
+      return;
+    }
+    if (!this.spoolPending()) this.spoolHeadTime = env.time;
+    this.spoolBuf.push(line);
+    this.spoolCount++;
+    if (this.spoolWriting) return;
+    this.spoolWriting = (async () => {
+      while (this.spoolBuf.length) {
+        const lines = this.spoolBuf;
+        this.spoolBuf = [];
+        const data = Buffer.from(lines.join(''), 'utf8');
+        try {
+          await fs.promises.appendFile(this.spoolFile!, data);
+        } catch (err) {
+          this.spoolBuf = lines.concat(this.spoolBuf);
+          throw err;
+        }
+        this.spoolSize += data.length;
+      }
+    })().catch(err => {
+      this.lastError = `spool write: ${err instanceof Error ? err.message : String(err)}`;
+      console.warn(`[sink:${this.name}] ${this.lastError}`);
+      this.dropped += this.spoolBuf.length;
+      this.spoolCount -= this.spoolBuf.length;
+      this.spoolBuf = [];
+    }).finally(() => {
+      this.spoolWriting = null;
+      this.schedule();
+    });
+  }
+
+  private async readSpool(pos: number, len: number): Promise<Buffer> {
+    const fd = await fs.promises.open(this.spoolFile!, 'r');
+    try {
+      const buf = Buffer.alloc(len);
+      const { bytesRead } = await fd.read(buf, 0, len, pos);
+      return buf.subarray(0, bytesRead);
+    } finally {
+      await fd.close();
+    }
+  }
+
+  private schedule(delay = this.queue.length >= this.opts.batchSize ? 0 : this.opts.flushMs) {
+    if (this.timer || this.sending || this.stopped) return;
+    this.timer = setTimeout(() => {
+      this.timer = null;
+      this.sending = this.flush().finally(() => {
+        this.sending = null;
+        if (this.backoffMs > 0) this.schedule(this.backoffMs);
+        else if (this.queue.length || this.spoolSize > this.spoolPos) this.schedule();
+      });
+    }, delay);
+  }
+
+  // 次のバッチ。メモリ上の分（スプールより古い）を先に送る
+  private async nextBatch(): Promise<{ items: ZabbixRtxEnvelope[]; spoolBytes: number } | null> {
+    if (this.queue.length) return { items: this.queue.slice(0, this.opts.batchSize), spoolBytes: 0 };
+    if (this.spoolSize <= this.spoolPos) return null;
+    const buf = await this.readSpool(this.spoolPos, Math.min(this.spoolSize - this.spoolPos, SPOOL_READ_BYTES));
+    const items: ZabbixRtxEnvelope[] = [];
+    let used = 0;
+    while (items.length < this.opts.batchSize) {
+      const nl = buf.indexOf(0x0a, used);
+      if (nl === -1) break;
+      const line = buf.subarray(used, nl).toString('utf8');
+      used = nl + 1;
+      try { items.push(JSON.parse(line)); } catch { this.dropped++; this.spoolCount--; }
+    }
+    if (used === 0) throw new Error(`spool line longer than ${SPOOL_READ_BYTES} bytes`);
+    if (items.length) this.spoolHeadTime = items[0].time;
+    return { items, spoolBytes: used };
+  }
+
+  private async flush() {
+    try {
+      let batch;
+      while (!this.stopped && (batch = await this.nextBatch())) {
+        let ok = true;
+        try {
+          if (batch.items.length) await this.post(batch.items);
+        } catch (err) {
+          if (!(err instanceof PermanentError)) throw err;
+          ok = false;
+          this.failures++;
+          this.lastError = err.message;
+          this.dropped += batch.items.length;
+          console.warn(`[sink:${this.name}] dropping batch of ${batch.items.length}: ${err.message}`);
+        }
+        await this.commit(batch.items.length, batch.spoolBytes);
+        if (ok && batch.items.length) {
+          this.delivered += batch.items.length;
+          this.lastDeliveredId = batch.items[batch.items.length - 1].id;
+          this.lastError = null;
+        }
+      }
+      this.backoffMs = 0;
+    } catch (err) {
+      this.failures++;
+      this.lastError = err instanceof Error ? err.message : String(err);
+      this.backoffMs = Math.min(Math.max(this.backoffMs * 2, this.opts.retryInitialMs), this.opts.retryMaxMs);
+      console.warn(`[sink:${this.name}] delivery failed (retry in ${this.backoffMs}ms): ${this.lastError}`);
+    }
+  }
+
+  private async commit(count: number, spoolBytes: number) {
+    if (spoolBytes === 0) {
+      this.queue.splice(0, count);
+      return;
+    }
+    this.spoolPos += spoolBytes;
+    this.spoolCount -= count;
+    if (this.spoolPos >= this.spoolSize && !this.spoolBuf.length && !this.spoolWriting) {
+      // 読み切ったら空にする
+      await fs.promises.truncate(this.spoolFile!, 0);
+      this.spoolPos = this.spoolSize = this.spoolCount = 0;
+      this.spoolHeadTime = null;
+    }
+    await fs.promises.writeFile(`${this.spoolFile}.pos`, String(this.spoolPos));
+  }
+
+  private async post(items: ZabbixRtxEnvelope[]) {
+    const res = await fetch(this.opts.url, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json', ...this.opts.headers },
+      body: JSON.stringify({ sink: this.name, items }),
+      signal: AbortSignal.timeout(this.opts.timeoutMs),
+    });
+    try { await res.arrayBuffer(); } catch { }
+    if (res.ok) return;
+    const msg = `HTTP ${res.status} from ${this.opts.url}`;
+    if (res.status >= 400 && res.status < 500 && res.status !== 408 && res.status !== 429) throw new PermanentError(msg);
+    throw new Error(msg);
+  }
+}
+
+// ローテート済みファイルの <name> より後ろ（-<ISO 時刻の : と . を - に置き換えたもの>.ndjson）
+const ROTATED_SUFFIX = /^-\d{4}-\d{2}-\d{2}T\d{2}-\d{2}-\d{2}-\d{3}Z\.ndjson$/;
+
+/**
+ * NDJSON（1 行 = 1 エンベロープ）で <dir>/<name>.ndjson に追記し、サイズ / 経過時間で
+ * <name>-<時刻>.ndjson にローテートする。書き込み待ちが maxQueue を超えた分は破棄。
+ */
+export class FileSink implements Sink {
+  readonly name: string;
+  private filter: EventFilter;
+  private opts: FileSinkOptions;
+  private file: string;
+
+  private queue: ZabbixRtxEnvelope[] = [];
+  private writing: Promise<void> | null = null;
+  private retryTimer: NodeJS.Timeout | null = null;
+  private fd: fs.promises.FileHandle | null = null;
+  private size = 0;
+  private openedAt = 0;
+  private stopped = false;
+
+  private delivered = 0;
+  private dropped = 0;
+  private failures = 0;
+  private lastDeliveredId: number | null = null;
+  private lastError: string | null = null;
+
+  constructor(name: string, filter: EventFilter, opts: FileSinkOptions) {
+    this.name = name;
+    this.filter = filter;
+    this.opts = opts;
+    this.file = path.join(opts.dir, `${name}.ndjson`);
+  }
+
+  async start() {
+    await fs.promises.mkdir(this.opts.dir, { recursive: true });
+  }
+
+  push(env: ZabbixRtxEnvelope) {
+    if (this.stopped || !this.filter.matches(env)) return;
+    if (this.queue.length >= this.opts.maxQueue) { this.dropped++; return; }
+    this.queue.push(env);
+    this.schedule();
+  }
+
+  stats(): SinkStats {
+    const oldest = this.queue[0]?.time;
+    return {
+      name: this.name,
+      type: 'file',
+      pending: this.queue.length,
+      delivered: this.delivered,
+      dropped: this.dropped,
+      failures: this.failures,
+      lastDeliveredId: this.lastDeliveredId,
+      lagMs: oldest != null ? Math.max(0, Date.now() - oldest) : 0,
+      lastError: this.lastError,
+    };
+  }
+
+  async stop() {
+    this.stopped = true;
+    if (this.retryTimer) { clearTimeout(this.retryTimer); this.retryTimer = null; }
+    while (this.writing) await this.writing;
+    if (this.queue.length) {
+      try { await this.drain(); } catch (err) { console.warn(`[sink:${this.name}] final write failed: ${err}`); }
+    }
+    if (this.fd) { try { await this.fd.close(); } catch { } this.fd = null; }
+  }
+
+  // 同一 tick の push をまとめて 1 回の write にする
+  private schedule() {
+    if (this.writing || this.retryTimer) return;
+    this.writing = new Promise<void>(resolve => setImmediate(resolve))
+      .then(() => this.drain())
+      .catch(err => {
+        this.failures++;
+        this.lastError = err instanceof Error ? err.message : String(err);
+        console.warn(`[sink:${this.name}] write failed: ${this.lastError}`);
+        if (this.fd) { this.fd.close().catch(() => { }); this.fd = null; }
+        if (!this.stopped) this.retryTimer = setTimeout(() => { this.retryTimer = null; this.schedule(); }, 1000);
+      })
+      .finally(() => {
+        this.writing = null;
+        if (this.queue.length && !this.retryTimer && !this.stopped) this.schedule();
+      });
+  }
+
+  private async drain() {
+    while (this.queue.length) {
+      if (!this.fd) await this.open();
+      else if (this.size >= this.opts.maxBytes || (this.opts.rotateMs > 0 && Date.now() - this.openedAt >= this.opts.rotateMs)) await this.rotate();
+      const batch = this.queue.slice(0, 1000);
+      const data = Buffer.from(batch.map(e => JSON.stringify(e) + '\n').join(''), 'utf8');
+      await this.fd!.write(data);
+      this.queue.splice(0, batch.length);
+      this.size += data.length;
+      this.delivered += batch.length;
+      this.lastDeliveredId = batch[batch.length - 1].id;
+      this.lastError = null;
+    }
+  }
+
+  private async open() {
+    this.fd = await fs.promises.open(this.file, 'a');
+    this.size = (await this.fd.stat()).size;
+    this.openedAt = Date.now();
+  }
+
+  private async rotate() {
+    if (this.fd) { try { await this.fd.close(); } catch { } this.fd = null; }
+    const stamp = new Date().toISOString().replace(/[:.]/g, '-');
+    await fs.promises.rename(this.file, path.join(this.opts.dir, `${this.name}-${stamp}.ndjson`));
+    await this.prune();
+    await this.open();
+  }
+
+  // rotate() が付けた名前だけを対象にする（前方一致だけだと同じディレクトリの別シンク <name>-x のファイルも消してしまう）
+  private async prune() {
+    const rotated = (await fs.promises.readdir(this.opts.dir))
+      .filter(n => n.startsWith(this.name) && ROTATED_SUFFIX.test(n.slice(this.name.length)))
+      .sort();
+    for (const n of rotated.slice(0, Math.max(0, rotated.length - this.opts.keep))) {
+      try { await fs.promises.unlink(path.join(this.opts.dir, n)); } catch (err) { console.warn(`[sink:${this.name}] unlink error file=${n} err=${err}`); }
+    }
+  }
+}
+
+export function createSink(cfg: SinkConfig, filter: EventFilter): Sink {
+  switch (cfg.type) {
+    case 'webhook': return new WebhookSink(cfg.name, filter, cfg);
+    case 'file': return new FileSink(cfg.name, filter, cfg);
+  }
+}
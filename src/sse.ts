@@ -0,0 +1,221 @@
+import http from 'node:http';
+import type { EventFilter, SystemOrigin } from './filter.js';
+import { eventName } from './records.js';
+import { drainBelow, type ReplayTarget } from './replay.js';
+import type { ZabbixRtxEnvelope } from './types.js';
+
+export function ssePacket(event: string, payload: unknown, id?: number): string {
+  const data = typeof payload === 'string' ? payload : JSON.stringify(payload);
+  const lines: string[] = [];
+  if (id != null) lines.push(`id: ${id}\n`);
+  if (event) lines.push(`event: ${event}\n`);
+  lines.push(`data: ${data}\n\n`);
+  return lines.join('');
+}
+
+// 送信待ちが閾値を超えた（遅い）クライアントの扱い
+//   drop       : 破棄し、送信待ちが捌けたら gap イベントで欠落 ID 範囲を通知
+//   disconnect : 破棄が maxDrops 回に達したら切断
+//   replay     : 捌けるまで送らず、捌けたら欠落範囲をリング / ジャーナルから再送
+export const SLOW_POLICIES = ['drop', 'disconnect', 'replay'] as const;
+export type SlowPolicy = typeof SLOW_POLICIES[number];
+
+export interface SlowConsumerOptions {
+  policy: SlowPolicy;
+  maxDrops: number;
+}
+
+export interface SseHubDeps {
+  /** ReplayTarget に sinceId 以降を送り、最後に live() を同期的に呼ぶ */
+  replay(sinceId: number, filter: EventFilter, target: ReplayTarget, live: () => void): Promise<void>;
+  payload(env: ZabbixRtxEnvelope): unknown;
+}
+
+interface SseClient {
+  filter: EventFilter;
+  slow: SlowConsumerOptions;
+  drops: number;          // 累計破棄数（disconnect 判定）
+  gaps: [number, number][]; // 未通知の欠落 ID 範囲
+  untracked: number;      // ID を持たないイベント（problem.opened 等）の未通知破棄数
+  lagging: boolean;       // replay: 捌けるまで送信停止中
+  replaying: boolean;     // replay: 欠落範囲を再送中
+  waiting: boolean;       // drain 待ち
+}
+
+const MAX_GAP_RANGES = 100;
+
+/** 欠落した ID を範囲の列に加える（連続する ID は 1 範囲にまとめ、範囲数が上限を超えたら先頭から併合） */
+export function pushGap(gaps: [number, number][], id: number) {
+  const last = gaps[gaps.length - 1];
+  if (last && last[1] === id - 1) last[1] = id;
+  else gaps.push([id, id]);
+  if (gaps.length > MAX_GAP_RANGES) {
+    const [a, b] = gaps.splice(0, 2);
+    gaps.unshift([a[0], b[1]]);
+  }
+}
+
+export class SseHub {
+  private clients = new Map<http.ServerResponse, SseClient>();
+  private timer: NodeJS.Timeout | null = null;
+  private dropThreshold: number;
+  private slow: SlowConsumerOptions;
+  private deps: SseHubDeps;
+  dropped = 0; // 送信待ち超過で破棄したメッセージ数
+  disconnected = 0; // disconnect ポリシーで切断したクライアント数
+
+  constructor(deps: SseHubDeps, opts: { dropThreshold: number; slow: SlowConsumerOptions }) {
+    this.deps = deps;
+    this.dropThreshold = opts.dropThreshold;
+    this.slow = opts.slow;
+  }
+
+  get size() { return this.clients.size; }
+
+  /** slow を省略するとグローバル設定を使う */
+  add(res: http.ServerResponse, filter: EventFilter, slow?: Partial<SlowConsumerOptions>) {
+    this.clients.set(res, {
+      filter,
+      slow: { ...this.slow, ...slow },
+      drops: 0,
+      gaps: [],
+      untracked: 0,
+      lagging: false,
+      replaying: false,
+      waiting: false
+    });
+  }
+  delete(res: http.ServerResponse) { this.clients.delete(res); }
+
+  heartbeatStart(intervalMs: number) {
+    this.heartbeatStop();
+    this.timer = setInterval(() => {
+      const pkt = `: hb ${Date.now()}\n\n`;
+      for (const res of this.clients.keys()) {
+        if (this.writable(res) && this.pending(res) < this.dropThreshold) this.write(res, pkt);
+      }
+    }, intervalMs);
+  }
+  heartbeatStop() { if (this.timer) clearInterval(this.timer); this.timer = null; }
+
+  // Close all clients and stop heartbeat
+  close() {
+    this.heartbeatStop();
+    for (const res of this.clients.keys()) {
+      try { res.end(); } catch { }
+    }
+    this.clients.clear();
+  }
+
+  private pending(res: http.ServerResponse): number {
+    const w = res as any;
+    return typeof w.writableLength === 'number' ? w.writableLength : 0;
+  }
+
+  private writable(res: http.ServerResponse): boolean {
+    const w = res as any;
+    if (w.writableEnded || w.destroyed || w.writable === false) { this.delete(res); return false; }
+    return true;
+  }
+
+  private write(res: http.ServerResponse, pkt: string) {
+    try {
+      res.write(pkt);
+    } catch {
+      try { res.end(); } catch { }
+      this.delete(res);
+    }
+  }
+
+  private safeWrite(res: http.ServerResponse, c: SseClient, pkt: string, id?: number) {
+    if (!this.writable(res)) return;
+    if (c.replaying) {
+      // ID 付きは再送完了時点までのリングの内容として送られる
+      if (id == null) { this.dropped++; c.untracked++; }
+      return;
+    }
+    if (!c.lagging && this.pending(res) < this.dropThreshold) return this.write(res, pkt);
+
+    // drop this message for this client
+    this.dropped++;
+    c.drops++;
+    if (id == null) c.untracked++;
+    else pushGap(c.gaps, id);
+
+    if (c.slow.policy === 'disconnect' && c.drops >= c.slow.maxDrops) {
+      this.disconnected++;
+      this.delete(res);
+      try { res.end(); } catch { }
+      return;
+    }
+    if (c.slow.policy === 'replay') c.lagging = true;
+    if (!c.waiting) {
+      c.waiting = true;
+      this.waitDrain(res, c);
+    }
+  }
+
+  // 送信待ちが捌けたら recover する（時間切れでも切断されるまで待ち続ける）
+  private waitDrain(res: http.ServerResponse, c: SseClient) {
+    const gone = () => this.clients.get(res) !== c;
+    drainBelow(this.dropThreshold, () => this.pending(res), gone)
+      .then(() => this.recover(res, c), () => this.waitDrain(res, c));
+  }
+
+  // 送信待ちが捌けた後の欠落通知 / 再送
+  private recover(res: http.ServerResponse, c: SseClient) {
+    if (!c.waiting || this.clients.get(res) !== c) return;
+    c.waiting = false;
+    const gaps = c.gaps;
+    const untracked = c.untracked;
+    c.gaps = [];
+    c.untracked = 0;
+
+    if (c.slow.policy !== 'replay' || gaps.length === 0) {
+      c.lagging = false;
+      if (gaps.length || untracked) this.write(res, ssePacket('gap', { ranges: gaps, untracked }));
+      return;
+    }
+
+    // 欠落の先頭から再送し、再送完了と同時にライブ配信へ戻す（lagging 中の破棄分も含めて再送される）
+    const sinceId = gaps[0][0] - 1;
+    if (untracked) this.write(res, ssePacket('gap', { ranges: [], untracked }));
+    c.replaying = true;
+    const closed = () => !this.clients.has(res) || res.writableEnded || res.destroyed;
+    this.deps.replay(sinceId, c.filter, {
+      closed,
+      reset: info => this.write(res, ssePacket('reset', info)),
+      send: env => this.write(res, ssePacket(eventName(env), this.deps.payload(env), env.id)),
+      drained: () => drainBelow(this.dropThreshold, () => this.pending(res), closed),
+    }, () => {
+      c.replaying = false;
+      c.lagging = false;
+      if (c.untracked) {
+        this.write(res, ssePacket('gap', { ranges: [], untracked: c.untracked }));
+        c.untracked = 0;
+      }
+    }).catch(err => {
+      console.warn(`[sse] slow-consumer replay error: ${err}`);
+      c.replaying = false;
+      c.lagging = false;
+      this.write(res, ssePacket('gap', { ranges: gaps, untracked: 0 }));
+    });
+  }
+
+  // env を渡すとクライアントごとのフィルタで判定する
+  broadcast(event: string, payload: unknown, id?: number, env?: ZabbixRtxEnvelope) {
+    this.fanout(ssePacket(event, payload, id), id, env && (f => f.matches(env)));
+  }
+
+  /** システムイベント。発生元の source / family で判定する */
+  broadcastSystem(event: string, payload: unknown, origin: SystemOrigin) {
+    this.fanout(ssePacket(event, payload), undefined, f => f.matchesSystem(origin));
+  }
+
+  private fanout(pkt: string, id: number | undefined, match?: (f: EventFilter) => boolean) {
+    for (const [res, c] of this.clients) {
+      if (match && !match(c.filter)) continue;
+      this.safeWrite(res, c, pkt, id);
+    }
+  }
+}
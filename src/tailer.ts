@@ -1,37 +1,200 @@
 import fs from 'node:fs';
 import path from 'node:path';
 import { EventEmitter } from 'node:events';
-import type { Family } from './types.js';
+import type { Family, ZabbixRecord, ZabbixRtxSource } from './types.js';
+import { parseRecord } from './records.js';
+import type { CheckpointStore } from './checkpoint.js';
+import { LineSplitter } from './lines.js';
+
+// チェックポイントの inode が一致しない（ローテート済み等）ときの開始位置
+export type MismatchPolicy = 'start' | 'end';
+
+interface TailOptions {
+  intervalMs: number;
+  maxBackoffMs: number;
+  startAtEnd: boolean;           // チェックポイントが無いときの開始位置
+  maxLineBytes: number;          // これを超える行は読み捨てる
+  scheduler: PollScheduler;
+  checkpoints?: CheckpointStore;
+  onInodeMismatch: MismatchPolicy;
+  hold?: boolean;                // 再生モード: data を emit せず保持し、take() で取り出させる
+}
+
+// 再生モード（記録済みのエクスポートを先頭から読み、レコードの clock に合わせて流す）
+export interface ReplayOptions {
+  speed: number;        // 再生速度の倍率（0 = 待たずに最速）
+  loop: boolean;        // 全ファイルを流し終えたら先頭から繰り返す
+  from: number | null;  // clock（UNIX 秒）の範囲。範囲外のレコードは流さない
+  to: number | null;
+}
+
+const HOLD_HIGH_WATER = 1000; // 再生モードでファイルごとに先読みするレコード数
+const REPLAY_POLL_MS = 20;
+const REPLAY_MAX_WAIT_MS = 1000;
+const REPLAY_BATCH = 1000;    // speed=0 で 1 回に流す上限（イベントループを譲る）
+const READ_CHUNK = 256 * 1024;
+
+function clockOf(r: ZabbixRecord): number {
+  return r.clock + ('ns' in r ? r.ns / 1e9 : 0);
+}
+
+export interface TailerStats {
+  file: string;
+  open: boolean;
+  inode: number | null;
+  offset: number;
+  size: number;       // 直近の stat で得たサイズ
+  lines: number;      // 読み取った行数（parse_error 含む）
+  bytes: number;
+  reopens: number;
+  shrinks: number;
+  parseErrors: number;
+  oversized: number;  // maxLineBytes を超えて読み捨てた行数（lines に含む）
+  lastLineAt: number | null;   // 最後に行を読んだ時刻（ms）
+  lastGrowthAt: number | null; // 最後にサイズが増えた（または開いた）時刻（ms）。停滞検知に使う
+  lastWarn: { at: number; msg: string; err: string | null } | null;
+}
+
+// <type>-<process>-<index>.ndjson（例: history-history-syncer-3.ndjson, problems-task-manager-1.ndjson）
+const EXPORT_FILE_RE = /^(problems|history|trends)-(.+)-(\d+)\.ndjson$/;
+
+export function classifyFile(base: string): Omit<ZabbixRtxSource, 'name'> {
+  const m = EXPORT_FILE_RE.exec(base);
+  if (m) return { file: base, family: m[1] as Family, process: m[2], index: Number(m[3]) };
+  const family: Family =
+    base.startsWith('problems-') ? 'problems' :
+      base.startsWith('history-') ? 'history' :
+        base.startsWith('trends-') ? 'trends' :
+          'other';
+  return { file: base, family, process: null, index: null };
+}
+
+// ディレクトリ内の全ファイルのポーリングを 1 つのタイマーで回す。
+// poll() は次回までの待ち時間を返し、fs.watch の通知（wake）はその待ちを打ち切る。
+// poll 中に wake されたら、終わった直後にもう一度 poll する（読み取り中の追記を待たせない）。
+class PollScheduler {
+  private members = new Set<NdjsonTailer>();
+  private due = new Map<NdjsonTailer, number>(); // 次回 poll の時刻（poll 中のものは含まない）
+  private running = new Set<NdjsonTailer>();
+  private again = new Set<NdjsonTailer>();
+  private timer: NodeJS.Timeout | null = null;
+  private timerAt = Infinity;
+
+  add(t: NdjsonTailer) {
+    this.members.add(t);
+    this.wake(t);
+  }
+
+  remove(t: NdjsonTailer) {
+    this.members.delete(t);
+    this.due.delete(t);
+    this.again.delete(t);
+    this.arm();
+  }
+
+  wake(t: NdjsonTailer) {
+    if (!this.members.has(t)) return;
+    if (this.running.has(t)) {
+      this.again.add(t);
+      return;
+    }
+    this.due.set(t, 0);
+    this.arm();
+  }
+
+  wakeAll() {
+    for (const t of this.members) this.wake(t);
+  }
+
+  close() {
+    this.members.clear();
+    this.due.clear();
+    this.again.clear();
+    this.arm();
+  }
+
+  // 最も早い予定に合わせてタイマーを張り直す
+  private arm() {
+    let next = Infinity;
+    for (const at of this.due.values()) if (at < next) next = at;
+    if (this.timer && this.timerAt <= next) return;
+    if (this.timer) clearTimeout(this.timer);
+    this.timer = null;
+    this.timerAt = next;
+    if (next === Infinity) return;
+    this.timer = setTimeout(() => this.run(), Math.max(0, next - Date.now()));
+  }
+
+  private run() {
+    this.timer = null;
+    this.timerAt = Infinity;
+    const now = Date.now();
+    for (const [t, at] of this.due) {
+      if (at > now) continue;
+      this.due.delete(t);
+      this.running.add(t);
+      t.poll().then(delayMs => {
+        this.running.delete(t);
+        if (!this.members.has(t)) return;
+        this.due.set(t, this.again.delete(t) ? 0 : Date.now() + delayMs);
+        this.arm();
+      });
+    }
+    this.arm();
+  }
+}
 
 class NdjsonTailer extends EventEmitter {
   private filePath: string;
-  private dir: string;
-  private base: string;
 
   private intervalMs: number;
   private maxBackoffMs: number;
   private startAtEnd: boolean;
+  private checkpoints: CheckpointStore | undefined;
+  private onInodeMismatch: MismatchPolicy;
+  private scheduler: PollScheduler;
+  private hold: boolean;
+  private held: ZabbixRecord[] = [];
+  private resumeRead: (() => void) | null = null;
 
   private fd: fs.promises.FileHandle | null = null;
   private offset = 0;
   private inode: number | null = null;
-  private buffer = '';
-  private timer: NodeJS.Timeout | null = null;
+  private splitter: LineSplitter;
+  private chunk: Buffer | null = null; // 読み取り用（開いている間だけ持つ）
+  private parseErrors = 0;
+  private oversized = 0;
+  private size = 0;
+  private lines = 0;
+  private bytes = 0;
+  private opens = 0;
+  private shrinks = 0;
+  private lastLineAt: number | null = null;
+  private lastGrowthAt: number | null = null;
+  private lastWarn: TailerStats['lastWarn'] = null;
   private stopped = false;
-  private looping = false;
+  private polling = false;
+  private polled = false; // 最初のポーリングを終えた
+  private emitted = 0;    // 今回の poll で emit（hold では保持）した件数
 
-  private watcher: fs.FSWatcher | null = null;
   private idleBackoffMs: number;
 
-  constructor(filePath: string, opts: { intervalMs: number; maxBackoffMs: number; startAtEnd: boolean }) {
+  constructor(filePath: string, opts: TailOptions) {
     super();
     this.filePath = filePath;
-    this.dir = path.dirname(filePath);
-    this.base = path.basename(filePath);
 
     this.intervalMs = opts.intervalMs;
     this.maxBackoffMs = opts.maxBackoffMs;
     this.startAtEnd = opts.startAtEnd;
+    this.checkpoints = opts.checkpoints;
+    this.onInodeMismatch = opts.onInodeMismatch;
+    this.scheduler = opts.scheduler;
+    this.hold = opts.hold ?? false;
+    this.splitter = new LineSplitter({
+      maxLineBytes: opts.maxLineBytes,
+      onLine: line => this.onLine(line),
+      onOversized: bytes => this.onOversized(bytes),
+    });
 
     this.idleBackoffMs = this.intervalMs;
   }
@@ -40,65 +203,110 @@ class NdjsonTailer extends EventEmitter {
   override on(event: 'ready', listener: (info: { file: string; size: number; inode: number }) => void): this;
   override on(event: 'info', listener: (info: Record<string, unknown>) => void): this;
   override on(event: 'warn', listener: (info: Record<string, unknown>) => void): this;
-  override on(event: 'parse_error', listener: (info: { file: string; line: string; err: unknown }) => void): this;
-  override on(event: 'data', listener: (info: { file: string; record: unknown }) => void): this;
+  override on(event: 'parse_error', listener: (info: { file: string; line: string; err: unknown; count: number }) => void): this;
+  override on(event: 'data', listener: (info: { file: string; record: ZabbixRecord }) => void): this;
   override on(event: string, listener: (...args: any[]) => void): this { return super.on(event, listener); }
 
+  stats(): TailerStats {
+    return {
+      file: this.filePath,
+      open: this.fd != null,
+      inode: this.inode,
+      offset: this.offset,
+      size: this.size,
+      lines: this.lines,
+      bytes: this.bytes,
+      reopens: Math.max(0, this.opens - 1),
+      shrinks: this.shrinks,
+      parseErrors: this.parseErrors,
+      oversized: this.oversized,
+      lastLineAt: this.lastLineAt,
+      lastGrowthAt: this.lastGrowthAt,
+      lastWarn: this.lastWarn
+    };
+  }
+
+  /** hold: 保持中の先頭レコード */
+  peek(): ZabbixRecord | undefined {
+    return this.held[0];
+  }
+
+  /** hold: 先頭レコードを取り出す（先読みが減ったら読み取りを再開） */
+  take(): ZabbixRecord | undefined {
+    const r = this.held.shift();
+    if (this.resumeRead && this.held.length < HOLD_HIGH_WATER / 2) {
+      this.resumeRead();
+      this.resumeRead = null;
+    }
+    return r;
+  }
+
+  /** hold: EOF まで読み、保持分も取り出し済み（開けないファイルも含む） */
+  exhausted(): boolean {
+    return this.polled && !this.polling && this.held.length === 0 && (this.fd == null || this.offset >= this.size);
+  }
+
   async start() {
     this.stopped = false;
     await this.openFile();
-    this.startWatcher();
-    this.loop();
+    if (this.stopped) await this.closeFile(); // openFile 中に stop された
+    else this.scheduler.add(this);
   }
 
-  async stop() {
+  /** drain: ファイル消失時など、閉じる前に旧 inode を EOF まで読み切る */
+  async stop(opts: { drain?: boolean } = {}) {
     console.log(`[tailer.stop] start file=${this.filePath}`);
     this.stopped = true;
-    if (this.timer) { clearTimeout(this.timer); this.timer = null; }
-    this.stopWatcher();
+    this.scheduler.remove(this);
+    this.resumeRead?.();
+    if (opts.drain) {
+      while (this.polling) await new Promise(r => setTimeout(r, 10));
+      const recovered = await this.drainRotated();
+      if (recovered > 0) this.emit('info', { msg: 'file removed -> drained old inode', file: this.filePath, inode: this.inode, recovered });
+    }
     await this.closeFile();
     console.log(`[tailer.stop] complete file=${this.filePath}`);
   }
 
-  private startWatcher() {
-    try {
-      this.watcher = fs.watch(this.dir, (_eventType, filename) => {
-        if (filename && filename !== this.base) return;
-        this.poke();
-      });
-      this.watcher.on('error', (err) => {
-        this.emit('warn', { msg: 'fs.watch error', err, file: this.filePath });
-        this.poke(true);
-      });
-    } catch (err) {
-      this.emit('warn', { msg: 'startWatcher failed', err, file: this.filePath });
-    }
-  }
-
-  private stopWatcher() {
-    try { this.watcher?.close(); } catch { }
-    this.watcher = null;
-  }
-
-  private poke(forceResync = false) {
-    if (forceResync) {
-      this.closeFile().then(() => this.openFile());
-    }
-    this.idleBackoffMs = this.intervalMs;
-    if (this.timer) { clearTimeout(this.timer); this.timer = null; }
-    this.loop();
+  // 直近の warn は health に残す
+  private warn(info: { msg: string; err?: unknown; file: string; [k: string]: unknown }) {
+    this.lastWarn = { at: Date.now(), msg: info.msg, err: info.err == null ? null : String(info.err) };
+    this.emit('warn', info);
   }
 
-  private async openFile() {
+  // rotated: ローテーション直後の新ファイルは先頭から読む
+  private async openFile(rotated = false) {
     try {
       const stats = await fs.promises.stat(this.filePath);
       this.inode = stats.ino;
       this.fd = await fs.promises.open(this.filePath, 'r');
-      this.offset = this.startAtEnd ? stats.size : 0;
+      this.offset = rotated ? 0 : this.initialOffset(stats);
+      this.size = stats.size;
+      this.splitter.reset();
+      this.opens++;
+      this.lastGrowthAt = Date.now();
       this.emit('ready', { file: this.filePath, size: stats.size, inode: stats.ino });
     } catch (err) {
-      this.emit('warn', { msg: 'openFile failed', err, file: this.filePath });
+      this.warn({ msg: 'openFile failed', err, file: this.filePath });
+    }
+  }
+
+  private initialOffset(stats: fs.Stats): number {
+    const cp = this.checkpoints?.get(this.filePath);
+    if (!cp) return this.startAtEnd ? stats.size : 0;
+    if (cp.inode === stats.ino && cp.offset <= stats.size) {
+      this.emit('info', { msg: 'resume from checkpoint', file: this.filePath, inode: cp.inode, offset: cp.offset });
+      return cp.offset;
     }
+    const offset = this.onInodeMismatch === 'end' ? stats.size : 0;
+    this.emit('info', { msg: 'checkpoint mismatch -> fallback', file: this.filePath, policy: this.onInodeMismatch, checkpoint: cp, inode: stats.ino, size: stats.size, offset });
+    return offset;
+  }
+
+  // 最後に emit し終えた行の直後（未完の行・読み捨て中の行を除く）を記録
+  private saveCheckpoint() {
+    if (!this.checkpoints || this.inode == null) return;
+    this.checkpoints.set(this.filePath, this.inode, this.offset - this.splitter.pending);
   }
 
   private async closeFile() {
@@ -106,22 +314,28 @@ class NdjsonTailer extends EventEmitter {
       try { await this.fd.close(); } catch { }
       this.fd = null;
     }
+    this.chunk = null;
   }
 
-  private async loop() {
-    if (this.stopped) return;
-    if (this.looping) return;
-    this.looping = true;
+  /** 1 回分の読み取り。次回までの待ち時間（ms）を返す（PollScheduler から呼ぶ。失敗しない） */
+  async poll(): Promise<number> {
+    if (this.stopped || this.polling) return this.idleBackoffMs;
+    this.polling = true;
+    this.emitted = 0;
 
     let progressed = false;
     try {
       const stats = await fs.promises.stat(this.filePath);
+      if (stats.size > this.size) this.lastGrowthAt = Date.now();
+      this.size = stats.size;
 
       if (this.inode != null && stats.ino !== this.inode) {
-        this.emit('info', { msg: 'inode changed -> reopen', file: this.filePath, old: this.inode, new: stats.ino });
+        const recovered = await this.drainRotated();
+        progressed = recovered > 0;
+        this.emit('info', { msg: 'inode changed -> drained old inode, reopen', file: this.filePath, old: this.inode, new: stats.ino, recovered });
         await this.closeFile();
         this.inode = stats.ino;
-        await this.openFile();
+        await this.openFile(true);
       }
 
       if (!this.fd) {
@@ -129,84 +343,172 @@ class NdjsonTailer extends EventEmitter {
       } else if (stats.size < this.offset) {
         this.emit('info', { msg: 'size shrank -> reset offset', file: this.filePath, from: this.offset, to: 0 });
         this.offset = 0;
-        this.buffer = '';
+        this.splitter.reset();
+        this.shrinks++;
+        this.saveCheckpoint();
       } else if (stats.size > this.offset) {
-        const toRead = stats.size - this.offset;
-        const chunk = Buffer.allocUnsafe(Math.min(toRead, 64 * 1024));
-        let readTotal = 0;
-
-        while (readTotal < toRead) {
-          const len = Math.min(chunk.length, toRead - readTotal);
-          const { bytesRead } = await this.fd.read(chunk, 0, len, this.offset + readTotal);
-          if (bytesRead === 0) break;
-          readTotal += bytesRead;
-          this.onBytes(chunk.subarray(0, bytesRead));
-        }
-
-        this.offset += readTotal;
-        progressed = readTotal > 0;
+        progressed = (await this.readTo(this.fd, stats.size)) > 0 || progressed;
+        // 再生対象は追記されない前提なので、改行で終わらない最終行も確定させる
+        if (this.hold && this.offset >= stats.size) this.splitter.flush();
+        this.saveCheckpoint();
       }
-    } catch (err) {
-      this.emit('warn', { msg: 'poll error', err, file: this.filePath });
+    } catch (err: any) {
+      this.warn({ msg: 'poll error', err, file: this.filePath });
+      // rename 直後で新ファイルがまだ無い場合も、閉じる前に旧 inode を読み切る
+      if (err?.code === 'ENOENT' && this.fd) {
+        const recovered = await this.drainRotated();
+        if (recovered > 0) this.emit('info', { msg: 'file missing -> drained old inode', file: this.filePath, inode: this.inode, recovered });
+      }
+      const old = this.inode;
       await this.closeFile();
-      await this.openFile();
+      // 閉じるまでに新しいファイルが作られていた（inode が変わった）ならローテーション後なので先頭から読む
+      const rotated = old != null && await fs.promises.stat(this.filePath).then(s => s.ino !== old, () => false);
+      await this.openFile(rotated);
     } finally {
-      this.looping = false;
-      if (!this.stopped) {
-        this.idleBackoffMs = progressed ? this.intervalMs : Math.min(this.idleBackoffMs * 2, this.maxBackoffMs);
-        this.timer = setTimeout(() => this.loop(), this.idleBackoffMs);
+      this.polling = false;
+      this.polled = true;
+      if (this.emitted > 0) this.emit('info', { msg: `emitted ${this.emitted} events`, file: this.filePath });
+      this.idleBackoffMs = progressed ? this.intervalMs : Math.min(this.idleBackoffMs * 2, this.maxBackoffMs);
+    }
+    return this.idleBackoffMs;
+  }
+
+  // offset から size まで読み進め、読んだバイト数を返す
+  private async readTo(fd: fs.promises.FileHandle, size: number): Promise<number> {
+    const toRead = size - this.offset;
+    if (toRead <= 0) return 0;
+    // 読み取り用のバッファは使い回す（未完の行は splitter がコピーして持つ）
+    const chunk = this.chunk ??= Buffer.allocUnsafe(READ_CHUNK);
+    let readTotal = 0;
+
+    while (readTotal < toRead) {
+      if (this.hold && this.held.length >= HOLD_HIGH_WATER) {
+        await new Promise<void>(r => { this.resumeRead = r; });
+        if (this.stopped) break;
       }
+      const len = Math.min(chunk.length, toRead - readTotal);
+      const { bytesRead } = await fd.read(chunk, 0, len, this.offset + readTotal);
+      if (bytesRead === 0) break;
+      readTotal += bytesRead;
+      this.bytes += bytesRead;
+      this.splitter.push(chunk.subarray(0, bytesRead));
     }
+
+    this.offset += readTotal;
+    return readTotal;
   }
 
-  private onBytes(bytes: Buffer) {
-    let newLines = 0;
-    this.buffer += bytes.toString('utf8');
-    let idx: number;
-    while ((idx = this.buffer.indexOf('\n')) !== -1) {
-      const line = this.buffer.slice(0, idx).replace(/\r$/, '');
-      this.buffer = this.buffer.slice(idx + 1);
-      if (!line) continue;
-      this.emit('data', { file: this.filePath, record: line });
-      newLines++;
+  // ローテーション（rename -> 新規作成）された旧 inode を EOF まで読み切る。
+  // 開いたままのハンドルを優先し、未オープンなら同じ inode の `.old` を開く。
+  private async drainRotated(): Promise<number> {
+    let fd = this.fd;
+    let own = false;
+    try {
+      if (!fd) {
+        const old = `${this.filePath}.old`;
+        const st = await fs.promises.stat(old);
+        if (st.ino !== this.inode) return 0;
+        fd = await fs.promises.open(old, 'r');
+        own = true;
+      }
+      const st = await fd.stat();
+      if (st.ino !== this.inode || st.size < this.offset) return 0;
+      const recovered = await this.readTo(fd, st.size);
+      // 旧ファイルはもう追記されないので、改行で終わらない最終行もここで確定させる
+      this.splitter.flush();
+      this.saveCheckpoint();
+      return recovered;
+    } catch (err: any) {
+      if (err?.code !== 'ENOENT') this.warn({ msg: 'drain rotated failed', err, file: this.filePath });
+      return 0;
+    } finally {
+      if (own) { try { await fd!.close(); } catch { } }
     }
-    if (newLines > 0) {
-      this.emit('info', { msg: `emitted ${newLines} events from bytes`, file: this.filePath });
+  }
+
+  private onLine(line: string) {
+    if (!line) return;
+    this.lines++;
+    this.lastLineAt = Date.now();
+    let record: ZabbixRecord;
+    try {
+      record = parseRecord(line);
+    } catch (err) {
+      this.parseErrors++;
+      this.emit('parse_error', { file: this.filePath, line, err, count: this.parseErrors });
+      return;
     }
+    if (this.hold) this.held.push(record);
+    else this.emit('data', { file: this.filePath, record });
+    this.emitted++;
   }
 
+  private onOversized(bytes: number) {
+    this.lines++;
+    this.oversized++;
+    this.lastLineAt = Date.now();
+    this.warn({ msg: 'line too long -> skipped', file: this.filePath, bytes, count: this.oversized });
+  }
+}
+
+// ソース（ディレクトリ）単位の状態
+export interface SourceHealth {
+  name: string;
+  dir: string;
+  status: 'ok' | 'down';   // down: ディレクトリを読めない
+  lastError: string | null;
+  lastScanAt: number | null;
+  lastDataAt: number | null;
+  files: TailerStats[];
 }
 
 export class MultiNdjsonTailer extends EventEmitter {
+  private name: string;
   private dir: string;
   private patterns: RegExp[];
   private ignore: RegExp[];
-  private tailOpts: { intervalMs: number; maxBackoffMs: number; startAtEnd: boolean };
+  private tailOpts: TailOptions;
   private tailers = new Map<string, NdjsonTailer>();
+  private vanished = new Set<string>(); // 追跡中に消え、まだ開き直していないファイル（ローテーションの rename 直後など）
+  private scheduler = new PollScheduler();
   private watcher: fs.FSWatcher | null = null;
   private scanTimer: NodeJS.Timeout | null = null;
   private scanning = false;
   private stopped = false;
+  private scanError: string | null = null;
+  private lastScanAt: number | null = null;
+  private lastDataAt: number | null = null;
+  private replay: ReplayOptions | null;
+  private round = 0;
+  private pumpTimer: NodeJS.Timeout | null = null;
+  private anchor: { wall: number; clock: number } | null = null; // 再生開始時の壁時計と clock の対応
 
   constructor(dirPath: string, opts: {
+    name?: string;
     patterns?: RegExp[];
     ignorePatterns?: RegExp[];
     intervalMs?: number;
     maxBackoffMs?: number;
     startAtEnd?: boolean;
+    maxLineBytes?: number;
+    checkpoints?: CheckpointStore;
+    onInodeMismatch?: MismatchPolicy;
+    replay?: ReplayOptions;
   }) {
     super();
+    this.name = opts.name ?? 'default';
+    this.replay = opts.replay ?? null;
     this.dir = dirPath;
-    this.patterns = opts.patterns ?? [
-      /^(problems|history)-.*\.ndjson$/,
-      /^problems-.*-(main-process|task-manager)-\d+\.ndjson$/,
-      /^history-.*-(main-process|task-manager)-\d+\.ndjson$/
-    ];
+    this.patterns = opts.patterns ?? [/^(problems|history|trends)-.*\.ndjson$/];
     this.ignore = opts.ignorePatterns ?? [/\.old$/];
     this.tailOpts = {
       intervalMs: opts.intervalMs ?? 250,
       maxBackoffMs: opts.maxBackoffMs ?? 2000,
-      startAtEnd: opts.startAtEnd ?? true
+      startAtEnd: opts.startAtEnd ?? true,
+      maxLineBytes: opts.maxLineBytes ?? 1024 * 1024,
+      scheduler: this.scheduler,
+      checkpoints: opts.checkpoints,
+      onInodeMismatch: opts.onInodeMismatch ?? 'start'
     };
   }
 
@@ -214,12 +516,29 @@ export class MultiNdjsonTailer extends EventEmitter {
   override on(event: 'ready', listener: (info: { file: string; size: number; inode: number }) => void): this;
   override on(event: 'info', listener: (info: Record<string, unknown>) => void): this;
   override on(event: 'warn', listener: (info: Record<string, unknown>) => void): this;
-  override on(event: 'parse_error', listener: (info: { file: string; line: string; err: unknown }) => void): this;
-  override on(event: 'data', listener: (info: { file: string; family: Family; record: unknown }) => void): this;
+  override on(event: 'parse_error', listener: (info: { file: string; line: string; err: unknown; count: number }) => void): this;
+  override on(event: 'data', listener: (info: { file: string; source: ZabbixRtxSource; record: ZabbixRecord }) => void): this;
   override on(event: string, listener: (...args: any[]) => void): this { return super.on(event, listener); }
 
+  stats(): TailerStats[] {
+    return [...this.tailers.values()].map(t => t.stats());
+  }
+
+  health(): SourceHealth {
+    return {
+      name: this.name,
+      dir: this.dir,
+      status: this.scanError ? 'down' : 'ok',
+      lastError: this.scanError,
+      lastScanAt: this.lastScanAt,
+      lastDataAt: this.lastDataAt,
+      files: this.stats(),
+    };
+  }
+
   async start() {
     this.stopped = false;
+    if (this.replay) return this.startRound();
     await this.scanNow();
     this.startWatcher();
   }
@@ -228,6 +547,7 @@ export class MultiNdjsonTailer extends EventEmitter {
     this.stopped = true;
     this.stopWatcher();
     if (this.scanTimer) { clearTimeout(this.scanTimer); this.scanTimer = null; }
+    if (this.pumpTimer) { clearTimeout(this.pumpTimer); this.pumpTimer = null; }
 
     // Stop child tailers in parallel with per-tailer timeout to avoid long sequential shutdowns
     const stopPromises: Promise<void>[] = [];
@@ -246,13 +566,112 @@ export class MultiNdjsonTailer extends EventEmitter {
     }
     await Promise.allSettled(stopPromises);
     this.tailers.clear();
+    this.vanished.clear();
+    this.scheduler.close();
+  }
+
+  // ==== 再生モード ====
+  // ファイルごとに先頭から先読みし、全ファイルの先頭レコードのうち clock が最も古いものから順に、
+  // 最初のレコードからの経過（clock 差 / speed）に合わせて流す。チェックポイント・ディレクトリ監視は使わない。
+
+  private async startRound() {
+    this.round++;
+    this.anchor = null;
+    try {
+      const entries = (await fs.promises.readdir(this.dir))
+        .filter(n => this.patterns.some(p => p.test(n)))
+        .filter(n => !this.ignore.some(p => p.test(n)))
+        .sort();
+      this.scanError = null;
+      if (this.stopped) return; // readdir 中に stop された
+      for (const n of entries) {
+        const abs = path.join(this.dir, n);
+        const t = new NdjsonTailer(abs, { ...this.tailOpts, startAtEnd: false, checkpoints: undefined, hold: true });
+        this.tailers.set(abs, t);
+        t.on('ready', info => this.emit('ready', info));
+        t.on('info', info => this.emit('info', info));
+        t.on('warn', info => this.emit('warn', info));
+        t.on('parse_error', info => this.emit('parse_error', info));
+        t.start().catch(err => this.emit('warn', { msg: 'tailer start error', err, file: abs }));
+      }
+      this.emit('info', { msg: 'replay round started', dir: this.dir, round: this.round, files: entries.length });
+      this.pump();
+    } catch (err) {
+      this.scanError = err instanceof Error ? err.message : String(err);
+      this.emit('warn', { msg: 'scan error', err, dir: this.dir });
+      this.round--;
+      this.schedulePump(this.tailOpts.maxBackoffMs, () => this.startRound());
+    } finally {
+      this.lastScanAt = Date.now();
+    }
+  }
+
+  private schedulePump(ms: number, fn = () => this.pump()) {
+    if (this.stopped) return;
+    this.pumpTimer = setTimeout(() => { this.pumpTimer = null; fn(); }, ms);
+  }
+
+  private pump() {
+    if (this.stopped || !this.replay) return;
+    const { speed, from, to } = this.replay;
+    const tailers = [...this.tailers.entries()];
+    for (let emitted = 0; ;) {
+      // 全ファイルの先頭が揃うまで待つ（未読のファイルにより古いレコードがあるかもしれない）
+      let next: [string, NdjsonTailer] | null = null;
+      let nextClock = Infinity;
+      for (const entry of tailers) {
+        const r = entry[1].peek();
+        if (!r) {
+          if (!entry[1].exhausted()) return this.schedulePump(REPLAY_POLL_MS);
+          continue;
+        }
+        const c = clockOf(r);
+        if (c < nextClock) { nextClock = c; next = entry; }
+      }
+      if (!next) return void this.finishRound();
+
+      const [abs, t] = next;
+      if ((from != null && nextClock < from) || (to != null && nextClock > to)) { t.take(); continue; }
+      if (speed > 0) {
+        this.anchor ??= { wall: Date.now(), clock: nextClock };
+        const wait = this.anchor.wall + (nextClock - this.anchor.clock) * 1000 / speed - Date.now();
+        if (wait > 0) return this.schedulePump(Math.min(wait, REPLAY_MAX_WAIT_MS));
+      } else if (++emitted > REPLAY_BATCH) {
+        return this.schedulePump(0);
+      }
+      const record = t.take()!;
+      const source: ZabbixRtxSource = { name: this.name, ...classifyFile(path.basename(abs)), replay: { round: this.round } };
+      this.lastDataAt = Date.now();
+      this.emit('data', { file: abs, source, record });
+    }
+  }
+
+  private async finishRound() {
+    const files = [...this.tailers.values()];
+    await Promise.allSettled(files.map(t => t.stop()));
+    if (this.stopped || !this.replay) return;
+    this.emit('info', { msg: 'replay round finished', dir: this.dir, round: this.round, loop: this.replay.loop });
+    if (!this.replay.loop) return; // 統計を残すため tailers は保持
+    this.tailers.clear();
+    // ファイルが無い場合に空回りしない
+    if (files.length === 0) this.schedulePump(this.tailOpts.maxBackoffMs, () => this.startRound());
+    else await this.startRound();
   }
 
   private startWatcher() {
+    if (this.watcher) return;
     try {
-      this.watcher = fs.watch(this.dir, () => this.debouncedScan());
+      // ディレクトリ内の全ファイルで 1 つの watcher を共有する。
+      // 追記（change）は該当ファイルの poll を起こすだけ。作成・削除・rename と追跡外のファイルは再スキャン
+      this.watcher = fs.watch(this.dir, (eventType, filename) => {
+        const t = filename ? this.tailers.get(path.join(this.dir, filename)) : undefined;
+        if (t) this.scheduler.wake(t);
+        if (!t || eventType === 'rename') this.debouncedScan();
+      });
       this.watcher.on('error', (err) => {
         this.emit('warn', { msg: 'dir fs.watch error', err, dir: this.dir });
+        this.stopWatcher(); // 次の成功したスキャンで張り直す
+        this.scheduler.wakeAll();
         this.debouncedScan();
       });
     } catch (err) {
@@ -293,7 +712,9 @@ export class MultiNdjsonTailer extends EventEmitter {
       for (const abs of want) {
         if (this.stopped) break;
         if (this.tailers.has(abs)) continue;
-        const t = new NdjsonTailer(abs, this.tailOpts);
+        // 消えた後に再び現れたのはローテーション後の新しいファイルなので、startAtEnd でも先頭から読む
+        const opts = this.vanished.has(abs) ? { ...this.tailOpts, startAtEnd: false } : this.tailOpts;
+        const t = new NdjsonTailer(abs, opts);
         this.tailers.set(abs, t);
 
         if (this.stopped) {
@@ -303,19 +724,17 @@ export class MultiNdjsonTailer extends EventEmitter {
           continue;
         }
 
-        t.on('ready', info => this.emit('ready', info));
+        t.on('ready', info => {
+          this.vanished.delete(abs);
+          this.emit('ready', info);
+        });
         t.on('info', info => this.emit('info', info));
         t.on('warn', info => this.emit('warn', info));
         t.on('parse_error', info => this.emit('parse_error', info));
+        const source: ZabbixRtxSource = { name: this.name, ...classifyFile(path.basename(abs)) };
         t.on('data', ({ file, record }) => {
-          const base = path.basename(file);
-          const family: Family =
-            base.startsWith('problems-') ? 'problems' :
-              base.startsWith('history-') ? 'history' :
-                base.includes('main-process') ? 'main-process' :
-                  base.includes('task-manager') ? 'task-manager' :
-                    'other';
-          this.emit('data', { file, family, record });
+          this.lastDataAt = Date.now();
+          this.emit('data', { file, source, record });
         });
 
         t.start().catch(err => this.emit('warn', { msg: 'tailer start error', err, file: abs }));
@@ -323,16 +742,24 @@ export class MultiNdjsonTailer extends EventEmitter {
 
       for (const [abs, t] of this.tailers) {
         if (!want.has(abs)) {
-          await t.stop();
+          await t.stop({ drain: true });
           this.tailers.delete(abs);
+          this.tailOpts.checkpoints?.delete(abs);
+          this.vanished.add(abs);
           this.emit('info', { msg: 'tailer stopped', file: abs });
         }
       }
+      this.scanError = null;
+      if (!this.stopped) this.startWatcher();
     } catch (err) {
+      this.scanError = err instanceof Error ? err.message : String(err);
       this.emit('warn', { msg: 'scan error', err, dir: this.dir });
     }
     finally {
+      this.lastScanAt = Date.now();
       this.scanning = false;
+      // ディレクトリを読めない間は定期的に再スキャン（復旧を検知する）
+      if (this.scanError) this.debouncedScan(this.tailOpts.maxBackoffMs);
     }
   }
 }
@@ -0,0 +1,107 @@
+import type { EventFilter } from './filter.js';
+import type { ZabbixRtxEnvelope } from './types.js';
+
+// レコード自身の (clock, ns) による範囲指定とカーソルページング（JSON API の ?from= / ?to= / ?cursor= / ?order=）。
+// 並び順のキーは (clock, ns, id)。同じ時刻のレコードはエンベロープ ID で順序を決める。
+
+export interface ClockKey {
+  clock: number;
+  ns: number;
+  id: number;
+}
+
+export const MIN_KEY: ClockKey = { clock: -Infinity, ns: 0, id: 0 };
+export const MAX_KEY: ClockKey = { clock: Infinity, ns: 0, id: 0 };
+
+export function keyOf(env: ZabbixRtxEnvelope): ClockKey {
+  const r = env.record;
+  return { clock: r.clock, ns: 'ns' in r ? r.ns : 0, id: env.id };
+}
+
+export function compareKeys(a: ClockKey, b: ClockKey): number {
+  return a.clock - b.clock || a.ns - b.ns || a.id - b.id;
+}
+
+/**
+ * 走査条件: lo < key < hi（両端とも含まない）を dir の向きに limit 件。
+ * from / to は id を 0 / Infinity にしたキーで表すので、その時刻のレコードは含まれる。
+ */
+export interface RangeScan {
+  lo: ClockKey;
+  hi: ClockKey;
+  dir: 'up' | 'down';
+  limit: number;
+  filter?: EventFilter;
+}
+
+export function inRange(scan: RangeScan, k: ClockKey): boolean {
+  return compareKeys(scan.lo, k) < 0 && compareKeys(k, scan.hi) < 0;
+}
+
+// ==== カーソル（base64url の `clock.ns.id.a|b`。a = キーより後、b = キーより前） ====
+export interface Cursor {
+  key: ClockKey;
+  side: 'after' | 'before';
+}
+
+export function encodeCursor(c: Cursor): string {
+  const { clock, ns, id } = c.key;
+  return Buffer.from(`${clock}.${ns}.${id}.${c.side === 'after' ? 'a' : 'b'}`, 'utf8').toString('base64url');
+}
+
+export function decodeCursor(s: string): Cursor {
+  const m = /^(\d+)\.(\d+)\.(\d+)\.([ab])$/.exec(Buffer.from(s, 'base64url').toString('utf8'));
+  if (!m) throw new Error(`cursor: invalid cursor ${JSON.stringify(s)}`);
+  return { key: { clock: Number(m[1]), ns: Number(m[2]), id: Number(m[3]) }, side: m[4] === 'a' ? 'after' : 'before' };
+}
+
+/** UNIX 秒（小数でナノ秒まで）または ISO 8601 を (clock, ns) に変換する */
+export function parseClock(name: string, v: string): { clock: number; ns: number } {
+  const s = v.trim();
+  const m = /^(\d+)(?:\.(\d{1,9}))?$/.exec(s);
+  if (m) return { clock: Number(m[1]), ns: m[2] ? Number(m[2].padEnd(9, '0')) : 0 };
+  const ms = Date.parse(s);
+  if (!Number.isFinite(ms)) throw new Error(`${name}: UNIX seconds or ISO 8601 date-time expected, got ${JSON.stringify(v)}`);
+  return { clock: Math.floor(ms / 1000), ns: (((ms % 1000) + 1000) % 1000) * 1_000_000 };
+}
+
+export interface RangeRequest {
+  from: { clock: number; ns: number } | null; // 含む
+  to: { clock: number; ns: number } | null;   // 含む
+  cursor: Cursor | null;
+  order: 'asc' | 'desc';
+  limit: number;
+}
+
+export interface RangePage {
+  items: ZabbixRtxEnvelope[];
+  next: string | null; // order の向きに続きを読むカーソル
+  prev: string | null; // 逆向き（前のページ）を読むカーソル
+}
+
+/**
+ * 要求を走査条件に変換し、fetch（limit + 1 件を要求して続きの有無を判定）の結果をページにする。
+ * カーソルが order と逆向き（前のページ）の場合は逆順に走査して並べ直す。
+ */
+export async function rangePage(req: RangeRequest, filter: EventFilter | undefined, fetch: (scan: RangeScan) => Promise<ZabbixRtxEnvelope[]>): Promise<RangePage> {
+  let lo: ClockKey = req.from ? { ...req.from, id: 0 } : MIN_KEY;
+  let hi: ClockKey = req.to ? { ...req.to, id: Infinity } : MAX_KEY;
+  const forward = req.order === 'asc' ? 'after' : 'before';
+  const side = req.cursor?.side ?? forward;
+  if (req.cursor?.side === 'after' && compareKeys(req.cursor.key, lo) > 0) lo = req.cursor.key;
+  if (req.cursor?.side === 'before' && compareKeys(req.cursor.key, hi) < 0) hi = req.cursor.key;
+
+  const items = await fetch({ lo, hi, dir: side === 'after' ? 'up' : 'down', limit: req.limit + 1, filter });
+  const more = items.length > req.limit;
+  if (more) items.length = req.limit;
+  const backward = side !== forward;
+  if (backward) items.reverse();
+
+  const first = items[0];
+  const last = items[items.length - 1];
+  const backSide = forward === 'after' ? 'before' : 'after';
+  // 前方向: 続きがあれば next。後ろ方向（前のページ）: 元のカーソルの先が常にある
+  const next = last && (backward || more) ? encodeCursor({ key: keyOf(last), side: forward }) : null;
+  const prev = first && (backward ? more : req.cursor != null) ? encodeCursor({ key: keyOf(first), side: backSide }) : null;
+  return { items, next, prev };
+}
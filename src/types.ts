@@ -1,13 +1,162 @@
-export type Family =
-  | 'problems'
-  | 'history'
-  | 'main-process'
-  | 'task-manager'
-  | 'other';
+// エクスポートのデータ種別（ファイル名の先頭）。書き込みプロセスは source.process / source.index に分離
+// derived はルールエンジンが生成したイベント
+export const FAMILIES = ['problems', 'history', 'trends', 'derived', 'other'] as const;
+export type Family = typeof FAMILIES[number];
+
+export interface ZabbixRtxSource {
+  name: string;           // 設定上のソース名（Zabbix サーバ / HA ノード単位）
+  file: string;
+  family: Family;
+  process: string | null; // 例: history-syncer, main-process, task-manager
+  index: number | null;   // syncer 等の番号
+  replay?: { round: number }; // 再生モードで記録済みファイルから流したもの（round: ループ回数、1 から）
+}
+
+// ==== Zabbix real-time export レコード ====
+export interface ZabbixHost { host: string; name: string }
+export interface ZabbixTag { tag: string; value: string }
+
+/** 0=Not classified, 1=Information, 2=Warning, 3=Average, 4=High, 5=Disaster */
+export type ZabbixSeverity = 0 | 1 | 2 | 3 | 4 | 5;
+
+export interface ZabbixProblemEvent {
+  clock: number;
+  ns: number;
+  value: 1;
+  eventid: number;
+  name: string;
+  severity: ZabbixSeverity;
+  hosts: ZabbixHost[];
+  groups: string[];
+  tags: ZabbixTag[];
+}
+
+export interface ZabbixRecoveryEvent {
+  clock: number;
+  ns: number;
+  value: 0;
+  eventid: number;
+  p_eventid: number; // 対応する PROBLEM の eventid
+}
+
+/** history の value_type: 0=float, 1=str, 2=log, 3=uint, 4=text */
+export type ZabbixValueType = 0 | 1 | 2 | 3 | 4;
+
+interface ZabbixHistoryBase {
+  host: ZabbixHost;
+  groups: string[];
+  item_tags: ZabbixTag[]; // 古いエクスポートでは欠落 → []
+  itemid: number;
+  name: string;
+  clock: number;
+  ns: number;
+}
+
+export interface ZabbixHistoryFloat extends ZabbixHistoryBase { type: 0; value: number }
+export interface ZabbixHistoryStr extends ZabbixHistoryBase { type: 1; value: string }
+export interface ZabbixHistoryLog extends ZabbixHistoryBase {
+  type: 2;
+  value: string;
+  timestamp: number;
+  source: string;
+  severity: number;
+  logeventid: number;
+}
+export interface ZabbixHistoryUint extends ZabbixHistoryBase { type: 3; value: number }
+export interface ZabbixHistoryText extends ZabbixHistoryBase { type: 4; value: string }
+
+export type ZabbixHistoryRecord =
+  | ZabbixHistoryFloat
+  | ZabbixHistoryStr
+  | ZabbixHistoryLog
+  | ZabbixHistoryUint
+  | ZabbixHistoryText;
+
+/** trends（1 時間ごとの集計）。float / uint アイテムのみ */
+export interface ZabbixTrendRecord {
+  host: ZabbixHost;
+  groups: string[];
+  item_tags: ZabbixTag[];
+  itemid: number;
+  name: string;
+  clock: number;
+  count: number;
+  min: number;
+  avg: number;
+  max: number;
+  type: 0 | 3;
+}
+
+// ==== ルールエンジンが生成するイベント（family: derived、SSE イベント名は zabbix.derived.<kind>） ====
+export const RULE_KINDS = ['threshold', 'rate', 'count', 'absence'] as const;
+export type RuleKind = typeof RULE_KINDS[number];
+
+export interface ZabbixDerivedEvent {
+  rule: string;
+  kind: RuleKind;
+  state: 'firing' | 'resolved'; // rate は常に firing
+  clock: number;                // 生成時刻
+  ns: number;
+  severity: ZabbixSeverity;
+  message: string;
+  group: string | null;         // groupBy の値（itemid / ホスト名 / ホストグループ名、groupBy なしは null）
+  hosts: ZabbixHost[];
+  groups: string[];
+  tags: ZabbixTag[];            // ルールに設定したタグ
+  item: { itemid: number; name: string; value: number | null; previous: number | null } | null;
+  count: number | null;         // count: 窓内の件数
+  trigger: number | null;       // 判定のきっかけになったエンベロープ ID（時間経過による判定は null）
+}
+
+export type ZabbixRecord = ZabbixProblemEvent | ZabbixRecoveryEvent | ZabbixHistoryRecord | ZabbixTrendRecord | ZabbixDerivedEvent;
 
 export interface ZabbixRtxEnvelope {
   id: number;     // サーバ採番（SSE id と一致）
   time: number;   // enqueue 時刻 (ms)
-  source: { file: string; family: Family };
-  record: unknown; // NDJSON 1 行分
+  source: ZabbixRtxSource;
+  record: ZabbixRecord; // NDJSON 1 行分（検証済み）
+}
+
+// 現在オープン中の problem（RECOVERY 未受信）
+export interface ActiveProblem {
+  eventid: number;
+  id: number; // PROBLEM を受信したエンベロープの ID
+  source: ZabbixRtxEnvelope['source'];
+  problem: ZabbixProblemEvent;
+}
+
+export interface ResolvedProblem extends ActiveProblem {
+  recovery: ZabbixRecoveryEvent;
+  duration: number; // 秒（recovery.clock - problem.clock）
+}
+
+// アイテムごとの最新値（history から）
+export interface LatestValue {
+  itemid: number;
+  id: number; // 最新値を受信したエンベロープの ID
+  source: ZabbixRtxEnvelope['source'];
+  host: ZabbixHost;
+  name: string;
+  type: ZabbixValueType;
+  value: number | string;
+  clock: number;
+  ns: number;
+}
+
+// 数値 history のローリング集計（窓ごと）
+export interface WindowStats {
+  count: number;
+  min: number | null;
+  max: number | null;
+  avg: number | null;
+  last: number | null;
+  rate: number | null; // 窓内の最初と最後のサンプル間の 1 秒あたりの変化量（2 サンプル未満は null）
+}
+
+export interface ItemAggregate {
+  itemid: number;
+  source: ZabbixRtxEnvelope['source'];
+  host: ZabbixHost;
+  name: string;
+  windows: Record<string, WindowStats>; // キーは窓のラベル（1m / 5m など）
 }
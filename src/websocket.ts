@@ -0,0 +1,482 @@
+import crypto from 'node:crypto';
+import http from 'node:http';
+import { EventEmitter } from 'node:events';
+import type { Duplex } from 'node:stream';
+import type { EventFilter, Query, SystemOrigin } from './filter.js';
+import { eventName } from './records.js';
+import { drainBelow, type ReplayTarget, type ResetInfo } from './replay.js';
+import { pushGap, type SlowConsumerOptions } from './sse.js';
+import type { ZabbixRtxEnvelope } from './types.js';
+
+// ==== RFC 6455 最小実装（依存パッケージなし） ====
+const WS_GUID = '258EAFA5-E914-47DA-95CA-C5AB0DC85B11';
+
+const OP_CONT = 0x0;
+const OP_TEXT = 0x1;
+const OP_BINARY = 0x2;
+const OP_CLOSE = 0x8;
+const OP_PING = 0x9;
+const OP_PONG = 0xa;
+
+function encodeFrame(opcode: number, payload: Buffer): Buffer {
+  const len = payload.length;
+  let header: Buffer;
+  if (len < 126) {
+    header = Buffer.from([0x80 | opcode, len]);
+  } else if (len < 0x10000) {
+    header = Buffer.alloc(4);
+    header[0] = 0x80 | opcode; header[1] = 126;
+    header.writeUInt16BE(len, 2);
+  } else {
+    header = Buffer.alloc(10);
+    header[0] = 0x80 | opcode; header[1] = 127;
+    header.writeBigUInt64BE(BigInt(len), 2);
+  }
+  return Buffer.concat([header, payload]);
+}
+
+function closePayload(code: number, reason = ''): Buffer {
+  const r = Buffer.from(reason, 'utf8');
+  const b = Buffer.alloc(2 + r.length);
+  b.writeUInt16BE(code, 0);
+  r.copy(b, 2);
+  return b;
+}
+
+// 1 接続分のフレーム送受信。'message'（テキスト）/ 'close' を発火する
+class WsConnection extends EventEmitter {
+  readonly socket: Duplex;
+  private maxMessageBytes: number;
+  private buf: Buffer = Buffer.alloc(0);
+  private fragments: Buffer[] = [];
+  private fragmentBytes = 0;
+  private closed = false;
+
+  constructor(socket: Duplex, opts: { maxMessageBytes: number }) {
+    super();
+    this.socket = socket;
+    this.maxMessageBytes = opts.maxMessageBytes;
+    socket.on('data', (chunk: Buffer) => this.onData(chunk));
+    socket.on('close', () => this.finish());
+    socket.on('error', () => this.finish());
+  }
+
+  // 型付き on オーバーロード
+  override on(event: 'message', listener: (text: string) => void): this;
+  override on(event: 'close', listener: () => void): this;
+  override on(event: string, listener: (...args: any[]) => void): this { return super.on(event, listener); }
+
+  get isClosed() { return this.closed; }
+
+  /** 送信前の未送出バイト数（SseHub.safeWrite と同じ判定に使う） */
+  get pending(): number {
+    const w = this.socket as any;
+    return typeof w.writableLength === 'number' ? w.writableLength : 0;
+  }
+
+  sendText(text: string) {
+    if (this.closed) return;
+    this.socket.write(encodeFrame(OP_TEXT, Buffer.from(text, 'utf8')));
+  }
+
+  ping() {
+    if (this.closed) return;
+    this.socket.write(encodeFrame(OP_PING, Buffer.alloc(0)));
+  }
+
+  close(code = 1000, reason = '') {
+    if (this.closed) return;
+    try { this.socket.write(encodeFrame(OP_CLOSE, closePayload(code, reason))); } catch { }
+    try { this.socket.end(); } catch { }
+    this.finish();
+  }
+
+  private finish() {
+    if (this.closed) return;
+    this.closed = true;
+    this.emit('close');
+  }
+
+  private onData(chunk: Buffer) {
+    this.buf = this.buf.length ? Buffer.concat([this.buf, chunk]) : chunk;
+    while (!this.closed) {
+      if (this.buf.length < 2) return;
+      const b0 = this.buf[0], b1 = this.buf[1];
+      const fin = (b0 & 0x80) !== 0;
+      const opcode = b0 & 0x0f;
+      const masked = (b1 & 0x80) !== 0;
+      let len = b1 & 0x7f;
+      let off = 2;
+      if (len === 126) {
+        if (this.buf.length < 4) return;
+        len = this.buf.readUInt16BE(2); off = 4;
+      } else if (len === 127) {
+        if (this.buf.length < 10) return;
+        const big = this.buf.readBigUInt64BE(2); off = 10;
+        if (big > BigInt(this.maxMessageBytes)) return this.close(1009, 'message too big');
+        len = Number(big);
+      }
+      if (!masked) return this.close(1002, 'client frames must be masked');
+      if (len > this.maxMessageBytes) return this.close(1009, 'message too big');
+      if (this.buf.length < off + 4 + len) return;
+
+      const mask = this.buf.subarray(off, off + 4);
+      const payload = Buffer.from(this.buf.subarray(off + 4, off + 4 + len));
+      for (let i = 0; i < payload.length; i++) payload[i] ^= mask[i & 3];
+      this.buf = this.buf.subarray(off + 4 + len);
+      this.onFrame(fin, opcode, payload);
+    }
+  }
+
+  private onFrame(fin: boolean, opcode: number, payload: Buffer) {
+    if (opcode >= 0x8) {
+      if (!fin || payload.length > 125) return this.close(1002, 'invalid control frame');
+      if (opcode === OP_PING) this.socket.write(encodeFrame(OP_PONG, payload));
+      else if (opcode === OP_CLOSE) this.close(payload.length >= 2 ? payload.readUInt16BE(0) : 1000);
+      return;
+    }
+    if (opcode === OP_BINARY) return this.close(1003, 'binary frames are not supported');
+    if (opcode === OP_TEXT) {
+      if (this.fragments.length) return this.close(1002, 'unexpected text frame');
+    } else if (opcode === OP_CONT) {
+      if (!this.fragments.length) return this.close(1002, 'unexpected continuation frame');
+    } else {
+      return this.close(1002, 'unknown opcode');
+    }
+    this.fragments.push(payload);
+    this.fragmentBytes += payload.length;
+    if (this.fragmentBytes > this.maxMessageBytes) return this.close(1009, 'message too big');
+    if (!fin) return;
+    const text = Buffer.concat(this.fragments).toString('utf8');
+    this.fragments = [];
+    this.fragmentBytes = 0;
+    this.emit('message', text);
+  }
+}
+
+/** Upgrade 要求を検証してハンドシェイク応答を書く。失敗時はエラー応答を書いて false */
+export function acceptUpgrade(req: http.IncomingMessage, socket: Duplex): boolean {
+  const key = req.headers['sec-websocket-key'];
+  const upgrade = (req.headers['upgrade'] || '').toLowerCase();
+  if (req.method !== 'GET' || upgrade !== 'websocket' || typeof key !== 'string' || req.headers['sec-websocket-version'] !== '13') {
+    socket.end('HTTP/1.1 400 Bad Request\r\nConnection: close\r\nSec-WebSocket-Version: 13\r\n\r\n');
+    return false;
+  }
+  const accept = crypto.createHash('sha1').update(key + WS_GUID).digest('base64');
+  socket.write([
+    'HTTP/1.1 101 Switching Protocols',
+    'Upgrade: websocket',
+    'Connection: Upgrade',
+    `Sec-WebSocket-Accept: ${accept}`,
+    '', ''
+  ].join('\r\n'));
+  return true;
+}
+
+// ==== 購読プロトコル ====
+// client → server（JSON テキスト）
+//   { "op": "subscribe", "sub": "crit", "filter": { "family": "problems", "severity>": 4 }, "sinceId": 120, "snapshot": ["problems"] }
+//   { "op": "unsubscribe", "sub": "crit" }
+//   { "op": "replay", "sinceId": 120 }   sinceId 省略時は同じ ?client= の最後の ack から
+//   { "op": "ack", "id": 130 }
+// server → client
+//   { "type": "hello", "latestId" } / { "type": "subscribed" | "unsubscribed", "sub" }
+//   { "type": "event", "event", "id"?, "data", "subs" } / { "type": "reset", ... } / { "type": "snapshot", "name", "sub", "items" }
+//   { "type": "gap", "ranges", "untracked" }（replay 中に保留しきれず破棄した分）
+//   { "type": "error", "message" }
+// 順序は購読ごとに保証（replay 中のライブ配信は保留し、再送済みの分を除いて後から送る）。
+
+export interface WsHubDeps {
+  latestId(): number;
+  parseFilter(q: Query): EventFilter;
+  /** ReplayTarget に sinceId 以降を送り、最後に live() を同期的に呼ぶ */
+  replay(sinceId: number, filter: EventFilter, target: ReplayTarget, live: () => void): Promise<void>;
+  /** snapshot 名に対応するデータ。未知の名前は Error */
+  snapshot(name: string, filter: EventFilter): unknown;
+  payload(env: ZabbixRtxEnvelope): unknown;
+}
+
+interface Outgoing {
+  event: string;
+  payload: unknown;
+  id?: number;
+  match?: (f: EventFilter) => boolean; // 無ければ全購読へ
+}
+
+interface WsClient {
+  conn: WsConnection;
+  clientId: string | null;
+  parseFilter(q: Query): EventFilter;
+  subs: Map<string, EventFilter>;
+  // replay 中はライブ配信を保留（heldBytes が dropThreshold を超えた分は破棄し、replay 後に gap で通知）
+  replaying: number;
+  held: Outgoing[];
+  heldBytes: number;
+  drops: number;            // 累計破棄数（disconnect 判定）
+  gaps: [number, number][]; // 未通知の欠落 ID 範囲
+  untracked: number;        // ID を持たないイベントの未通知破棄数
+  covered: Map<string, [number, number][]>; // 保留中に終わった replay が再送した ID 範囲（購読ごと、両端含む）
+  gens: Map<string, number>;                 // subscribe / unsubscribe ごとに進める（古い replay の登録を無効にする）
+}
+
+function toQuery(filter: unknown): Query {
+  if (filter == null) return {};
+  if (typeof filter !== 'object' || Array.isArray(filter)) throw new Error('filter: object expected');
+  const q: Query = {};
+  for (const [k, v] of Object.entries(filter as Record<string, unknown>)) {
+    if (v == null) continue;
+    q[k] = Array.isArray(v) ? v.map(String) : String(v);
+  }
+  return q;
+}
+
+type Range = [number, number]; // ID の範囲（両端含む）
+
+function minus(r: Range, covers: Range[]): Range[] {
+  let parts: Range[] = [r];
+  for (const [c, d] of covers) {
+    parts = parts.flatMap(([a, b]): Range[] =>
+      d < a || c > b ? [[a, b]] : [...(a < c ? [[a, c - 1] as Range] : []), ...(d < b ? [[d + 1, b] as Range] : [])]);
+  }
+  return parts;
+}
+
+/** gaps のうち、いずれかの購読の covers に含まれない部分（昇順に併合） */
+function uncovered(gaps: Range[], coversBySub: Range[][]): Range[] {
+  const parts = gaps.flatMap(g => coversBySub.flatMap(covers => minus(g, covers))).sort((x, y) => x[0] - y[0]);
+  const out: Range[] = [];
+  for (const [a, b] of parts) {
+    const last = out[out.length - 1];
+    if (last && a <= last[1] + 1) last[1] = Math.max(last[1], b);
+    else out.push([a, b]);
+  }
+  return out;
+}
+
+export class WsHub {
+  private clients = new Set<WsClient>();
+  private acks = new Map<string, number>(); // clientId → 最後に ack された ID
+  private timer: NodeJS.Timeout | null = null;
+  private dropThreshold: number;
+  private maxMessageBytes: number;
+  private slow: SlowConsumerOptions;
+  private deps: WsHubDeps;
+  dropped = 0; // 送信待ち超過で破棄したメッセージ数
+  disconnected = 0; // disconnect ポリシーで切断したクライアント数
+
+  /** slow: replay 中の保留が dropThreshold を超えたときの扱い（drop / replay は破棄して gap、disconnect は maxDrops 回で切断） */
+  constructor(deps: WsHubDeps, opts: { dropThreshold: number; maxMessageBytes?: number; slow?: SlowConsumerOptions }) {
+    this.deps = deps;
+    this.dropThreshold = opts.dropThreshold;
+    this.maxMessageBytes = opts.maxMessageBytes ?? 64 * 1024;
+    this.slow = opts.slow ?? { policy: 'drop', maxDrops: 100 };
+  }
+
+  get size() { return this.clients.size; }
+
+  /** ハンドシェイク済みソケットを受け入れる（parseFilter で接続ごとの閲覧範囲を上書き可） */
+  add(socket: Duplex, clientId: string | null, parseFilter = this.deps.parseFilter) {
+    const conn = new WsConnection(socket, { maxMessageBytes: this.maxMessageBytes });
+    const c: WsClient = {
+      conn, clientId, parseFilter, subs: new Map(),
+      replaying: 0, held: [], heldBytes: 0, drops: 0, gaps: [], untracked: 0, covered: new Map(), gens: new Map()
+    };
+    this.clients.add(c);
+    conn.on('close', () => this.clients.delete(c));
+    conn.on('message', text => this.onMessage(c, text));
+    this.send(c, { type: 'hello', latestId: this.deps.latestId() });
+  }
+
+  heartbeatStart(intervalMs: number) {
+    this.heartbeatStop();
+    this.timer = setInterval(() => {
+      for (const c of this.clients) c.conn.ping();
+    }, intervalMs);
+  }
+  heartbeatStop() { if (this.timer) clearInterval(this.timer); this.timer = null; }
+
+  close() {
+    this.heartbeatStop();
+    for (const c of this.clients) c.conn.close(1001, 'server shutdown');
+    this.clients.clear();
+  }
+
+  // SseHub.safeWrite と同じ判定: 送信待ちが閾値を超えていればこのクライアント分は破棄。
+  // force: 再送分（ページごとに drained() で待つので溜まり過ぎない）は破棄しない
+  private safeSend(c: WsClient, text: string, force = false) {
+    try {
+      if (c.conn.isClosed) { this.clients.delete(c); return; }
+      if (!force && c.conn.pending >= this.dropThreshold) { this.dropped++; return; }
+      c.conn.sendText(text);
+    } catch {
+      c.conn.close(1011);
+      this.clients.delete(c);
+    }
+  }
+
+  private send(c: WsClient, msg: unknown, force = false) {
+    this.safeSend(c, JSON.stringify(msg), force);
+  }
+
+  private error(c: WsClient, message: string) {
+    this.send(c, { type: 'error', message });
+  }
+
+  // env を渡すと購読ごとのフィルタで判定する
+  broadcast(event: string, payload: unknown, id?: number, env?: ZabbixRtxEnvelope) {
+    this.fanout({ event, payload, id, match: env && (f => f.matches(env)) });
+  }
+
+  /** システムイベント。発生元の source / family で判定する */
+  broadcastSystem(event: string, payload: unknown, origin: SystemOrigin) {
+    this.fanout({ event, payload, match: f => f.matchesSystem(origin) });
+  }
+
+  private fanout(out: Outgoing) {
+    const { payload, id } = out;
+    let bytes: number | undefined;
+    for (const c of this.clients) {
+      if (c.replaying === 0) { this.deliver(c, out); continue; }
+      bytes ??= (JSON.stringify(payload) ?? '').length;
+      if (c.heldBytes + bytes <= this.dropThreshold) {
+        c.held.push(out);
+        c.heldBytes += bytes;
+      } else {
+        this.dropHeld(c, id);
+      }
+    }
+  }
+
+  // 保留しきれないライブ配信を破棄する
+  private dropHeld(c: WsClient, id: number | undefined) {
+    this.dropped++;
+    c.drops++;
+    if (id == null) c.untracked++;
+    else pushGap(c.gaps, id);
+    if (this.slow.policy === 'disconnect' && c.drops >= this.slow.maxDrops) {
+      this.disconnected++;
+      this.clients.delete(c);
+      c.conn.close(1013, 'slow consumer');
+    }
+  }
+
+  private deliver(c: WsClient, out: Outgoing, exclude?: (sub: string) => boolean) {
+    const subs: string[] = [];
+    for (const [name, filter] of c.subs) {
+      if (exclude?.(name)) continue;
+      if (!out.match || out.match(filter)) subs.push(name);
+    }
+    if (subs.length === 0) return;
+    this.send(c, { type: 'event', event: out.event, id: out.id, data: out.payload, subs });
+  }
+
+  private onMessage(c: WsClient, text: string) {
+    let msg: any;
+    try { msg = JSON.parse(text); } catch { return this.error(c, 'invalid JSON'); }
+    if (typeof msg !== 'object' || msg === null) return this.error(c, 'object expected');
+    try {
+      switch (msg.op) {
+        case 'subscribe': return this.subscribe(c, msg);
+        case 'unsubscribe': {
+          const sub = String(msg.sub ?? 'default');
+          c.subs.delete(sub);
+          this.bump(c, sub); // replay 中なら終了時に登録し直さない
+          return this.send(c, { type: 'unsubscribed', sub });
+        }
+        case 'replay': {
+          const sinceId = msg.sinceId != null ? Number(msg.sinceId) : (c.clientId != null ? this.acks.get(c.clientId) : undefined);
+          if (sinceId == null || !Number.isInteger(sinceId) || sinceId < 0) return this.error(c, 'replay: sinceId required');
+          for (const [sub, filter] of c.subs) this.replay(c, sub, filter, sinceId);
+          return;
+        }
+        case 'ack': {
+          const id = Number(msg.id);
+          if (!Number.isInteger(id) || id < 0) return this.error(c, 'ack: id must be a non-negative integer');
+          if (c.clientId != null && id > (this.acks.get(c.clientId) ?? 0)) this.acks.set(c.clientId, id);
+          return;
+        }
+        default:
+          return this.error(c, `unknown op ${JSON.stringify(msg.op)}`);
+      }
+    } catch (err) {
+      this.error(c, err instanceof Error ? err.message : String(err));
+    }
+  }
+
+  private subscribe(c: WsClient, msg: any) {
+    const sub = String(msg.sub ?? 'default');
+    const filter = c.parseFilter(toQuery(msg.filter));
+    const snapshots: string[] = msg.snapshot == null ? [] : (Array.isArray(msg.snapshot) ? msg.snapshot : [msg.snapshot]).map(String);
+    const snaps = snapshots.map(name => ({ name, items: this.deps.snapshot(name, filter) }));
+    const sinceId = msg.sinceId != null ? Number(msg.sinceId) : undefined;
+    if (sinceId != null && (!Number.isInteger(sinceId) || sinceId < 0)) throw new Error('subscribe: sinceId must be a non-negative integer');
+
+    this.send(c, { type: 'subscribed', sub });
+    for (const s of snaps) this.send(c, { type: 'snapshot', name: s.name, sub, items: s.items });
+    const gen = this.bump(c, sub);
+    if (sinceId == null) {
+      c.subs.set(sub, filter);
+      return;
+    }
+    c.subs.delete(sub);
+    // 再送中に unsubscribe / subscribe し直されていたら登録しない
+    this.replay(c, sub, filter, sinceId, () => { if (c.gens.get(sub) === gen) c.subs.set(sub, filter); });
+  }
+
+  private bump(c: WsClient, sub: string): number {
+    const gen = (c.gens.get(sub) ?? 0) + 1;
+    c.gens.set(sub, gen);
+    return gen;
+  }
+
+  private replay(c: WsClient, sub: string, filter: EventFilter, sinceId: number, onLive?: () => void) {
+    c.replaying++;
+    const gen = c.gens.get(sub);
+    const active = () => c.gens.get(sub) === gen;
+    let from = sinceId + 1;
+    const target: ReplayTarget = {
+      closed: () => c.conn.isClosed,
+      reset: (info: ResetInfo) => {
+        from = 0; // 要求より前から再送し直す
+        if (active()) this.send(c, { type: 'reset', sub, ...info });
+      },
+      send: env => {
+        if (!active()) return;
+        this.send(c, { type: 'event', event: eventName(env), id: env.id, data: this.deps.payload(env), subs: [sub] }, true);
+      },
+      drained: () => drainBelow(this.dropThreshold, () => c.conn.pending, () => c.conn.isClosed),
+    };
+    // replayed: 再送が最後まで済んだ（live() は最後のリング分の再送と同期的に呼ばれるので、その時点の latestId まで送った）
+    const resume = (replayed: boolean) => {
+      onLive?.();
+      if (replayed && active()) {
+        const ranges = c.covered.get(sub) ?? [];
+        ranges.push([from, this.deps.latestId()]);
+        c.covered.set(sub, ranges);
+      }
+      c.replaying--;
+      if (c.replaying > 0) return;
+      const held = c.held;
+      const covered = c.covered;
+      const gaps = c.gaps;
+      const untracked = c.untracked;
+      c.held = [];
+      c.heldBytes = 0;
+      c.covered = new Map();
+      c.gaps = [];
+      c.untracked = 0;
+      // 保留分のうち、購読ごとに再送済みの範囲に入る ID はその購読には送らない
+      for (const out of held) {
+        const id = out.id;
+        this.deliver(c, out, id == null ? undefined : s => covered.get(s)?.some(([a, b]) => a <= id && id <= b) ?? false);
+      }
+      // 破棄した分のうち、再送で受け取っていない購読がある範囲を通知（replay op で取り直せる）
+      const ranges = uncovered(gaps, [...c.subs.keys()].map(s => covered.get(s) ?? []));
+      if (ranges.length || untracked) this.send(c, { type: 'gap', ranges, untracked });
+    };
+    this.deps.replay(sinceId, filter, target, () => resume(true)).catch(err => {
+      this.error(c, `replay failed: ${err instanceof Error ? err.message : String(err)}`);
+      resume(false);
+    });
+  }
+}
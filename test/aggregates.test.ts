@@ -0,0 +1,65 @@
+import assert from 'node:assert/strict';
+import test from 'node:test';
+import { formatDuration, parseDuration, RollingAggregator } from '../src/aggregates.js';
+import { EventFilter } from '../src/filter.js';
+import { envelope, history } from './fixtures.js';
+
+const T = 1_700_000_000;
+const at = (sec: number, value: number, itemid = 100) => envelope(0, history({ itemid, clock: T + sec, value }));
+
+test('parses and formats durations', () => {
+  assert.equal(parseDuration('90s'), 90_000);
+  assert.equal(parseDuration('5m'), 300_000);
+  assert.equal(parseDuration('1h'), 3_600_000);
+  assert.equal(parseDuration('250'), 250);
+  assert.throws(() => parseDuration('5 minutes'), /duration expected/);
+  assert.deepEqual([60_000, 90_000, 3_600_000, 1500].map(formatDuration), ['1m', '90s', '1h', '1500ms']);
+});
+
+test('computes count/min/max/avg/last/rate per window', () => {
+  const agg = new RollingAggregator([300_000, 60_000], { maxItems: 10, maxSamples: 100 });
+  const now = (T + 300) * 1000;
+  for (const [sec, v] of [[0, 10], [290, 30], [250, 20], [299, 40]]) agg.apply(at(sec, v), now); // 前後した分も時刻順に入る
+  agg.apply(envelope(0, history({ itemid: 300, type: 1, value: 'text' } as never)), now); // 数値以外は対象外
+  assert.deepEqual(agg.windowLabels, ['1m', '5m']);
+
+  const [item] = agg.list(undefined, undefined, now);
+  assert.equal(agg.size, 1);
+  assert.deepEqual(item.windows['1m'], { count: 3, min: 20, max: 40, avg: 30, last: 40, rate: 20 / 49 });
+  assert.deepEqual(item.windows['5m'], { count: 4, min: 10, max: 40, avg: 25, last: 40, rate: 30 / 299 });
+  assert.deepEqual(Object.keys(agg.list(undefined, ['5m'], now)[0].windows), ['5m']);
+});
+
+test('drops samples that leave the largest window', () => {
+  const agg = new RollingAggregator([60_000], { maxItems: 10, maxSamples: 100 });
+  agg.apply(at(0, 1), (T + 10) * 1000);
+  agg.apply(at(-120, 1), (T + 10) * 1000); // 窓より前
+  assert.equal(agg.list(undefined, undefined, (T + 10) * 1000)[0].windows['1m'].count, 1);
+  assert.deepEqual(agg.list(undefined, undefined, (T + 120) * 1000), []);
+  assert.equal(agg.size, 0);
+});
+
+test('limits items and samples and filters by the latest envelope', () => {
+  const agg = new RollingAggregator([60_000], { maxItems: 2, maxSamples: 2 });
+  const now = (T + 30) * 1000;
+  for (let i = 0; i < 5; i++) agg.apply(at(i, i, 1), now);
+  agg.apply(at(0, 0, 2), now);
+  agg.apply(at(0, 0, 3), now); // 最も更新の古い item 1 を破棄
+  assert.deepEqual(agg.list(undefined, undefined, now).map(a => a.itemid), [2, 3]);
+
+  const one = new RollingAggregator([60_000], { maxItems: 10, maxSamples: 2 });
+  for (let i = 0; i < 5; i++) one.apply(at(i, i), now);
+  assert.deepEqual(one.list(EventFilter.fromQuery({ itemid: '100' }), undefined, now)[0].windows['1m'], { count: 2, min: 3, max: 4, avg: 3.5, last: 4, rate: 1 });
+  assert.deepEqual(one.list(EventFilter.fromQuery({ itemid: '101' }), undefined, now), []);
+});
+
+test('record clock measures windows from the newest record and resets on rewind', () => {
+  const agg = new RollingAggregator([60_000], { maxItems: 10, maxSamples: 100, clock: 'record' });
+  for (let sec = 0; sec <= 90; sec += 10) agg.apply(at(sec, sec));
+  assert.equal(agg.now(), (T + 90) * 1000);
+  assert.deepEqual(agg.list()[0].windows['1m'], { count: 7, min: 30, max: 90, avg: 60, last: 90, rate: 1 });
+
+  agg.apply(at(-3600, 5)); // ループ再生の次の周回
+  assert.equal(agg.now(), (T - 3600) * 1000);
+  assert.equal(agg.list()[0].windows['1m'].count, 1);
+});
@@ -0,0 +1,57 @@
+import assert from 'node:assert/strict';
+import crypto from 'node:crypto';
+import fs from 'node:fs';
+import type http from 'node:http';
+import path from 'node:path';
+import test from 'node:test';
+import { AuthError, CorsPolicy, KeyStore, scopeOf } from '../src/auth.js';
+import { withTempDir } from './fixtures.js';
+
+const req = (headers: http.IncomingHttpHeaders = {}) => ({ headers }) as http.IncomingMessage;
+
+async function load(dir: string, keys: unknown[]) {
+  const file = path.join(dir, 'keys.json');
+  await fs.promises.writeFile(file, JSON.stringify({ keys }));
+  return KeyStore.load(file);
+}
+
+function status(fn: () => unknown): number | undefined {
+  try { fn(); } catch (err) { return err instanceof AuthError ? err.status : undefined; }
+  return 200;
+}
+
+test('authenticates by bearer, header, token query or hashed key', () => withTempDir(async dir => {
+  const store = await load(dir, [
+    { id: 'grafana', key: 's3cret', routes: ['events'] },
+    { id: 'ops', sha256: crypto.createHash('sha256').update('other').digest('hex') },
+  ]);
+  assert.equal(store.authenticate(req({ authorization: 'Bearer s3cret' }), {}, 'events').id, 'grafana');
+  assert.equal(store.authenticate(req({ 'x-api-key': 's3cret' }), {}, 'events').id, 'grafana');
+  assert.equal(store.authenticate(req(), { token: 'other' }, 'metrics').id, 'ops');
+
+  assert.equal(status(() => store.authenticate(req(), {}, 'events')), 401);
+  assert.equal(status(() => store.authenticate(req({ authorization: 'Bearer nope' }), {}, 'events')), 401);
+  assert.equal(status(() => store.authenticate(req({ authorization: 'Bearer s3cret' }), {}, 'problems')), 403);
+}));
+
+test('rejects malformed key files', () => withTempDir(async dir => {
+  await assert.rejects(load(dir, [{ id: 'a' }]), /"key" or "sha256"/);
+  await assert.rejects(load(dir, [{ id: 'a', key: 'k', families: ['bogus'] }]), /families/);
+  await assert.rejects(load(dir, [{ id: 'a', key: 'k', routes: ['nope'] }]), /routes/);
+  await assert.rejects(load(dir, [{ id: 'a', key: 'k' }, { id: 'b', key: 'k' }]), /duplicate/);
+}));
+
+test('scopes queries to the families and host groups of a key', () => {
+  const key = { id: 'k', families: ['problems' as const], hostgroups: ['Linux servers'], routes: null };
+  assert.deepEqual(scopeOf(key, {}), { family: ['problems'], hostgroup: ['Linux servers'] });
+  assert.equal(status(() => scopeOf(key, { family: 'problems,history' })), 403);
+  assert.equal(scopeOf({ ...key, families: null, hostgroups: null }, { family: 'history' }), null);
+});
+
+test('allows only configured CORS origins', () => {
+  const cors = new CorsPolicy(['https://grafana.example']);
+  assert.ok(cors.allowed(undefined));
+  assert.ok(cors.allowed('https://grafana.example'));
+  assert.ok(!cors.allowed('https://evil.example'));
+  assert.ok(new CorsPolicy(['*']).allowed('https://evil.example'));
+});
@@ -0,0 +1,81 @@
+import assert from 'node:assert/strict';
+import fs from 'node:fs';
+import path from 'node:path';
+import test from 'node:test';
+import { CheckpointStore } from '../src/checkpoint.js';
+import { MultiNdjsonTailer, type MismatchPolicy } from '../src/tailer.js';
+import type { ZabbixRecord } from '../src/types.js';
+import { history, until, withTempDir } from './fixtures.js';
+
+const line = (ns: number) => JSON.stringify(history({ ns })) + '\n';
+
+test('checkpoints round-trip through an atomic write', () => withTempDir(async dir => {
+  const file = path.join(dir, 'checkpoints.json');
+  const store = new CheckpointStore(file, { flushMs: 1000 });
+  await store.load(); // 無ければ空で始める
+  store.set('/a.ndjson', 1, 10);
+  store.set('/b.ndjson', 2, 20);
+  store.delete('/b.ndjson');
+  await store.flush();
+  assert.deepEqual(await fs.promises.readdir(dir), ['checkpoints.json']); // 一時ファイルが残らない
+
+  const again = new CheckpointStore(file, { flushMs: 1000 });
+  await again.load();
+  assert.deepEqual(again.get('/a.ndjson'), { inode: 1, offset: 10 });
+  assert.equal(again.get('/b.ndjson'), undefined);
+}));
+
+test('rejects unknown versions and skips invalid entries', () => withTempDir(async dir => {
+  const file = path.join(dir, 'checkpoints.json');
+  await fs.promises.writeFile(file, JSON.stringify({ version: 2, files: {} }));
+  await assert.rejects(new CheckpointStore(file, { flushMs: 1000 }).load(), /unsupported/);
+
+  await fs.promises.writeFile(file, JSON.stringify({ version: 1, files: { '/ok': { inode: 1, offset: 0 }, '/bad': { inode: 1, offset: -1 } } }));
+  const store = new CheckpointStore(file, { flushMs: 1000 });
+  await store.load();
+  assert.ok(store.get('/ok'));
+  assert.equal(store.get('/bad'), undefined);
+}));
+
+async function run(dir: string, store: CheckpointStore, onInodeMismatch: MismatchPolicy, expect: number) {
+  const multi = new MultiNdjsonTailer(dir, { startAtEnd: true, intervalMs: 20, checkpoints: store, onInodeMismatch });
+  const got: number[] = [];
+  multi.on('data', ({ record }: { record: ZabbixRecord }) => got.push('ns' in record ? record.ns : -1));
+  await multi.start();
+  try {
+    await until(() => got.length >= expect);
+    await new Promise(r => setTimeout(r, 100)); // 余計な行が来ないこと
+  } finally {
+    await multi.stop();
+  }
+  return got;
+}
+
+test('tailer resumes from the last complete line after a restart', () => withTempDir(async dir => {
+  const data = path.join(dir, 'history-history-syncer-1.ndjson');
+  const store = new CheckpointStore(path.join(dir, 'cp.json'), { flushMs: 1000 });
+  await fs.promises.writeFile(data, '');
+  const multi = new MultiNdjsonTailer(dir, { startAtEnd: true, intervalMs: 20, checkpoints: store });
+  let n = 0;
+  multi.on('data', () => n++);
+  await multi.start();
+  await fs.promises.appendFile(data, line(1) + line(2) + line(3).slice(0, 10)); // 3 行目は未完
+  await until(() => n === 2);
+  await multi.stop();
+
+  // 停止中に書かれた分も含めて続きから読む
+  await fs.promises.appendFile(data, line(3).slice(10) + line(4));
+  assert.deepEqual(await run(dir, store, 'start', 2), [3, 4]);
+}));
+
+test('falls back to the mismatch policy when the inode changed', () => withTempDir(async dir => {
+  const data = path.join(dir, 'history-history-syncer-1.ndjson');
+  const store = new CheckpointStore(path.join(dir, 'cp.json'), { flushMs: 1000 });
+  await fs.promises.writeFile(data, line(1) + line(2));
+  store.set(data, -1, 5); // 別のファイルの位置
+
+  assert.deepEqual(await run(dir, store, 'start', 2), [1, 2]);
+
+  store.set(data, -1, 5);
+  assert.deepEqual(await run(dir, store, 'end', 0), []);
+}));
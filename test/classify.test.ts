@@ -0,0 +1,41 @@
+import assert from 'node:assert/strict';
+import fs from 'node:fs';
+import path from 'node:path';
+import test from 'node:test';
+import { classifyFile, MultiNdjsonTailer } from '../src/tailer.js';
+import type { ZabbixRtxSource } from '../src/types.js';
+import { history, problem, trend, until, withTempDir } from './fixtures.js';
+
+test('splits export file names into family, process and index', () => {
+  assert.deepEqual(classifyFile('history-history-syncer-3.ndjson'), { file: 'history-history-syncer-3.ndjson', family: 'history', process: 'history-syncer', index: 3 });
+  assert.deepEqual(classifyFile('problems-main-process-0.ndjson'), { file: 'problems-main-process-0.ndjson', family: 'problems', process: 'main-process', index: 0 });
+  assert.deepEqual(classifyFile('trends-history-syncer-12.ndjson'), { file: 'trends-history-syncer-12.ndjson', family: 'trends', process: 'history-syncer', index: 12 });
+  // 書式から外れても接頭辞で family だけは決める
+  assert.deepEqual(classifyFile('trends-manual.ndjson'), { file: 'trends-manual.ndjson', family: 'trends', process: null, index: null });
+  assert.equal(classifyFile('custom.ndjson').family, 'other');
+});
+
+test('tails trends by default and labels every envelope source', () => withTempDir(async dir => {
+  const files = {
+    'problems-task-manager-1.ndjson': problem(),
+    'history-history-syncer-2.ndjson': history(),
+    'trends-history-syncer-3.ndjson': trend(),
+  };
+  for (const name of Object.keys(files)) await fs.promises.writeFile(path.join(dir, name), '');
+  const multi = new MultiNdjsonTailer(dir, { name: 'zbx', intervalMs: 20 });
+  const sources: ZabbixRtxSource[] = [];
+  multi.on('data', ({ source }: { source: ZabbixRtxSource }) => sources.push(source));
+  await multi.start();
+  try {
+    for (const [name, record] of Object.entries(files)) await fs.promises.appendFile(path.join(dir, name), JSON.stringify(record) + '\n');
+    await until(() => sources.length === 3);
+  } finally {
+    await multi.stop();
+  }
+  sources.sort((a, b) => a.index! - b.index!);
+  assert.deepEqual(sources.map(s => [s.name, s.family, s.process, s.index]), [
+    ['zbx', 'problems', 'task-manager', 1],
+    ['zbx', 'history', 'history-syncer', 2],
+    ['zbx', 'trends', 'history-syncer', 3],
+  ]);
+}));
@@ -0,0 +1,60 @@
+import assert from 'node:assert/strict';
+import fs from 'node:fs';
+import path from 'node:path';
+import test from 'node:test';
+import { ConfigError, loadConfig, parseArgs } from '../src/config.js';
+import { withTempDir } from './fixtures.js';
+
+async function problems(env: NodeJS.ProcessEnv, file: string | null = null): Promise<string[]> {
+  try {
+    await loadConfig(file, env);
+  } catch (err) {
+    if (err instanceof ConfigError) return err.problems;
+    throw err;
+  }
+  return [];
+}
+
+test('defaults describe a single source over tail.dir', async () => {
+  const config = await loadConfig(null, {});
+  assert.equal(config.http.port, 3000);
+  assert.equal(config.ring.capacity, 1000);
+  assert.deepEqual(config.aggregates.windows, [60_000, 300_000, 900_000]);
+  assert.deepEqual(config.sources, [{
+    name: 'default', dir: path.resolve('./zbx-rtx'), patterns: config.tail.patterns, ignorePatterns: ['\\.old$'], startAtEnd: true,
+  }]);
+});
+
+test('environment overrides the config file', () => withTempDir(async dir => {
+  const file = path.join(dir, 'config.json');
+  await fs.promises.writeFile(file, JSON.stringify({ http: { port: 8080 }, ring: { capacity: 50 }, tail: { startAtEnd: false }, journal: { dir: 'off' } }));
+  const config = await loadConfig(file, { RB_CAPACITY: '200', ZBX_RTX_SOURCES: 'a=/data/a,b=/data/b' });
+  assert.equal(config.http.port, 8080);
+  assert.equal(config.ring.capacity, 200);
+  assert.equal(config.journal.dir, null);
+  assert.deepEqual(config.sources.map(s => [s.name, s.dir, s.startAtEnd]), [['a', '/data/a', false], ['b', '/data/b', false]]);
+}));
+
+test('reports every invalid value with where it came from', () => withTempDir(async dir => {
+  const file = path.join(dir, 'config.json');
+  await fs.promises.writeFile(file, JSON.stringify({ http: { prot: 1 }, sse: { slowPolicy: 'wait' } }));
+  const found = await problems({ RB_CAPACITY: '1k', AGG_WINDOWS: '5m,500', TAIL_PATTERNS: '[' }, file);
+  assert.equal(found.length, 5);
+  assert.match(found.join('\n'), /unknown option http\.prot/);
+  assert.match(found.join('\n'), /ring\.capacity: integer 1\.\.10000000 expected, got "1k" \(from env RB_CAPACITY\)/);
+  assert.match(found.join('\n'), /sse\.slowPolicy: one of drop\|disconnect\|replay expected, got "wait"/);
+  assert.match(found.join('\n'), /aggregates\.windows/);
+  assert.match(found.join('\n'), /tail\.patterns/);
+}));
+
+test('validates sources and sinks', async () => {
+  assert.match((await problems({ ZBX_RTX_SOURCES: 'a=/x,a=/y' }))[0], /^sources:/);
+  assert.match((await problems({ ZBX_RTX_SINKS: '[{"name":"w","type":"webhook"}]' }))[0], /sinks\[0\]\.url: required/);
+  assert.match((await problems({ ZBX_RTX_SINKS: '[{"name":"f","type":"file","dir":"/tmp","filter":{"family":"bogus"}}]' }))[0], /sinks\[0\]\.filter:/);
+});
+
+test('parses command-line arguments', () => {
+  assert.deepEqual(parseArgs(['--config', 'a.json', '--print-config']), { configFile: 'a.json', printConfig: true });
+  assert.deepEqual(parseArgs(['--config=b.json']), { configFile: 'b.json', printConfig: false });
+  assert.throws(() => parseArgs(['--verbose']), ConfigError);
+});
@@ -0,0 +1,18 @@
+import assert from 'node:assert/strict';
+import test from 'node:test';
+import { DASHBOARD_HTML } from '../src/dashboard.js';
+
+const script = /<script>([\s\S]*)<\/script>/.exec(DASHBOARD_HTML)?.[1] ?? '';
+
+test('page script compiles and builds the DOM without innerHTML', () => {
+  assert.ok(script.length > 0);
+  assert.doesNotThrow(() => new Function(script)); // 実行はしない（構文だけ確認）
+  assert.doesNotMatch(script, /innerHTML|insertAdjacentHTML|document\.write/);
+});
+
+test('page subscribes to the events the server publishes', () => {
+  for (const name of ['problem.snapshot', 'problem.opened', 'problem.resolved', 'zabbix.history', 'gap', 'reset', 'zabbix.system.stall']) {
+    assert.ok(script.includes(`addEventListener('${name}'`), name);
+  }
+  assert.match(script, /snapshot: 'problems'/);
+});
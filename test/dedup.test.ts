@@ -0,0 +1,42 @@
+import assert from 'node:assert/strict';
+import test from 'node:test';
+import { Deduplicator } from '../src/dedup.js';
+import type { ZabbixRecord } from '../src/types.js';
+import { envelope, history, problem, recovery, trend } from './fixtures.js';
+
+const all = () => new Deduplicator({ families: ['problems', 'history', 'trends'], windowSize: 100 });
+const seen = (d: Deduplicator, record: ZabbixRecord, o: { source?: string; round?: number } = {}) => {
+  const { source } = envelope(0, record, { source: o.source });
+  return d.duplicate(o.round != null ? { ...source, replay: { round: o.round } } : source, record);
+};
+
+test('drops records with the same natural key', () => {
+  const d = all();
+  assert.equal(seen(d, problem({ eventid: 1 })), false);
+  assert.equal(seen(d, problem({ eventid: 1, name: 'renamed' })), true);
+  assert.equal(seen(d, recovery({ eventid: 1 })), false); // PROBLEM と RECOVERY は別キー
+  assert.equal(seen(d, history({ ns: 1 })), false);
+  assert.equal(seen(d, history({ ns: 1, value: 99 })), true);
+  assert.equal(seen(d, history({ ns: 2 })), false);
+  assert.equal(seen(d, trend()), false);
+  assert.equal(seen(d, trend({ avg: 9 })), true);
+  assert.deepEqual(d.duplicates, { problems: 1, history: 1, trends: 1, derived: 0, other: 0 });
+});
+
+test('keys are independent per source and replay round', () => {
+  const d = all();
+  assert.equal(seen(d, history(), { source: 'zbx-a' }), false);
+  assert.equal(seen(d, history(), { source: 'zbx-b' }), false);
+  assert.equal(seen(d, history(), { source: 'zbx-a', round: 2 }), false);
+  assert.equal(seen(d, history(), { source: 'zbx-a', round: 2 }), true);
+});
+
+test('only checks enabled families and forgets keys beyond the window', () => {
+  const d = new Deduplicator({ families: ['history'], windowSize: 2 });
+  assert.equal(seen(d, problem()), false);
+  assert.equal(seen(d, problem()), false);
+  for (const ns of [1, 2, 3]) seen(d, history({ ns }));
+  assert.equal(d.size, 2);
+  assert.equal(seen(d, history({ ns: 1 })), false); // 追い出し済み
+  assert.equal(seen(d, history({ ns: 3 })), true);
+});
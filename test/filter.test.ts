@@ -0,0 +1,68 @@
+import assert from 'node:assert/strict';
+import test from 'node:test';
+import { EventFilter, ProblemIndex } from '../src/filter.js';
+import { envelope, history, problem, recovery, trend } from './fixtures.js';
+
+const cpu = envelope(1, history());
+const mem = envelope(2, history({ itemid: 200, host: { host: 'db01', name: 'DB 01' }, groups: ['Databases'], item_tags: [{ tag: 'component', value: 'memory' }] }));
+const high = envelope(3, problem({ eventid: 10, severity: 4 }));
+const warn = envelope(4, problem({ eventid: 11, severity: 2, tags: [{ tag: 'service', value: 'db' }] }));
+
+function matching(q: Record<string, string | string[]>, envs = [cpu, mem, high, warn]) {
+  const f = EventFilter.fromQuery(q);
+  return envs.filter(e => f.matches(e)).map(e => e.id);
+}
+
+test('an empty filter matches everything', () => {
+  assert.ok(EventFilter.fromQuery({}).empty);
+  assert.deepEqual(matching({}), [1, 2, 3, 4]);
+});
+
+test('values within a parameter are OR, parameters are AND', () => {
+  assert.deepEqual(matching({ family: 'history' }), [1, 2]);
+  assert.deepEqual(matching({ host: ['web01', 'db01'] }), [1, 2, 3, 4]);
+  assert.deepEqual(matching({ family: 'history', host: 'db01' }), [2]);
+  assert.deepEqual(matching({ hostgroup: 'Databases,Nope' }), [2]);
+  assert.deepEqual(matching({ itemid: '100,300' }), [1]);
+});
+
+test('severity applies only to problems and accepts a lower bound', () => {
+  assert.deepEqual(matching({ severity: '4' }), [3]);
+  assert.deepEqual(matching({ 'severity>': '2' }), [3, 4]);
+});
+
+test('tag matches by name or name:value', () => {
+  assert.deepEqual(matching({ tag: 'component' }), [1, 2]);
+  assert.deepEqual(matching({ tag: 'component:memory' }), [2]);
+  assert.deepEqual(matching({ tag: 'service:db' }), [4]);
+});
+
+test('rejects unknown families and out-of-range numbers', () => {
+  assert.throws(() => EventFilter.fromQuery({ family: 'bogus' }), /family/);
+  assert.throws(() => EventFilter.fromQuery({ severity: '6' }), /severity/);
+  assert.throws(() => EventFilter.fromQuery({ itemid: 'x' }), /itemid/);
+});
+
+test('recovery is judged by the problem it resolves, per source', () => {
+  const index = new ProblemIndex(10);
+  index.add(problem({ eventid: 10, severity: 5 }), 'zbx-a');
+  const f = EventFilter.fromQuery({ 'severity>': '4' }, (id, source) => index.get(id, source));
+  assert.ok(f.matches(envelope(5, recovery({ p_eventid: 10 }), { source: 'zbx-a' })));
+  assert.ok(!f.matches(envelope(6, recovery({ p_eventid: 10 }), { source: 'zbx-b' })));
+  assert.ok(!f.matches(envelope(7, recovery({ p_eventid: 99 }), { source: 'zbx-a' })));
+  // 条件がなければ problem が無くても通す
+  assert.ok(EventFilter.fromQuery({ family: 'problems' }).matches(envelope(8, recovery({ p_eventid: 99 }))));
+});
+
+test('within() narrows the filter to a scope', () => {
+  const f = EventFilter.fromQuery({ family: 'history' }).within(EventFilter.fromQuery({ hostgroup: 'Databases' }));
+  assert.ok(!f.empty);
+  assert.deepEqual([cpu, mem, high, envelope(9, trend())].filter(e => f.matches(e)).map(e => e.id), [2]);
+});
+
+test('problem index evicts the oldest entry', () => {
+  const index = new ProblemIndex(2);
+  for (const eventid of [1, 2, 3]) index.add(problem({ eventid }), 's');
+  assert.equal(index.get(1, 's'), undefined);
+  assert.equal(index.get(3, 's')?.eventid, 3);
+});
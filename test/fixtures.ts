@@ -0,0 +1,108 @@
+import fs from 'node:fs';
+import os from 'node:os';
+import path from 'node:path';
+import type {
+  Family,
+  ZabbixHistoryFloat,
+  ZabbixProblemEvent,
+  ZabbixRecord,
+  ZabbixRecoveryEvent,
+  ZabbixRtxEnvelope,
+  ZabbixTrendRecord
+} from '../src/types.js';
+
+// テスト用のレコード・エンベロープ（省略した項目は固定値）
+
+export function history(o: Partial<ZabbixHistoryFloat> = {}): ZabbixHistoryFloat {
+  return {
+    host: { host: 'web01', name: 'Web 01' },
+    groups: ['Linux servers'],
+    item_tags: [{ tag: 'component', value: 'cpu' }],
+    itemid: 100,
+    name: 'CPU utilization',
+    clock: 1_700_000_000,
+    ns: 0,
+    type: 0,
+    value: 1.5,
+    ...o,
+  };
+}
+
+export function trend(o: Partial<ZabbixTrendRecord> = {}): ZabbixTrendRecord {
+  return {
+    host: { host: 'web01', name: 'Web 01' },
+    groups: ['Linux servers'],
+    item_tags: [],
+    itemid: 100,
+    name: 'CPU utilization',
+    clock: 1_700_000_000,
+    count: 60,
+    min: 1,
+    avg: 2,
+    max: 3,
+    type: 0,
+    ...o,
+  };
+}
+
+export function problem(o: Partial<ZabbixProblemEvent> = {}): ZabbixProblemEvent {
+  return {
+    clock: 1_700_000_000,
+    ns: 0,
+    value: 1,
+    eventid: 1,
+    name: 'High CPU',
+    severity: 4,
+    hosts: [{ host: 'web01', name: 'Web 01' }],
+    groups: ['Linux servers'],
+    tags: [{ tag: 'service', value: 'web' }],
+    ...o,
+  };
+}
+
+export function recovery(o: Partial<ZabbixRecoveryEvent> = {}): ZabbixRecoveryEvent {
+  return { clock: 1_700_000_060, ns: 0, value: 0, eventid: 2, p_eventid: 1, ...o };
+}
+
+const FAMILY_FILE: Record<Family, string> = {
+  problems: 'problems-task-manager-1.ndjson',
+  history: 'history-history-syncer-1.ndjson',
+  trends: 'trends-history-syncer-1.ndjson',
+  derived: 'rules.json',
+  other: 'other.ndjson',
+};
+
+function familyOf(r: ZabbixRecord): Family {
+  if ('rule' in r) return 'derived';
+  if ('itemid' in r) return 'value' in r ? 'history' : 'trends';
+  return 'problems';
+}
+
+export function envelope(id: number, record: ZabbixRecord, o: { source?: string; family?: Family } = {}): ZabbixRtxEnvelope {
+  const family = o.family ?? familyOf(record);
+  return {
+    id,
+    time: 0,
+    source: { name: o.source ?? 'default', file: FAMILY_FILE[family], family, process: null, index: null },
+    record,
+  };
+}
+
+/** 一時ディレクトリを作り、fn の後に消す */
+export async function withTempDir<T>(fn: (dir: string) => Promise<T>): Promise<T> {
+  const dir = await fs.promises.mkdtemp(path.join(os.tmpdir(), 'zbx-rtx-test-'));
+  try {
+    return await fn(dir);
+  } finally {
+    await fs.promises.rm(dir, { recursive: true, force: true });
+  }
+}
+
+/** cond が真になるまで待つ（timeoutMs で失敗） */
+export async function until(cond: () => boolean, timeoutMs = 5000): Promise<void> {
+  const deadline = Date.now() + timeoutMs;
+  while (!cond()) {
+    if (Date.now() > deadline) throw new Error('timed out waiting for condition');
+    await new Promise(r => setTimeout(r, 10));
+  }
+}
@@ -0,0 +1,80 @@
+import assert from 'node:assert/strict';
+import test from 'node:test';
+import { EventFilter } from '../src/filter.js';
+import { StallDetector, summarize } from '../src/health.js';
+import { openapiPaths } from '../src/router.js';
+import { healthRoutes } from '../src/routes.js';
+import type { SourceHealth, TailerStats } from '../src/tailer.js';
+
+const file = (name: string, o: Partial<TailerStats> = {}): TailerStats => ({
+  file: `/var/lib/zabbix/export/${name}`, open: true, inode: 42, offset: 10, size: 10, lines: 1, bytes: 10, reopens: 0, shrinks: 0,
+  parseErrors: 0, oversized: 0, lastLineAt: 1000, lastGrowthAt: 1000, lastWarn: { at: 900, msg: 'poll error', err: 'EACCES /var/lib' }, ...o,
+});
+const source = (name: string, files: TailerStats[], o: Partial<SourceHealth> = {}): SourceHealth =>
+  ({ name, dir: '/var/lib/zabbix/export', status: 'ok', lastError: null, lastScanAt: 1000, lastDataAt: 1000, files, ...o });
+
+test('flags files that stop growing and reports their recovery', () => {
+  const sources = [source('zbx-a', [file('history-history-syncer-1.ndjson'), file('trends-history-syncer-1.ndjson')])];
+  const stall = new StallDetector(() => sources, { stallMs: 5000, families: ['history'] });
+  const events: unknown[] = [];
+  stall.on('stall', e => events.push([e.state, e.source, e.file, e.family, e.idleMs]));
+  stall.check(5999);
+  assert.equal(stall.size, 0);
+  stall.check(6000);
+  stall.check(7000); // 停滞中は繰り返さない
+  assert.equal(stall.report(7000).status, 'stalled');
+  sources[0].files[0].lastGrowthAt = 8000;
+  stall.check(8500);
+  assert.deepEqual(events, [
+    ['stalled', 'zbx-a', 'history-history-syncer-1.ndjson', 'history', 5000],
+    ['recovered', 'zbx-a', 'history-history-syncer-1.ndjson', 'history', 7000],
+  ]);
+  assert.equal(stall.report(8500).status, 'ok');
+});
+
+test('reports starting and down before stalls', () => {
+  const sources = [source('zbx-a', [file('history-history-syncer-1.ndjson')]), source('zbx-b', [], { lastScanAt: null })];
+  const stall = new StallDetector(() => sources, { stallMs: null, families: ['history'] });
+  stall.check(1_000_000);
+  assert.equal(stall.size, 0); // stallMs=null では検知しない
+  const report = stall.report(2000);
+  assert.equal(report.status, 'starting');
+  assert.equal(report.stallMs, null);
+  assert.equal(report.sources[0].files[0].idleMs, 1000);
+  sources[1] = source('zbx-b', [], { status: 'down', lastError: 'ENOENT' });
+  assert.equal(stall.report(2000).status, 'down');
+});
+
+test('summarizes without paths, inodes, offsets or warnings', () => {
+  const stall = new StallDetector(() => [source('zbx-a', [file('history-history-syncer-1.ndjson')])], { stallMs: null, families: [] });
+  const summary = summarize(stall.report(3000));
+  assert.deepEqual(summary.sources, [{
+    name: 'zbx-a', status: 'ok', lastScanAt: 1000, lastDataAt: 1000,
+    files: [{ file: 'history-history-syncer-1.ndjson', open: true, lastLineAt: 1000, stalled: false, idleMs: 2000 }],
+  }]);
+  assert.doesNotMatch(JSON.stringify(summary), /\/var\/lib|EACCES|inode|offset/);
+});
+
+test('health routes require the health route only when configured', () => {
+  const open = healthRoutes(false);
+  assert.equal(open.healthz.auth, null);
+  const paths = openapiPaths([open.healthz, healthRoutes(true).readyz]) as Record<string, { get: { security: unknown[]; responses: Record<string, unknown> } }>;
+  assert.deepEqual(paths['/healthz'].get.security, []);
+  assert.equal(paths['/healthz'].get.responses['401'], undefined);
+  assert.match(JSON.stringify(paths['/healthz'].get.responses['200']), /HealthSummary/);
+  assert.ok(paths['/readyz'].get.security.length > 0);
+  assert.deepEqual(Object.keys(paths['/readyz'].get.responses).sort(), ['200', '401', '403', '406', '503']);
+  assert.match(JSON.stringify(paths['/readyz'].get.responses['200']), /HealthReport/);
+});
+
+test('system events match by source and family within the key scope', () => {
+  const origin = { source: 'zbx-a', family: 'history' as const };
+  assert.ok(EventFilter.fromQuery({}).matchesSystem(origin));
+  assert.ok(EventFilter.fromQuery({ host: 'db01' }).matchesSystem(origin)); // host 等は問わない
+  assert.ok(!EventFilter.fromQuery({ source: 'zbx-b' }).matchesSystem(origin));
+  assert.ok(!EventFilter.fromQuery({ family: 'problems' }).matchesSystem(origin));
+  const scoped = (family: string, system = true) => EventFilter.fromQuery({}).within(EventFilter.fromQuery({ family }), system);
+  assert.ok(scoped('history').matchesSystem(origin));
+  assert.ok(!scoped('problems').matchesSystem(origin));
+  assert.ok(!scoped('history', false).matchesSystem(origin)); // routes に health を持たないキー
+});
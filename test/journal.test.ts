@@ -0,0 +1,158 @@
+import assert from 'node:assert/strict';
+import fs from 'node:fs';
+import path from 'node:path';
+import test from 'node:test';
+import { EventFilter } from '../src/filter.js';
+import { Journal, queryEvents } from '../src/journal.js';
+import { replaySince, type ReplayTarget } from '../src/replay.js';
+import { RingBuffer } from '../src/ringbuffer.js';
+import { envelope, history, withTempDir } from './fixtures.js';
+
+const env = (id: number) => envelope(id, history({ itemid: 100 + id % 2, ns: id }));
+const opts = { segmentBytes: 1024 * 1024, maxBytes: 1024 * 1024 * 1024, maxAgeMs: 3_600_000 };
+const tick = () => new Promise(r => setTimeout(r, 5));
+
+async function write(dir: string, from: number, to: number, o = opts) {
+  const journal = new Journal(dir, o);
+  await journal.open();
+  for (let id = from; id <= to; id++) journal.append(env(id));
+  await journal.close();
+}
+
+async function ids(journal: Journal, sinceId: number, limit: number) {
+  return (await journal.query({ sinceId, beforeId: journal.latestId() + 1, limit })).items.map(e => e.id);
+}
+
+test('keeps ids monotonic across reopen and rolls segments', () => withTempDir(async dir => {
+  const journal = new Journal(dir, { ...opts, segmentBytes: 1000 });
+  await journal.open();
+  for (let id = 1; id <= 20; id++) {
+    journal.append(env(id));
+    await tick(); // 1 回の書き込みにまとめさせない
+  }
+  await journal.close();
+  assert.ok((await fs.promises.readdir(dir)).filter(n => n.endsWith('.ndjson')).length > 1);
+
+  const again = new Journal(dir, opts);
+  await again.open();
+  try {
+    assert.equal(again.latestId(), 20);
+    assert.equal(again.oldestId(), 1);
+    assert.throws(() => again.append(env(20)), /non-monotonic/);
+    assert.deepEqual(await ids(again, 5, 100), Array.from({ length: 15 }, (_, i) => i + 6));
+    const odd = await again.query({ sinceId: 0, beforeId: 10, limit: 100, filter: EventFilter.fromQuery({ itemid: '101' }) });
+    assert.deepEqual(odd.items.map(e => e.id), [1, 3, 5, 7, 9]);
+  } finally {
+    await again.close();
+  }
+}));
+
+test('truncates a partial last line left by a crash', () => withTempDir(async dir => {
+  await write(dir, 1, 3);
+  const [seg] = (await fs.promises.readdir(dir)).filter(n => n.endsWith('.ndjson'));
+  await fs.promises.appendFile(path.join(dir, seg), '{"id":4,"ti');
+
+  const journal = new Journal(dir, opts);
+  await journal.open();
+  try {
+    assert.equal(journal.latestId(), 3);
+    journal.append(env(4));
+    assert.deepEqual(await ids(journal, 0, 100), [1, 2, 3, 4]);
+  } finally {
+    await journal.close();
+  }
+  const text = await fs.promises.readFile(path.join(dir, seg), 'utf8');
+  assert.deepEqual(text.trimEnd().split('\n').map(l => JSON.parse(l).id), [1, 2, 3, 4]);
+}));
+
+test('rebuilds a stale index and pages from its marks', () => withTempDir(async dir => {
+  await write(dir, 1, 2000); // 1 行 300 バイト程度 → 複数の mark
+  const [seg] = (await fs.promises.readdir(dir)).filter(n => n.endsWith('.ndjson'));
+  const idxFile = path.join(dir, `${seg}.idx`);
+  const idx = JSON.parse(await fs.promises.readFile(idxFile, 'utf8'));
+  assert.ok(idx.marks.length > 1);
+
+  // marks の無い古い形式 + 後から追記された行（サイズ不一致）
+  await fs.promises.writeFile(idxFile, JSON.stringify({ size: idx.size, min: idx.min, max: idx.max }));
+  await fs.promises.appendFile(path.join(dir, seg), JSON.stringify(env(2001)) + '\n');
+
+  const journal = new Journal(dir, opts);
+  await journal.open();
+  try {
+    assert.equal(journal.latestId(), 2001);
+    const seen: number[] = [];
+    let sinceId = 1234;
+    for (;;) {
+      const page = await journal.query({ sinceId, beforeId: 2002, limit: 300 });
+      seen.push(...page.items.map(e => e.id));
+      if (page.lastId >= 2001) break;
+      sinceId = page.lastId;
+    }
+    assert.deepEqual(seen, Array.from({ length: 767 }, (_, i) => i + 1235));
+  } finally {
+    await journal.close();
+  }
+  assert.ok(Array.isArray(JSON.parse(await fs.promises.readFile(idxFile, 'utf8')).marks));
+}));
+
+test('retention drops the oldest segments with their indexes', () => withTempDir(async dir => {
+  const warnings: unknown[] = [];
+  const warn = console.warn;
+  console.warn = (...args: unknown[]) => { warnings.push(args); };
+  try {
+    const journal = new Journal(dir, { ...opts, segmentBytes: 1000, maxBytes: 3000 });
+    await journal.open();
+    for (let id = 1; id <= 40; id++) {
+      journal.append(env(id));
+      await tick();
+    }
+    await journal.close();
+    assert.ok(journal.oldestId() > 1);
+    const names = await fs.promises.readdir(dir);
+    const segs = names.filter(n => n.endsWith('.ndjson'));
+    assert.deepEqual(names.filter(n => n.endsWith('.idx')).sort(), segs.map(n => `${n}.idx`).sort());
+
+    // 期限切れは最終セグメント以外すべて消す
+    const aged = new Journal(dir, { ...opts, maxAgeMs: -1 });
+    await aged.open();
+    try {
+      assert.deepEqual(await ids(aged, aged.oldestId() - 1, 100), Array.from({ length: 41 - aged.oldestId() }, (_, i) => i + aged.oldestId()));
+    } finally {
+      await aged.close();
+    }
+    assert.equal((await fs.promises.readdir(dir)).filter(n => n.endsWith('.ndjson')).length, 1);
+  } finally {
+    console.warn = warn;
+  }
+  assert.deepEqual(warnings, []);
+}));
+
+test('reads past the ring from the journal, one drained page at a time', () => withTempDir(async dir => {
+  await write(dir, 1, 2500);
+  const journal = new Journal(dir, opts);
+  await journal.open();
+  try {
+    const ring = new RingBuffer(10, { nextId: 2491 });
+    for (let id = 2491; id <= 2500; id++) {
+      const { source, record } = env(id);
+      ring.push({ source, record });
+    }
+
+    const sent: number[] = [];
+    let drains = 0;
+    const target: ReplayTarget = { closed: () => false, reset: () => assert.fail('unexpected reset'), send: e => sent.push(e.id), drained: async () => { drains++; } };
+    await replaySince(ring, journal, 0, new EventFilter(), target, () => { });
+    assert.deepEqual(sent, Array.from({ length: 2500 }, (_, i) => i + 1));
+    assert.equal(drains, 3); // 1000 件ずつ
+
+    // 閉じたら次のページは読まない
+    const partial: number[] = [];
+    let open = true;
+    await replaySince(ring, journal, 0, new EventFilter(), { ...target, closed: () => !open, send: e => { partial.push(e.id); open = false; } }, () => assert.fail('went live'));
+    assert.equal(partial.length, 1000);
+
+    assert.deepEqual((await queryEvents(ring, journal, { sinceId: 2485, limit: 10 })).map(e => e.id), [2486, 2487, 2488, 2489, 2490, 2491, 2492, 2493, 2494, 2495]);
+  } finally {
+    await journal.close();
+  }
+}));
@@ -0,0 +1,35 @@
+import assert from 'node:assert/strict';
+import test from 'node:test';
+import { EventFilter } from '../src/filter.js';
+import { LatestValues } from '../src/latest.js';
+import { envelope, history, problem } from './fixtures.js';
+
+test('keeps the newest value per item by (clock, ns)', () => {
+  const latest = new LatestValues(10);
+  latest.apply(envelope(1, history({ value: 1, clock: 100, ns: 5 })));
+  latest.apply(envelope(2, history({ value: 2, clock: 100, ns: 3 }))); // 古い値は無視
+  latest.apply(envelope(3, history({ value: 3, clock: 100, ns: 5 }))); // 同じ時刻も無視
+  latest.apply(envelope(4, problem()));
+  assert.deepEqual(latest.list().map(v => [v.id, v.value]), [[1, 1]]);
+  latest.apply(envelope(5, history({ value: 4, clock: 101, ns: 0 })));
+  assert.deepEqual(latest.list().map(v => [v.id, v.value, v.clock]), [[5, 4, 101]]);
+});
+
+test('keys items by source and filters by host or tag', () => {
+  const latest = new LatestValues(10);
+  latest.apply(envelope(1, history(), { source: 'zbx-a' }));
+  latest.apply(envelope(2, history(), { source: 'zbx-b' }));
+  latest.apply(envelope(3, history({ itemid: 200, host: { host: 'db01', name: 'DB 01' }, item_tags: [{ tag: 'component', value: 'memory' }] }), { source: 'zbx-a' }));
+  assert.equal(latest.size, 3);
+  assert.deepEqual(latest.list(EventFilter.fromQuery({ host: 'db01' })).map(v => v.id), [3]);
+  assert.deepEqual(latest.list(EventFilter.fromQuery({ tag: 'component:cpu', source: 'zbx-b' })).map(v => v.id), [2]);
+});
+
+test('evicts the least recently updated item', () => {
+  const latest = new LatestValues(2);
+  latest.apply(envelope(1, history({ itemid: 1 })));
+  latest.apply(envelope(2, history({ itemid: 2 })));
+  latest.apply(envelope(3, history({ itemid: 1, clock: 1_700_000_001 })));
+  latest.apply(envelope(4, history({ itemid: 3 })));
+  assert.deepEqual(latest.list().map(v => v.itemid), [1, 3]);
+});
@@ -0,0 +1,54 @@
+import assert from 'node:assert/strict';
+import test from 'node:test';
+import { LineSplitter } from '../src/lines.js';
+
+function split(maxLineBytes = 1024) {
+  const lines: string[] = [];
+  const oversized: number[] = [];
+  const s = new LineSplitter({ maxLineBytes, onLine: l => lines.push(l), onOversized: b => oversized.push(b) });
+  return { s, lines, oversized };
+}
+
+test('keeps multi-byte characters intact across chunk boundaries', () => {
+  const { s, lines } = split();
+  const bytes = Buffer.from('{"name":"ディスク使用率"}\n{"v":"é"}\n');
+  for (let i = 0; i < bytes.length; i++) s.push(bytes.subarray(i, i + 1)); // 1 バイトずつ
+  assert.deepEqual(lines, ['{"name":"ディスク使用率"}', '{"v":"é"}']);
+  assert.equal(s.pending, 0);
+});
+
+test('strips CRLF, passes empty lines and flushes the last line', () => {
+  const { s, lines } = split();
+  s.push(Buffer.from('a\r\n\nb\r'));
+  s.push(Buffer.from('\nc'));
+  assert.deepEqual(lines, ['a', '', 'b']);
+  assert.equal(s.pending, 1);
+  s.flush();
+  assert.deepEqual(lines, ['a', '', 'b', 'c']);
+  s.flush(); // 未完の行がなければ何もしない
+  assert.equal(lines.length, 4);
+});
+
+test('copies pending bytes so the caller may reuse its buffer', () => {
+  const { s, lines } = split();
+  const buf = Buffer.from('abc');
+  s.push(buf);
+  buf.write('xyz');
+  s.push(Buffer.from('\n'));
+  assert.deepEqual(lines, ['abc']);
+});
+
+test('skips oversized lines up to the next newline', () => {
+  const { s, lines, oversized } = split(4);
+  s.push(Buffer.from('ok\n123456\nfine\n'));
+  s.push(Buffer.from('abc'));
+  s.push(Buffer.from('def'));   // 保持中に上限を超える
+  assert.equal(s.pending, 6);
+  s.push(Buffer.from('gh\nend\n'));
+  assert.deepEqual(lines, ['ok', 'fine', 'end']);
+  assert.deepEqual(oversized, [6, 8]);
+  s.push(Buffer.from('toolong'));
+  s.reset();
+  s.push(Buffer.from('x\n'));
+  assert.equal(lines.at(-1), 'x');
+});
@@ -0,0 +1,44 @@
+import assert from 'node:assert/strict';
+import fs from 'node:fs';
+import path from 'node:path';
+import test from 'node:test';
+import { renderMetrics } from '../src/metrics.js';
+import { MultiNdjsonTailer } from '../src/tailer.js';
+import { history, until, withTempDir } from './fixtures.js';
+
+test('renders families in the Prometheus text format', () => {
+  const text = renderMetrics([
+    { name: 'zbx_lines_total', help: 'Lines read\nper file', type: 'counter', samples: [{ labels: { file: 'a "b"\\c' }, value: 3 }] },
+    { name: 'zbx_lag', help: 'Lag', type: 'gauge', samples: [{ value: NaN }, { labels: {}, value: Infinity }] },
+  ]);
+  assert.equal(text, [
+    '# HELP zbx_lines_total Lines read\\nper file',
+    '# TYPE zbx_lines_total counter',
+    'zbx_lines_total{file="a \\"b\\"\\\\c"} 3',
+    '# HELP zbx_lag Lag',
+    '# TYPE zbx_lag gauge',
+    'zbx_lag NaN',
+    'zbx_lag +Inf',
+    '',
+  ].join('\n'));
+});
+
+test('tailer stats count lines, bytes and parse errors per file', () => withTempDir(async dir => {
+  const file = path.join(dir, 'history-history-syncer-1.ndjson');
+  await fs.promises.writeFile(file, '');
+  const multi = new MultiNdjsonTailer(dir, { intervalMs: 20 });
+  multi.on('parse_error', () => { });
+  await multi.start();
+  try {
+    const body = JSON.stringify(history()) + '\n' + 'not json\n' + JSON.stringify(history({ ns: 1 })) + '\n';
+    await fs.promises.appendFile(file, body);
+    await until(() => multi.stats()[0]?.lines === 3);
+    const [st] = multi.stats();
+    assert.equal(st.parseErrors, 1);
+    assert.equal(st.bytes, Buffer.byteLength(body));
+    assert.equal(st.size - st.offset, 0);
+    assert.equal(st.reopens, 0);
+  } finally {
+    await multi.stop();
+  }
+}));
@@ -0,0 +1,51 @@
+import assert from 'node:assert/strict';
+import test from 'node:test';
+import { EventFilter } from '../src/filter.js';
+import { ProblemTracker } from '../src/problems.js';
+import type { ResolvedProblem } from '../src/types.js';
+import { envelope, history, problem, recovery } from './fixtures.js';
+
+test('tracks open problems and emits opened / resolved', () => {
+  const tracker = new ProblemTracker();
+  const opened: number[] = [];
+  const resolved: ResolvedProblem[] = [];
+  tracker.on('opened', p => opened.push(p.eventid));
+  tracker.on('resolved', p => resolved.push(p));
+
+  tracker.apply(envelope(1, problem({ eventid: 10 })));
+  tracker.apply(envelope(2, problem({ eventid: 11, severity: 2 })));
+  tracker.apply(envelope(3, history())); // problems 以外は無視
+  tracker.apply(envelope(4, recovery({ eventid: 12, p_eventid: 10, clock: 1_700_000_090 })));
+  tracker.apply(envelope(5, recovery({ eventid: 13, p_eventid: 99 }))); // 未知の problem
+
+  assert.deepEqual(opened, [10, 11]);
+  assert.equal(resolved.length, 1);
+  assert.equal(resolved[0].eventid, 10);
+  assert.equal(resolved[0].id, 1);
+  assert.equal(resolved[0].duration, 90);
+  assert.deepEqual(tracker.list().map(p => p.eventid), [11]);
+});
+
+test('keys problems by source and filters by the PROBLEM envelope', () => {
+  const tracker = new ProblemTracker();
+  tracker.apply(envelope(1, problem({ eventid: 10 }), { source: 'zbx-a' }));
+  tracker.apply(envelope(2, problem({ eventid: 10, severity: 2 }), { source: 'zbx-b' }));
+  tracker.apply(envelope(3, recovery({ p_eventid: 10 }), { source: 'zbx-b' }));
+  assert.deepEqual(tracker.list().map(p => p.source.name), ['zbx-a']);
+
+  tracker.apply(envelope(4, problem({ eventid: 11, severity: 2 }), { source: 'zbx-a' }));
+  assert.deepEqual(tracker.list(EventFilter.fromQuery({ 'severity>': '3' })).map(p => p.eventid), [10]);
+  assert.equal(tracker.size, 2);
+});
+
+test('silent apply restores state without events', () => {
+  const tracker = new ProblemTracker();
+  let events = 0;
+  tracker.on('opened', () => events++);
+  tracker.on('resolved', () => events++);
+  tracker.apply(envelope(1, problem({ eventid: 10 })), true);
+  tracker.apply(envelope(2, problem({ eventid: 11 })), true);
+  tracker.apply(envelope(3, recovery({ p_eventid: 10 })), true);
+  assert.equal(events, 0);
+  assert.deepEqual(tracker.list().map(p => p.eventid), [11]);
+});
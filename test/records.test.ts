@@ -0,0 +1,55 @@
+import assert from 'node:assert/strict';
+import test from 'node:test';
+import { eventName, isHistory, isProblem, isRecovery, isTrend, parseRecord } from '../src/records.js';
+import { envelope, history, problem, recovery, trend } from './fixtures.js';
+
+const line = (o: unknown) => JSON.stringify(o);
+
+test('parses problem, recovery, history and trend lines', () => {
+  const p = parseRecord(line(problem()));
+  assert.ok(isProblem(p));
+  assert.equal(p.severity, 4);
+
+  const r = parseRecord(line(recovery()));
+  assert.ok(isRecovery(r));
+  assert.equal(r.p_eventid, 1);
+
+  const h = parseRecord(line(history({ value: 42.5 })));
+  assert.ok(isHistory(h));
+  assert.equal(h.value, 42.5);
+
+  const t = parseRecord(line(trend()));
+  assert.ok(isTrend(t));
+  assert.equal(t.avg, 2);
+});
+
+test('defaults missing item_tags to an empty array', () => {
+  const { item_tags: _, ...old } = history();
+  const h = parseRecord(line(old));
+  assert.ok(isHistory(h));
+  assert.deepEqual(h.item_tags, []);
+});
+
+test('reads logeventid from log history (value type 2)', () => {
+  const h = parseRecord(line({
+    ...history(), type: 2, value: 'disk full', timestamp: 1_700_000_000, source: 'syslog', severity: 3, logeventid: 77,
+  }));
+  assert.ok(isHistory(h) && h.type === 2);
+  assert.equal(h.logeventid, 77);
+  assert.throws(() => parseRecord(line({ ...history(), type: 2, value: 'x', timestamp: 1, source: 's', severity: 0, eventid: 77 })), /logeventid/);
+});
+
+test('rejects malformed lines with a reason', () => {
+  assert.throws(() => parseRecord('{'), SyntaxError);
+  assert.throws(() => parseRecord('[]'), /object expected/);
+  assert.throws(() => parseRecord(line({ foo: 1 })), /unknown export format/);
+  assert.throws(() => parseRecord(line(problem({ severity: 9 as never }))), /severity/);
+  assert.throws(() => parseRecord(line(history({ type: 3, value: -1 } as never))), /unsigned/);
+  assert.throws(() => parseRecord(line(history({ type: 7 } as never))), /unknown value type/);
+  assert.throws(() => parseRecord(line(trend({ type: 1 } as never))), /trends are float/);
+});
+
+test('names events by family', () => {
+  assert.equal(eventName(envelope(1, history())), 'zabbix.history');
+  assert.equal(eventName(envelope(1, problem())), 'zabbix.problems');
+});
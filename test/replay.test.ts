@@ -0,0 +1,71 @@
+import assert from 'node:assert/strict';
+import test from 'node:test';
+import { EventFilter } from '../src/filter.js';
+import { drainBelow, replaySince, type ReplayTarget, type ResetInfo } from '../src/replay.js';
+import { RingBuffer } from '../src/ringbuffer.js';
+import { envelope, history } from './fixtures.js';
+
+function fill(ring: RingBuffer, n: number) {
+  for (let i = 0; i < n; i++) {
+    const { source, record } = envelope(0, history({ itemid: 100 + i % 2, ns: i }));
+    ring.push({ source, record });
+  }
+}
+
+function recorder() {
+  const sent: number[] = [];
+  const resets: ResetInfo[] = [];
+  const target: ReplayTarget = {
+    closed: () => false,
+    reset: info => resets.push(info),
+    send: env => sent.push(env.id),
+    drained: async () => { },
+  };
+  return { sent, resets, target };
+}
+
+test('ring buffer numbers events and evicts the oldest', () => {
+  const ring = new RingBuffer(3, { nextId: 10 });
+  fill(ring, 5);
+  assert.equal(ring.latestId(), 14);
+  assert.equal(ring.oldestId(), 12);
+  assert.deepEqual(ring.query({ sinceId: 12 }).map(e => e.id), [13, 14]);
+  assert.deepEqual(ring.query({ sinceId: 0, limit: 2 }).map(e => e.id), [12, 13]);
+});
+
+test('replays events after sinceId through the filter, then goes live', async () => {
+  const ring = new RingBuffer(10);
+  fill(ring, 6);
+  const { sent, resets, target } = recorder();
+  let liveAt = -1;
+  await replaySince(ring, undefined, 2, EventFilter.fromQuery({ itemid: '100' }), target, () => { liveAt = sent.length; });
+  assert.deepEqual(sent, [3, 5]);
+  assert.equal(liveAt, 2);
+  assert.deepEqual(resets, []);
+});
+
+test('sends reset and replays only the ring when sinceId was evicted', async () => {
+  const ring = new RingBuffer(3);
+  fill(ring, 6);
+  const { sent, resets, target } = recorder();
+  await replaySince(ring, undefined, 1, new EventFilter(), target, () => { });
+  assert.deepEqual(resets, [{ reason: 'evicted', requestedId: 1, oldestId: 4, latestId: 6 }]);
+  assert.deepEqual(sent, [4, 5, 6]);
+});
+
+test('sends reset for an id that was never assigned', async () => {
+  const ring = new RingBuffer(3);
+  fill(ring, 2);
+  const { sent, resets, target } = recorder();
+  await replaySince(ring, undefined, 99, new EventFilter(), target, () => { });
+  assert.equal(resets[0].reason, 'unknown');
+  assert.deepEqual(sent, [1, 2]);
+});
+
+test('drainBelow resolves once the queue drains and rejects on timeout', async () => {
+  let pending = 10;
+  setTimeout(() => { pending = 0; }, 150);
+  await drainBelow(5, () => pending, () => false, 2000);
+  await assert.rejects(drainBelow(5, () => 10, () => false, 150), /did not drain/);
+  await drainBelow(5, () => 10, () => true, 150); // 閉じたら即座に返す
+});
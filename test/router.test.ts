@@ -0,0 +1,112 @@
+import assert from 'node:assert/strict';
+import type http from 'node:http';
+import test from 'node:test';
+import { AuthError } from '../src/auth.js';
+import { negotiate, Router, validated, type RequestContext, type RouteDecl } from '../src/router.js';
+
+interface Reply {
+  status: number;
+  headers: http.OutgoingHttpHeaders;
+  body: Record<string, any>;
+}
+
+// setHeader / writeHead / end だけを受け取る応答
+function request(router: Router, url: string, headers: http.IncomingHttpHeaders = {}, method = 'GET'): Reply {
+  const reply: Reply = { status: 200, headers: {}, body: {} };
+  const res = {
+    headersSent: false,
+    setHeader(k: string, v: string) { reply.headers[k] = v; },
+    writeHead(status: number, h: http.OutgoingHttpHeaders) { reply.status = status; Object.assign(reply.headers, h); this.headersSent = true; },
+    end(data?: string) { if (data) reply.body = JSON.parse(data); },
+  };
+  router.handle({ url, method, headers } as http.IncomingMessage, res as unknown as http.ServerResponse);
+  return reply;
+}
+
+const items: RouteDecl = {
+  path: '/items',
+  summary: 'items',
+  produces: ['application/json', 'application/x-ndjson'],
+  auth: params => params.secret ? 'events' : null,
+  parameters: [
+    { name: 'limit', in: 'query', schema: { type: 'integer', minimum: 1, maximum: 100, default: 10 } },
+    { name: 'order', in: 'query', schema: { type: 'string', enum: ['asc', 'desc'] } },
+    { name: 'itemid', in: 'query', schema: { type: 'array', items: { type: 'integer', minimum: 0 } } },
+    { name: 'tag', in: 'query', schema: { type: 'array', items: { type: 'string' } }, explode: true },
+    { name: 'secret', in: 'query', schema: { type: 'string' } },
+  ],
+  responses: {},
+};
+
+function setup(handler?: (ctx: RequestContext) => void) {
+  const auths: string[] = [];
+  const calls: RequestContext[] = [];
+  const router = new Router({
+    authenticate: (req, query, route) => {
+      auths.push(route);
+      if (query.token !== 'ok') throw new AuthError(401, 'API key required');
+      return { id: 'k', families: null, hostgroups: null, routes: null };
+    }
+  });
+  router.get(items, handler ?? (ctx => {
+    calls.push(ctx);
+    ctx.res.writeHead(200, {});
+    ctx.res.end();
+  }));
+  return { router, auths, calls };
+}
+
+test('validates and converts declared parameters', () => {
+  const { router, calls } = setup();
+  request(router, '/items?itemid=1,2&itemid=3&tag=a,b&tag=c&order=desc');
+  assert.deepEqual(calls[0].params, { limit: 10, order: 'desc', itemid: [1, 2, 3], tag: ['a,b', 'c'] });
+  const bad = request(router, '/items?limit=0&order=up&limit2=1&order=asc');
+  assert.equal(bad.status, 400);
+  assert.equal(bad.headers['Content-Type'], 'application/problem+json; charset=utf-8');
+  assert.deepEqual(bad.body.errors.map((e: { name: string }) => e.name), ['limit2', 'limit', 'order']);
+  assert.match(bad.body.errors[1].reason, /integer 1\.\.100 expected, got "0"/);
+  assert.equal(bad.body.errors[2].reason, 'specify once');
+  assert.equal(request(router, '/nope').status, 404);
+  const post = request(router, '/items', {}, 'POST');
+  assert.deepEqual([post.status, post.headers['Allow']], [405, 'GET, HEAD, OPTIONS']);
+});
+
+test('negotiates the response type by q value and specificity', () => {
+  const types = ['application/json', 'application/x-ndjson'];
+  assert.equal(negotiate(undefined, types), 'application/json');
+  assert.equal(negotiate('application/x-ndjson', types), 'application/x-ndjson');
+  assert.equal(negotiate('application/*;q=0.5, application/x-ndjson;q=0.8', types), 'application/x-ndjson');
+  assert.equal(negotiate('*/*;q=0.1, application/json;q=0', types), 'application/x-ndjson');
+  assert.equal(negotiate('text/html', types), null);
+  const { router, calls } = setup();
+  request(router, '/items', { accept: 'application/x-ndjson' });
+  assert.equal(calls[0].type, 'application/x-ndjson');
+  assert.equal(request(router, '/items', { accept: 'text/html' }).status, 406);
+});
+
+test('authenticates only when the declaration asks for it', () => {
+  const { router, auths } = setup();
+  assert.equal(request(router, '/items').status, 200);
+  const denied = request(router, '/items?secret=1');
+  assert.deepEqual([denied.status, denied.headers['WWW-Authenticate']], [401, 'Bearer realm="zabbix-rtx"']);
+  assert.equal(request(router, '/items?secret=1&token=ok').status, 200); // token はどのルートでも受け付ける
+  assert.deepEqual(auths, ['events', 'events']);
+});
+
+test('maps unexpected handler errors to 500 and validation failures to 400', () => {
+  const error = console.error;
+  const logged: unknown[] = [];
+  console.error = (...args: unknown[]) => { logged.push(args); };
+  try {
+    const crash = request(setup(() => { throw new TypeError('x is undefined'); }).router, '/items');
+    assert.deepEqual([crash.status, crash.body.detail], [500, 'internal error']);
+    assert.equal(logged.length, 1);
+    const invalid = request(setup(() => validated(() => { throw new Error('host: bad'); })).router, '/items');
+    assert.deepEqual([invalid.status, invalid.body.detail], [400, 'host: bad']);
+    const auth = request(setup(() => validated(() => { throw new AuthError(403, 'family not permitted'); })).router, '/items');
+    assert.equal(auth.status, 403);
+    assert.equal(logged.length, 1);
+  } finally {
+    console.error = error;
+  }
+});
@@ -0,0 +1,124 @@
+import assert from 'node:assert/strict';
+import fs from 'node:fs';
+import path from 'node:path';
+import test from 'node:test';
+import { RuleEngine } from '../src/rules.js';
+import type { ZabbixDerivedEvent } from '../src/types.js';
+import { envelope, history, problem, until, withTempDir } from './fixtures.js';
+
+async function load(rules: unknown[], opts: { intervalMs?: number; clock?: 'wall' | 'record' } = {}) {
+  return withTempDir(async dir => {
+    const file = path.join(dir, 'rules.json');
+    await fs.promises.writeFile(file, JSON.stringify({ rules }));
+    return RuleEngine.load(file, () => undefined, { intervalMs: opts.intervalMs ?? 1000, clock: opts.clock });
+  });
+}
+
+function collect(engine: RuleEngine) {
+  const out: ZabbixDerivedEvent[] = [];
+  engine.on('derived', (_source, record) => out.push(record));
+  return out;
+}
+
+test('rejects invalid rules with their location', async () => {
+  await assert.rejects(load([{ name: 'a', kind: 'spike' }]), /rules\[0\]\.kind: one of/);
+  await assert.rejects(load([{ name: 'a', kind: 'rate' }]), /"change" or "delta" required/);
+  await assert.rejects(load([{ name: 'a', kind: 'count', count: 5, window: '10ms' }]), /rules\[0\]\.window: duration >= 1s/);
+  await assert.rejects(load([{ name: 'a', kind: 'threshold', op: '>', value: 1, limit: 2 }]), /unknown option limit/);
+  await assert.rejects(load([{ name: 'a', kind: 'absence', after: '1m', filter: { family: 'bogus' } }]), /rules\[0\]\.filter/);
+  await assert.rejects(load([{ name: 'a', kind: 'absence', after: '1m' }, { name: 'a', kind: 'absence', after: '1m' }]), /rules\[1\]\.name: duplicate/);
+});
+
+test('threshold fires and resolves per item', async () => {
+  const engine = await load([{ name: 'cpu-high', kind: 'threshold', op: '>', value: 90, severity: 4, tags: { team: 'web' } }]);
+  const out = collect(engine);
+  engine.apply(envelope(1, history({ value: 95 })));
+  engine.apply(envelope(2, history({ value: 97 }))); // firing のまま
+  engine.apply(envelope(3, history({ itemid: 200, value: 50 })));
+  engine.apply(envelope(4, history({ value: 10 })));
+  assert.deepEqual(out.map(r => [r.state, r.group, r.trigger]), [['firing', '100', 1], ['resolved', '100', 4]]);
+  assert.equal(out[0].message, 'CPU utilization: 95 > 90');
+  assert.deepEqual(out[0].tags, [{ tag: 'team', value: 'web' }]);
+  assert.deepEqual(out[1].item, { itemid: 100, name: 'CPU utilization', value: 10, previous: 97 });
+  assert.deepEqual(engine.ruleStats(), [{ name: 'cpu-high', kind: 'threshold', fired: 1, resolved: 1, active: 0 }]);
+});
+
+test('rate fires on a relative or absolute jump in the given direction', async () => {
+  const engine = await load([
+    { name: 'jump', kind: 'rate', change: 0.5, direction: 'up' },
+    { name: 'drop', kind: 'rate', delta: 30, direction: 'down' },
+  ]);
+  const out = collect(engine);
+  for (const [id, value] of [[1, 40], [2, 50], [3, 80], [4, 40]]) engine.apply(envelope(id, history({ value })));
+  assert.deepEqual(out.map(r => [r.rule, r.trigger]), [['jump', 3], ['drop', 4]]);
+  assert.equal(out[0].message, 'CPU utilization: 50 -> 80 (+60%)');
+});
+
+test('count fires per group and resolves once the window passes', async () => {
+  const engine = await load([{ name: 'storm', kind: 'count', filter: { family: 'problems' }, groupBy: 'hostgroup', window: '1m', count: 2 }], { intervalMs: 20 });
+  const out = collect(engine);
+  const old = Date.now() - 59_500; // まもなく窓から外れる
+  engine.apply(envelope(1, problem({ groups: ['A', 'B'] })), old);
+  engine.apply(envelope(2, problem({ groups: ['A'] })), old);
+  engine.apply(envelope(3, history()), old); // フィルタ外
+  assert.deepEqual(out.map(r => [r.state, r.group, r.count]), [['firing', 'A', 2]]);
+  engine.start();
+  try {
+    await until(() => out.length === 2);
+  } finally {
+    engine.stop();
+  }
+  assert.deepEqual([out[1].state, out[1].group, out[1].trigger], ['resolved', 'A', null]);
+});
+
+test('absence fires when data stops and resolves when it resumes', async () => {
+  const engine = await load([{ name: 'silent', kind: 'absence', after: '1s' }], { intervalMs: 50 });
+  const out = collect(engine);
+  engine.apply(envelope(1, history()));
+  engine.apply(envelope(2, problem())); // item を持たないレコードは対象外
+  engine.start();
+  try {
+    await until(() => out.length === 1);
+    engine.apply(envelope(3, history()));
+  } finally {
+    engine.stop();
+  }
+  assert.deepEqual(out.map(r => [r.state, r.group, r.message]), [['firing', '100', 'no data for 1s (item 100)'], ['resolved', '100', 'data resumed (item 100)']]);
+});
+
+test('derived events are not evaluated again', async () => {
+  const engine = await load([{ name: 'all', kind: 'count', window: '1m', count: 1 }]);
+  const out = collect(engine);
+  engine.apply(envelope(1, history()));
+  const derived = out[0];
+  engine.apply(envelope(2, derived, { family: 'derived' }));
+  assert.equal(out.length, 1);
+});
+
+test('record clock drives count windows, absence and derived clocks, and resets on rewind', async () => {
+  const engine = await load([
+    { name: 'burst', kind: 'count', window: '1m', count: 2 },
+    { name: 'silent', kind: 'absence', filter: { itemid: 100 }, after: '10s' },
+  ], { intervalMs: 20, clock: 'record' });
+  const out = collect(engine);
+  const T = 1_700_000_000;
+  const at = (id: number, sec: number, itemid = 100) => envelope(id, history({ itemid, clock: T + sec }));
+  engine.apply(at(1, 0));
+  engine.apply(at(2, 30, 200));
+  assert.deepEqual(out.map(r => [r.rule, r.state, r.clock]), [['burst', 'firing', T + 30]]);
+
+  engine.apply(at(3, 100, 200)); // item 100 は 100 秒届いていない・burst の窓は過ぎた
+  engine.start();
+  try {
+    await until(() => out.length === 3);
+  } finally {
+    engine.stop();
+  }
+  assert.deepEqual(out.slice(1).map(r => [r.rule, r.state, r.clock]).sort(), [['burst', 'resolved', T + 100], ['silent', 'firing', T + 100]]);
+
+  // ループ再生で先頭に戻ったら時刻に依存する状態をやり直す
+  engine.apply(at(4, 101, 200));
+  engine.apply(at(5, 0, 200));
+  engine.apply(at(6, 1, 200));
+  assert.deepEqual(out.slice(3).map(r => [r.rule, r.state, r.clock]), [['burst', 'firing', T + 101], ['burst', 'firing', T + 1]]);
+});
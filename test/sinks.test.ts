@@ -0,0 +1,119 @@
+import assert from 'node:assert/strict';
+import fs from 'node:fs';
+import http from 'node:http';
+import type { AddressInfo } from 'node:net';
+import path from 'node:path';
+import test from 'node:test';
+import { EventFilter } from '../src/filter.js';
+import { FileSink, WebhookSink, type WebhookSinkOptions } from '../src/sinks.js';
+import { envelope, history, problem, until, withTempDir } from './fixtures.js';
+
+const env = (id: number) => envelope(id, history({ ns: id }));
+
+// status() が返すステータスで応答し、受け取ったバッチの ID を記録する
+async function receiver(status: () => number) {
+  const batches: number[][] = [];
+  const server = http.createServer((req, res) => {
+    let body = '';
+    req.on('data', chunk => { body += chunk; });
+    req.on('end', () => {
+      const code = status();
+      if (code === 200) batches.push(JSON.parse(body).items.map((e: { id: number }) => e.id));
+      res.writeHead(code).end();
+    });
+  });
+  await new Promise<void>(r => server.listen(0, '127.0.0.1', r));
+  const url = `http://127.0.0.1:${(server.address() as AddressInfo).port}/`;
+  return { batches, url, close: () => new Promise(r => server.close(r)) };
+}
+
+function webhook(url: string, spoolDir: string | null, o: Partial<WebhookSinkOptions> = {}) {
+  return new WebhookSink('hook', new EventFilter(), {
+    url, headers: {}, batchSize: 2, flushMs: 10, timeoutMs: 1000, retryInitialMs: 10, retryMaxMs: 50,
+    maxQueue: 2, spoolDir, spoolMaxBytes: 1024 * 1024, ...o,
+  });
+}
+
+// 警告ログを黙らせる
+async function quiet<T>(fn: () => Promise<T>): Promise<T> {
+  const { warn, log } = console;
+  console.warn = console.log = () => { };
+  try { return await fn(); } finally { Object.assign(console, { warn, log }); }
+}
+
+test('webhook batches, retries with backoff and drains its spool in order', () => withTempDir(dir => quiet(async () => {
+  let calls = 0;
+  const rx = await receiver(() => ++calls <= 2 ? 503 : 200);
+  const sink = webhook(rx.url, dir);
+  try {
+    await sink.start();
+    for (let id = 1; id <= 5; id++) sink.push(env(id)); // 3 件目以降はスプールへ
+    await until(() => sink.stats().delivered === 5);
+    assert.deepEqual(rx.batches, [[1, 2], [3, 4], [5]]);
+    const stats = sink.stats();
+    assert.equal(stats.failures, 2);
+    assert.equal(stats.pending, 0);
+    assert.equal(stats.lastDeliveredId, 5);
+    assert.equal(stats.lastError, null);
+  } finally {
+    await sink.stop();
+    await rx.close();
+  }
+})));
+
+test('webhook drops batches rejected with a client error', () => quiet(async () => {
+  const rx = await receiver(() => 400);
+  const sink = webhook(rx.url, null);
+  try {
+    await sink.start();
+    sink.push(env(1));
+    await until(() => sink.stats().dropped === 1);
+    assert.match(sink.stats().lastError ?? '', /HTTP 400/);
+  } finally {
+    await sink.stop();
+    await rx.close();
+  }
+}));
+
+test('webhook keeps undelivered events in the spool across restarts', () => withTempDir(dir => quiet(async () => {
+  const down = await receiver(() => 503);
+  const first = webhook(down.url, dir, { retryInitialMs: 1000 });
+  await first.start();
+  for (let id = 1; id <= 3; id++) first.push(env(id));
+  await until(() => first.stats().failures > 0);
+  await first.stop();
+  await down.close();
+
+  const up = await receiver(() => 200);
+  const second = webhook(up.url, dir);
+  try {
+    await second.start();
+    assert.equal(second.stats().pending, 3);
+    await until(() => second.stats().delivered === 3);
+    assert.deepEqual(up.batches.flat(), [1, 2, 3]);
+  } finally {
+    await second.stop();
+    await up.close();
+  }
+})));
+
+test('file sink rotates, keeps the newest files and leaves other sinks alone', () => withTempDir(async dir => {
+  const other = ['a-x.ndjson', 'a-x-2020-01-01T00-00-00-000Z.ndjson'];
+  for (const n of other) await fs.promises.writeFile(path.join(dir, n), '');
+  const sink = new FileSink('a', EventFilter.fromQuery({ family: 'history' }), { dir, maxBytes: 1024, rotateMs: 0, keep: 2, maxQueue: 100 });
+  await sink.start();
+  sink.push(envelope(100, problem())); // フィルタで除外
+  for (let id = 1; id <= 30; id++) {
+    sink.push(env(id));
+    await new Promise(r => setTimeout(r, 2)); // ローテート名の時刻を重ねない
+  }
+  await sink.stop();
+
+  const names = await fs.promises.readdir(dir);
+  const rotated = names.filter(n => /^a-\d{4}-/.test(n));
+  assert.equal(rotated.length, 2);
+  for (const n of other) assert.ok(names.includes(n), n);
+  const ids = (await fs.promises.readFile(path.join(dir, 'a.ndjson'), 'utf8')).trimEnd().split('\n').map(l => JSON.parse(l).id);
+  assert.equal(ids[ids.length - 1], 30);
+  assert.equal(sink.stats().delivered, 30);
+}));
@@ -0,0 +1,109 @@
+import assert from 'node:assert/strict';
+import type http from 'node:http';
+import test from 'node:test';
+import { EventFilter } from '../src/filter.js';
+import { pushGap, SseHub, ssePacket } from '../src/sse.js';
+import type { ZabbixRtxEnvelope } from '../src/types.js';
+import { envelope, history, until } from './fixtures.js';
+
+// 送信待ちバイト数を操作できる応答
+function response() {
+  const packets: string[] = [];
+  const res = {
+    writableLength: 0,
+    writableEnded: false,
+    destroyed: false,
+    write(pkt: string) { packets.push(pkt); return true; },
+    end() { this.writableEnded = true; },
+  };
+  const events = (name: string) => packets.filter(p => p.includes(`event: ${name}\n`));
+  const data = (pkt: string) => JSON.parse(/^data: (.*)$/m.exec(pkt)![1]);
+  return { res, packets, events, data, http: res as unknown as http.ServerResponse };
+}
+
+const env = (id: number) => envelope(id, history({ ns: id }));
+const broadcast = (hub: SseHub, e: ZabbixRtxEnvelope) => hub.broadcast('zabbix.history', e.record, e.id, e);
+const origin = { source: 'default', family: 'history' as const };
+
+function hub(slow: 'drop' | 'disconnect' | 'replay' = 'drop', replayed: ZabbixRtxEnvelope[] = []) {
+  const calls: number[] = [];
+  const sse = new SseHub({
+    replay: async (sinceId, _filter, target, live) => {
+      calls.push(sinceId);
+      for (const e of replayed) target.send(e);
+      live();
+    },
+    payload: e => e.record,
+  }, { dropThreshold: 100, slow: { policy: slow, maxDrops: 2 } });
+  return { sse, calls };
+}
+
+test('formats SSE packets', () => {
+  assert.equal(ssePacket('gap', { ranges: [] }, 3), 'id: 3\nevent: gap\ndata: {"ranges":[]}\n\n');
+  assert.equal(ssePacket('', 'x'), 'data: x\n\n');
+});
+
+test('pushGap merges consecutive ids and caps the number of ranges', () => {
+  const gaps: [number, number][] = [];
+  for (const id of [1, 2, 3, 5]) pushGap(gaps, id);
+  assert.deepEqual(gaps, [[1, 3], [5, 5]]);
+  for (let id = 7; id < 7 + 200; id += 2) pushGap(gaps, id);
+  assert.equal(gaps.length, 100);
+  assert.deepEqual(gaps[0], [1, 7]); // 先頭の範囲から併合
+});
+
+test('drop policy reports dropped ids as a gap once the client drains', async () => {
+  const { sse } = hub('drop');
+  const c = response();
+  sse.add(c.http, new EventFilter());
+  c.res.writableLength = 1000;
+  for (const id of [1, 2, 4]) broadcast(sse, env(id));
+  sse.broadcastSystem('zabbix.system.stall', {}, origin);
+  assert.equal(c.packets.length, 0);
+  assert.equal(sse.dropped, 4);
+
+  c.res.writableLength = 0;
+  await until(() => c.events('gap').length === 1);
+  assert.deepEqual(c.data(c.events('gap')[0]), { ranges: [[1, 2], [4, 4]], untracked: 1 });
+  broadcast(sse, env(5));
+  assert.equal(c.events('zabbix.history').length, 1);
+});
+
+test('disconnect policy closes the client after maxDrops', () => {
+  const { sse } = hub('disconnect');
+  const c = response();
+  sse.add(c.http, new EventFilter());
+  c.res.writableLength = 1000;
+  broadcast(sse, env(1));
+  assert.equal(sse.size, 1);
+  broadcast(sse, env(2));
+  assert.equal(sse.size, 0);
+  assert.ok(c.res.writableEnded);
+  assert.equal(sse.disconnected, 1);
+});
+
+test('replay policy, set per connection, refills from the first dropped id', async () => {
+  const { sse, calls } = hub('drop', [env(5), env(6), env(7)]);
+  const c = response();
+  sse.add(c.http, new EventFilter(), { policy: 'replay' });
+  c.res.writableLength = 1000;
+  broadcast(sse, env(5));
+  c.res.writableLength = 0;
+  broadcast(sse, env(6)); // 捌けるまでは送らない
+  await until(() => calls.length === 1);
+  assert.equal(calls[0], 4);
+  assert.deepEqual(c.packets.map(p => /^id: (\d+)/.exec(p)?.[1]), ['5', '6', '7']);
+  assert.equal(c.events('gap').length, 0);
+  broadcast(sse, env(8));
+  assert.equal(c.packets.length, 4);
+});
+
+test('skips clients whose filter does not match', () => {
+  const { sse } = hub();
+  const c = response();
+  sse.add(c.http, EventFilter.fromQuery({ family: 'problems' }));
+  broadcast(sse, env(1));
+  sse.broadcastSystem('zabbix.system.stall', {}, origin);
+  assert.equal(c.packets.length, 0);
+  assert.equal(sse.dropped, 0);
+});
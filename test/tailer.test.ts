@@ -0,0 +1,120 @@
+import assert from 'node:assert/strict';
+import fs from 'node:fs';
+import path from 'node:path';
+import test from 'node:test';
+import { EventFilter } from '../src/filter.js';
+import { MultiNdjsonTailer } from '../src/tailer.js';
+import type { ZabbixRecord, ZabbixRtxSource } from '../src/types.js';
+import { envelope, history, until, withTempDir } from './fixtures.js';
+
+const line = (ns: number) => JSON.stringify(history({ ns })) + '\n';
+
+async function tail(dir: string, fn: (got: number[], infos: Record<string, unknown>[]) => Promise<void>) {
+  const multi = new MultiNdjsonTailer(dir, { intervalMs: 50, maxBackoffMs: 100 });
+  const got: number[] = [];
+  const infos: Record<string, unknown>[] = [];
+  multi.on('data', ({ record }: { record: ZabbixRecord }) => got.push('ns' in record ? record.ns : -1));
+  multi.on('info', info => infos.push(info));
+  multi.on('warn', () => { });
+  await multi.start();
+  try {
+    await fn(got, infos);
+  } finally {
+    await multi.stop();
+  }
+}
+
+test('drains the rotated file before switching to the new one', () => withTempDir(async dir => {
+  const file = path.join(dir, 'history-history-syncer-1.ndjson');
+  await fs.promises.writeFile(file, '');
+  await tail(dir, async (got, infos) => {
+    await fs.promises.appendFile(file, line(1));
+    await until(() => got.length === 1);
+    // poll の間に追記 → rename → 新ファイル作成（イベントループを挟まない）
+    fs.appendFileSync(file, line(2) + line(3));
+    fs.renameSync(file, `${file}.old`);
+    fs.writeFileSync(file, line(4));
+    await until(() => got.length === 4);
+    assert.deepEqual(got, [1, 2, 3, 4]);
+    const drained = infos.find(i => /drained old inode/.test(String(i.msg)));
+    assert.equal(drained?.recovered, Buffer.byteLength(line(2) + line(3)));
+  });
+}));
+
+test('reads a file that reappears after vanishing from the start', () => withTempDir(async dir => {
+  const file = path.join(dir, 'history-history-syncer-1.ndjson');
+  await fs.promises.writeFile(file, line(0)); // startAtEnd なので読まない
+  await tail(dir, async (got, infos) => {
+    await fs.promises.appendFile(file, line(1));
+    await until(() => got.length === 1);
+    await fs.promises.rename(file, `${file}.old`);
+    await until(() => infos.some(i => i.msg === 'tailer stopped'));
+    await fs.promises.writeFile(file, line(2) + line(3));
+    await until(() => got.length === 3);
+    assert.deepEqual(got, [1, 2, 3]);
+  });
+}));
+
+test('names each source, applies its patterns and reports its health', () => withTempDir(async dir => {
+  await fs.promises.writeFile(path.join(dir, 'custom-a.ndjson'), '');
+  await fs.promises.writeFile(path.join(dir, 'custom-skip.ndjson'), '');
+  await fs.promises.writeFile(path.join(dir, 'history-history-syncer-1.ndjson'), '');
+  const a = new MultiNdjsonTailer(dir, { name: 'zbx-a', patterns: [/^custom-.*\.ndjson$/], ignorePatterns: [/skip/], intervalMs: 20 });
+  const b = new MultiNdjsonTailer(path.join(dir, 'missing'), { name: 'zbx-b', maxBackoffMs: 100 });
+  const sources: ZabbixRtxSource[] = [];
+  a.on('data', ({ source }: { source: ZabbixRtxSource }) => sources.push(source));
+  b.on('warn', () => { });
+  await a.start();
+  await b.start();
+  try {
+    for (const name of ['custom-a.ndjson', 'custom-skip.ndjson', 'history-history-syncer-1.ndjson']) {
+      await fs.promises.appendFile(path.join(dir, name), line(1));
+    }
+    await until(() => sources.length === 1);
+    await new Promise(r => setTimeout(r, 100));
+    assert.deepEqual(sources.map(s => [s.name, s.file, s.family]), [['zbx-a', 'custom-a.ndjson', 'other']]);
+    assert.deepEqual(a.stats().map(s => path.basename(s.file)), ['custom-a.ndjson']);
+    assert.equal(a.health().status, 'ok');
+    assert.equal(b.health().status, 'down');
+    assert.match(b.health().lastError ?? '', /ENOENT/);
+  } finally {
+    await a.stop();
+    await b.stop();
+  }
+  const f = EventFilter.fromQuery({ source: 'zbx-b' });
+  assert.ok(f.matches(envelope(1, history(), { source: 'zbx-b' })));
+  assert.ok(!f.matches(envelope(2, history(), { source: 'zbx-a' })));
+}));
+
+test('replays recorded files in clock order within the range, looping', () => withTempDir(async dir => {
+  const rec = (sec: number) => JSON.stringify(history({ clock: 1_700_000_000 + sec, ns: sec }));
+  await fs.promises.writeFile(path.join(dir, 'history-history-syncer-1.ndjson'), [-5, 0, 2, 10].map(rec).join('\n') + '\n');
+  await fs.promises.writeFile(path.join(dir, 'history-history-syncer-2.ndjson'), [1, 3].map(rec).join('\n')); // 最終行に改行なし
+  const multi = new MultiNdjsonTailer(dir, { replay: { speed: 0, loop: true, from: 1_700_000_000, to: 1_700_000_005 }, intervalMs: 20 });
+  const got: [number, number | undefined][] = [];
+  multi.on('data', ({ source, record }: { source: ZabbixRtxSource; record: ZabbixRecord }) => {
+    if (got.length < 8) got.push(['ns' in record ? record.ns : -1, source.replay?.round]);
+  });
+  await multi.start();
+  try {
+    await until(() => got.length === 8);
+  } finally {
+    await multi.stop();
+  }
+  assert.deepEqual(got, [[0, 1], [1, 1], [2, 1], [3, 1], [0, 2], [1, 2], [2, 2], [3, 2]]);
+}));
+
+test('paces replay by record clock divided by speed', () => withTempDir(async dir => {
+  const rec = (sec: number) => JSON.stringify(history({ clock: 1_700_000_000 + sec, ns: sec })) + '\n';
+  await fs.promises.writeFile(path.join(dir, 'history-history-syncer-1.ndjson'), rec(0) + rec(3));
+  const multi = new MultiNdjsonTailer(dir, { replay: { speed: 10, loop: false, from: null, to: null }, intervalMs: 20 });
+  const at: number[] = [];
+  multi.on('data', () => at.push(Date.now()));
+  await multi.start();
+  try {
+    await until(() => at.length === 2);
+  } finally {
+    await multi.stop();
+  }
+  assert.ok(at[1] - at[0] >= 250, `${at[1] - at[0]}ms`); // 3 秒 / 10 倍速
+}));
@@ -0,0 +1,73 @@
+import assert from 'node:assert/strict';
+import test from 'node:test';
+import { EventFilter } from '../src/filter.js';
+import { Journal, queryRange } from '../src/journal.js';
+import { RingBuffer } from '../src/ringbuffer.js';
+import { decodeCursor, encodeCursor, parseClock, type RangeRequest } from '../src/timerange.js';
+import { envelope, history, withTempDir } from './fixtures.js';
+
+const T = 1_700_000_000;
+// id 順と clock 順がずれる（syncer 間で前後する）並び
+const CLOCKS = [5, 1, 3, 2, 4, 3, 6, 0];
+
+function ring(capacity = 100) {
+  const r = new RingBuffer(capacity);
+  for (const [i, sec] of CLOCKS.entries()) {
+    const { source, record } = envelope(0, history({ clock: T + sec, itemid: 100 + i % 2 }));
+    r.push({ source, record });
+  }
+  return r;
+}
+
+const req = (o: Partial<RangeRequest>): RangeRequest => ({ from: null, to: null, cursor: null, order: 'asc', limit: 100, ...o });
+const secs = (items: { record: { clock: number } }[]) => items.map(e => e.record.clock - T);
+
+test('parses UNIX seconds with fractions and ISO 8601', () => {
+  assert.deepEqual(parseClock('from', `${T}.25`), { clock: T, ns: 250_000_000 });
+  assert.deepEqual(parseClock('from', '2023-11-14T22:13:20.5Z'), { clock: T, ns: 500_000_000 });
+  assert.throws(() => parseClock('to', 'yesterday'), /to: UNIX seconds or ISO 8601/);
+});
+
+test('cursors round-trip and reject garbage', () => {
+  const c = { key: { clock: T, ns: 7, id: 42 }, side: 'before' as const };
+  assert.deepEqual(decodeCursor(encodeCursor(c)), c);
+  assert.throws(() => decodeCursor('bm9wZQ'), /cursor: invalid/);
+});
+
+test('selects an inclusive clock range in either order', async () => {
+  const r = ring();
+  assert.deepEqual(secs((await queryRange(r, undefined, req({ from: { clock: T + 2, ns: 0 }, to: { clock: T + 4, ns: 0 } }))).items), [2, 3, 3, 4]);
+  const desc = await queryRange(r, undefined, req({ order: 'desc', limit: 3 }));
+  assert.deepEqual(secs(desc.items), [6, 5, 4]);
+  assert.deepEqual(desc.items.slice(1).map(e => e.id), [1, 5]);
+  const odd = await queryRange(r, undefined, req({ limit: 100 }), EventFilter.fromQuery({ itemid: '101' }));
+  assert.deepEqual(secs(odd.items), [0, 1, 2, 3]);
+});
+
+test('pages forward with next and back with prev', async () => {
+  const r = ring();
+  const first = await queryRange(r, undefined, req({ limit: 3 }));
+  assert.deepEqual(secs(first.items), [0, 1, 2]);
+  assert.equal(first.prev, null);
+  const second = await queryRange(r, undefined, req({ limit: 3, cursor: decodeCursor(first.next!) }));
+  assert.deepEqual(second.items.map(e => e.id), [3, 6, 5]); // 同じ clock は id 順
+  const third = await queryRange(r, undefined, req({ limit: 3, cursor: decodeCursor(second.next!) }));
+  assert.deepEqual(secs(third.items), [5, 6]);
+  assert.equal(third.next, null);
+  const back = await queryRange(r, undefined, req({ limit: 3, cursor: decodeCursor(third.prev!) }));
+  assert.deepEqual(back.items, second.items);
+});
+
+test('merges the journal for ranges older than the ring', () => withTempDir(async dir => {
+  const journal = new Journal(dir, { segmentBytes: 1024 * 1024, maxBytes: 1024 * 1024 * 1024, maxAgeMs: 3_600_000 });
+  await journal.open();
+  try {
+    const r = ring(3); // 最後の 3 件（clock 4, 6, 0）だけが残る
+    for (const [i, sec] of CLOCKS.entries()) journal.append(envelope(i + 1, history({ clock: T + sec, itemid: 100 + i % 2 })));
+    const page = await queryRange(r, journal, req({ order: 'desc', limit: 5 }));
+    assert.deepEqual(secs(page.items), [6, 5, 4, 3, 3]);
+    assert.deepEqual(page.items.map(e => e.id), [7, 1, 5, 6, 3]);
+  } finally {
+    await journal.close();
+  }
+}));
@@ -0,0 +1,177 @@
+import assert from 'node:assert/strict';
+import crypto from 'node:crypto';
+import { Duplex } from 'node:stream';
+import test from 'node:test';
+import { EventFilter } from '../src/filter.js';
+import type { ReplayTarget } from '../src/replay.js';
+import type { ZabbixRtxEnvelope } from '../src/types.js';
+import { WsHub } from '../src/websocket.js';
+import { envelope, history, problem } from './fixtures.js';
+
+// クライアント側のフレーム（既定でマスク付き）
+function frame(opcode: number, payload: Buffer | string, o: { fin?: boolean; masked?: boolean } = {}): Buffer {
+  const data = Buffer.from(payload);
+  const masked = o.masked ?? true;
+  const head = data.length < 126 ? Buffer.from([0, data.length]) : Buffer.from([0, 126, data.length >> 8, data.length & 0xff]);
+  head[0] = ((o.fin ?? true) ? 0x80 : 0) | opcode;
+  if (!masked) return Buffer.concat([head, data]);
+  head[1] |= 0x80;
+  const mask = crypto.randomBytes(4);
+  return Buffer.concat([head, mask, data.map((b, i) => b ^ mask[i & 3])]);
+}
+
+const text = (msg: unknown) => frame(0x1, JSON.stringify(msg));
+
+interface Frame { opcode: number; payload: Buffer }
+
+// サーバが書いたフレームを読む
+function socket() {
+  let buf = Buffer.alloc(0);
+  const frames: Frame[] = [];
+  const s = new Duplex({
+    read() { },
+    write(chunk: Buffer, _enc, cb) {
+      buf = Buffer.concat([buf, chunk]);
+      for (;;) {
+        if (buf.length < 2) break;
+        let len = buf[1] & 0x7f, off = 2;
+        if (len === 126) { len = buf.readUInt16BE(2); off = 4; }
+        else if (len === 127) { len = Number(buf.readBigUInt64BE(2)); off = 10; }
+        if (buf.length < off + len) break;
+        frames.push({ opcode: buf[0] & 0x0f, payload: buf.subarray(off, off + len) });
+        buf = buf.subarray(off + len);
+      }
+      cb();
+    },
+  });
+  const messages = () => frames.filter(f => f.opcode === 0x1).map(f => JSON.parse(f.payload.toString('utf8')));
+  const closeCode = () => frames.find(f => f.opcode === 0x8)?.payload.readUInt16BE(0);
+  // クライアントから届いたことにする（'data' は非同期に発火する）
+  const feed = async (...chunks: Buffer[]) => {
+    for (const chunk of chunks) s.push(chunk);
+    await new Promise(r => setImmediate(r));
+  };
+  return { s, frames, messages, closeCode, feed };
+}
+
+// replay を手動で進める deps
+function hub(dropThreshold = 64 * 1024) {
+  let latest = 0;
+  const replays: { sinceId: number; target: ReplayTarget; live: () => void; done: () => void }[] = [];
+  const ws = new WsHub({
+    latestId: () => latest,
+    parseFilter: q => EventFilter.fromQuery(q),
+    replay: (sinceId, _filter, target, live) => new Promise<void>(done => replays.push({ sinceId, target, live, done })),
+    snapshot: name => { if (name !== 'problems') throw new Error(`unknown snapshot ${name}`); return []; },
+    payload: env => env.record,
+  }, { dropThreshold, maxMessageBytes: 1024 });
+  // replay を終える: envs を再送し、latestId を進めてから live
+  const finish = async (i: number, envs: ZabbixRtxEnvelope[], latestId: number) => {
+    const r = replays[i];
+    for (const env of envs) r.target.send(env);
+    latest = latestId;
+    r.live();
+    r.done();
+    await new Promise(r => setImmediate(r));
+  };
+  return { ws, replays, finish, setLatest: (id: number) => { latest = id; } };
+}
+
+function connect(ws: WsHub, clientId: string | null = null) {
+  const c = socket();
+  ws.add(c.s, clientId);
+  return c;
+}
+
+const hist = (id: number, value = 1) => envelope(id, history({ value }));
+const broadcast = (ws: WsHub, env: ZabbixRtxEnvelope) => ws.broadcast('zabbix.history', env.record, env.id, env);
+
+test('decodes masked, split and fragmented frames and answers pings', async () => {
+  const { ws } = hub();
+  const c = connect(ws);
+  assert.deepEqual(c.messages()[0], { type: 'hello', latestId: 0 });
+
+  const sub = text({ op: 'subscribe', sub: 'a' });
+  await c.feed(sub.subarray(0, 3));
+  await c.feed(sub.subarray(3), frame(0x1, '{"op":"subscribe",', { fin: false }), frame(0x0, '"sub":"b"}'), frame(0x9, 'hi'));
+  assert.deepEqual(c.messages().slice(1), [{ type: 'subscribed', sub: 'a' }, { type: 'subscribed', sub: 'b' }]);
+  const pong = c.frames.find(f => f.opcode === 0xa);
+  assert.equal(pong?.payload.toString(), 'hi');
+});
+
+test('closes on protocol violations', async () => {
+  const { ws } = hub();
+  const cases: [Buffer, number][] = [
+    [frame(0x1, '{}', { masked: false }), 1002],
+    [frame(0x1, 'x'.repeat(2000)), 1009],
+    [frame(0x2, 'bin'), 1003],
+    [frame(0x0, 'cont'), 1002],
+  ];
+  for (const [data, code] of cases) {
+    const c = connect(ws);
+    await c.feed(data);
+    assert.equal(c.closeCode(), code);
+  }
+  assert.equal(ws.size, 0);
+});
+
+test('routes live events to matching subscriptions and reports bad requests', async () => {
+  const { ws } = hub();
+  const c = connect(ws);
+  await c.feed(text({ op: 'subscribe', sub: 'all' }));
+  await c.feed(text({ op: 'subscribe', sub: 'crit', filter: { family: 'problems', 'severity>': 4 }, snapshot: 'problems' }));
+  broadcast(ws, hist(1));
+  const p = envelope(2, problem({ severity: 5 }));
+  ws.broadcast('zabbix.problems', p.record, p.id, p);
+  await c.feed(text({ op: 'subscribe', filter: { family: 'bogus' } }));
+  await c.feed(text({ op: 'nope' }));
+
+  const msgs = c.messages();
+  assert.deepEqual(msgs.filter(m => m.type === 'event').map(m => [m.id, m.subs]), [[1, ['all']], [2, ['all', 'crit']]]);
+  assert.ok(msgs.some(m => m.type === 'snapshot' && m.sub === 'crit'));
+  assert.deepEqual(msgs.filter(m => m.type === 'error').length, 2);
+});
+
+test('holds live events during replay, skips replayed ids and reports dropped ones', async () => {
+  const { ws, replays, finish } = hub(1000);
+  const c = connect(ws);
+  await c.feed(text({ op: 'subscribe', sub: 'a', sinceId: 0 }));
+  assert.equal(replays.length, 1);
+  broadcast(ws, hist(3));                     // 再送に含まれる
+  broadcast(ws, hist(4));                     // 再送後のライブ
+  for (let id = 5; id <= 7; id++) broadcast(ws, envelope(id, history({ name: 'x'.repeat(1000) }))); // 保留しきれない
+
+  await finish(0, [hist(1), hist(2), hist(3)], 3);
+  const msgs = c.messages().filter(m => m.type === 'event' || m.type === 'gap');
+  assert.deepEqual(msgs.map(m => m.type === 'gap' ? m.ranges : m.id), [1, 2, 3, 4, [[5, 7]]]);
+  assert.equal(ws.dropped, 3);
+});
+
+test('reports a gap unless every subscription got the dropped ids by replay', async () => {
+  for (const live of [true, false]) {
+    const { ws, finish } = hub(1000);
+    const c = connect(ws);
+    if (live) await c.feed(text({ op: 'subscribe', sub: 'live' }));
+    await c.feed(text({ op: 'subscribe', sub: 'replayed', sinceId: 0 }));
+    broadcast(ws, envelope(6, history({ name: 'x'.repeat(1000) })));
+    await finish(0, [], 7);
+    const gaps = c.messages().filter(m => m.type === 'gap');
+    assert.deepEqual(gaps.map(m => m.ranges), live ? [[[6, 6]]] : []);
+  }
+});
+
+test('unsubscribe during replay discards it and ack feeds the next replay', async () => {
+  const { ws, replays, finish, setLatest } = hub();
+  const c = connect(ws, 'client-1');
+  await c.feed(text({ op: 'subscribe', sub: 'a', sinceId: 0 }));
+  await c.feed(text({ op: 'unsubscribe', sub: 'a' }));
+  await finish(0, [hist(1)], 1);
+  broadcast(ws, hist(2));
+  assert.deepEqual(c.messages().filter(m => m.type === 'event'), []);
+
+  setLatest(2);
+  await c.feed(text({ op: 'subscribe', sub: 'b' }));
+  await c.feed(text({ op: 'ack', id: 2 }));
+  await c.feed(text({ op: 'replay' }));
+  assert.equal(replays[1].sinceId, 2);
+});